@@ -1,31 +1,133 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { ProcessingStep, VoiceSettings, SettingsMode, Gender, Mood, SpeechSpeed, LanguageIntensity } from './types';
-import { translateVideoContent, generateThaiSpeech, decodePCMData, generateThaiHook, generateIsanHook } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ProcessingStep, VoiceSettings, SettingsMode, Gender, Mood, SpeechSpeed, LanguageIntensity, TranslationSegment, TargetLanguage, SourceLanguage, SpeakerProfile, MixSettings, CaptionStyle, CaptionPosition, SafeAreaPreset, VideoInput, ClipPlacement, HookVariant, ProjectRecord, TranslationVersion, VersionSource, AIProviderId, ProviderConfig, ProxyConfig, OpenAICompatibleConfig, ModelSettings, ModelTask, TaskModelConfig, VoiceEffectPreset, GlossaryEntry, GenerationContext, PronunciationEntry, VoiceReference } from './types';
+import { translateVideoContent, generateHook, generateHookVariants } from './services/geminiService';
+import { FILES_API_MAX_BYTES, readAsBase64 } from './services/fileUploadService';
+import { getActiveProvider, prepareVideoInput, releaseVideoInput, loadProviderConfig, saveProviderConfig, PROVIDER_LABELS } from './services/aiProviderService';
+import { fetchVideoFromUrl } from './services/urlFetchService';
+import { createPronunciationEntry, loadLexicon, normalizeForSpeech, saveLexicon } from './services/pronunciationService';
+import { checkSegmentsGlossary, createGlossaryEntry, findTermViolations, fixUntranslatedTerms, loadGlobalGlossary, mergeGlossaries, saveGlobalGlossary } from './services/glossaryService';
+import { LANGUAGE_PROFILES, SOURCE_LANGUAGES, getLanguageProfile } from './services/languageProfiles';
+import { synthesizeSegmentClips, assembleDubTrack, audioBufferToWav, applyFittedText, DubClip, extractDubClips, splitDubClip, mergeDubClips } from './services/audioService';
+import { MAX_TIMELINE_PIXELS, computePeaks, drawWaveform, mergeWithNext, moveSegment, splitSegment, trimSegment } from './services/timelineService';
+import { FitMethod, isWithinTolerance, measureDubFit } from './services/durationFitService';
+import { segmentsToText, collapseSegments, formatTimestamp } from './services/segmentService';
+import { parseSubtitles, serializeSubtitles, SubtitleFormat } from './services/subtitleService';
+import { buildSpeakerProfiles } from './services/speakerService';
+import { PREBUILT_VOICES, getVoicesByGender } from './services/voiceCatalog';
+import { analyzeVoice, createReferenceClip, findReferenceRanges, pickClosestVoice } from './services/voiceMatchService';
+import { GEMINI_MODELS, getModelInfo } from './services/modelCatalog';
+import { MODEL_TASKS, loadModelSettings, normalizeModelSettings, saveModelSettings, validateModelSettings } from './services/modelSettingsService';
+import { DEFAULT_MIX_SETTINGS, MixGraph, createMixGraph, renderMix, decodeOriginalAudio } from './services/mixService';
+import { renderDubbedVideo, isOfflineRenderSupported } from './services/renderService';
+import { DEFAULT_CAPTION_STYLE, SAFE_AREA_PRESETS, CAPTION_FONTS, buildCaptionCues, createCaptionOverlay, drawCaption, findActiveCue, ensureCaptionFont, spokenCharacters } from './services/captionService';
+import { findActiveWord, isSpokenWord, timingsMatchText } from './services/wordTimingService';
+import { ProjectAssets, createProjectId, listProjects, saveProject, loadProject, deleteProject, purgeProjects, restoreAudioBuffer, getLastProjectId, clearLastProjectId, getStorageEstimate, requestPersistentStorage, StorageEstimate } from './services/projectService';
+import { DiffToken, createVersion, trimVersions, findVersion, getUndoTarget, getRedoTarget, isSameContent, diffVersions } from './services/historyService';
+import { VoicedHook, MAX_HOOK_VARIANTS, estimateSpokenDuration, variantLabel, voiceHookVariant, exportHookVariants } from './services/hookService';
+import { BatchJob, BatchJobStatus, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, createBatchJob, exportBatchZip, isJobActive, resolveJobSettings, runBatchJob } from './services/batchService';
+
+// รอให้หยุดแก้ไขสักครู่ก่อนบันทึก เพื่อไม่ให้เขียน IndexedDB ทุกครั้งที่พิมพ์
+const AUTOSAVE_DELAY_MS = 1000;
+const PURGE_AFTER_DAYS = 30;
+// การพิมพ์แก้เองจะรวมเป็นเวอร์ชันเดียวเมื่อหยุดพิมพ์ครบช่วงเวลานี้
+const MANUAL_VERSION_DELAY_MS = 1500;
+
+interface VersionHistory {
+  versions: TranslationVersion[];
+  currentId: string | null;
+}
+
+const EMPTY_HISTORY: VersionHistory = { versions: [], currentId: null };
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<ProcessingStep>(ProcessingStep.IDLE);
   const [progress, setProgress] = useState(0);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [videoBase64, setVideoBase64] = useState<string | null>(null);
+  const [videoFile, setVideoFile] = useState<Blob | null>(null);
   const [videoMimeType, setVideoMimeType] = useState<string | null>(null);
   const [videoDuration, setVideoDuration] = useState<number>(0);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [translatedText, setTranslatedText] = useState("");
+  const [segments, setSegments] = useState<TranslationSegment[]>([]);
+  const [speakers, setSpeakers] = useState<SpeakerProfile[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [activeWord, setActiveWord] = useState<{ segmentId: string; index: number } | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timelineZoom, setTimelineZoom] = useState(60);
+  const [timelineTime, setTimelineTime] = useState(0);
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const [revoicingSegmentId, setRevoicingSegmentId] = useState<string | null>(null);
+  const [matchingSpeakerIds, setMatchingSpeakerIds] = useState<string[]>([]);
+  const [referenceClips, setReferenceClips] = useState<Record<string, string>>({});
+  const timelineDrag = useRef<{ id: string; mode: 'move' | 'start' | 'end'; x: number; start: number; end: number; moved: boolean } | null>(null);
+  const originalWaveRef = useRef<HTMLCanvasElement>(null);
+  const dubWaveRef = useRef<HTMLCanvasElement>(null);
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [isHooking, setIsHooking] = useState(false);
-  const [isIsanHooking, setIsIsanHooking] = useState(false);
+  const [isDialectHooking, setIsDialectHooking] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [voiceProgress, setVoiceProgress] = useState(0);
+  const [fitMethods, setFitMethods] = useState<FitMethod[]>([]);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [analysisProgress, setAnalysisProgress] = useState({ done: 0, total: 1 });
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [projectModelSettings, setProjectModelSettings] = useState<ModelSettings | null>(null);
+  const [globalGlossary, setGlobalGlossary] = useState<GlossaryEntry[]>(loadGlobalGlossary);
+  const [projectGlossary, setProjectGlossary] = useState<GlossaryEntry[]>([]);
+  const [glossaryScope, setGlossaryScope] = useState<'global' | 'project'>('global');
+  const [lexicon, setLexicon] = useState<PronunciationEntry[]>(loadLexicon);
   const [videoUrlInput, setVideoUrlInput] = useState("");
   const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  const [urlFetchProgress, setUrlFetchProgress] = useState<{ received: number; total: number | null } | null>(null);
+  const urlFetchAbortController = useRef<AbortController | null>(null);
+  const [subtitleFileName, setSubtitleFileName] = useState<string | null>(null);
+  const [includeOriginalSubtitles, setIncludeOriginalSubtitles] = useState(false);
 
   const [currentAudioBuffer, setCurrentAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [clipPlacements, setClipPlacements] = useState<ClipPlacement[]>([]);
+  const [originalAudioBuffer, setOriginalAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [mixSettings, setMixSettings] = useState<MixSettings>(DEFAULT_MIX_SETTINGS);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [workMode, setWorkMode] = useState<'single' | 'batch'>('single');
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [batchUrlInput, setBatchUrlInput] = useState("");
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [queueSettings, setQueueSettings] = useState<VoiceSettings | null>(null);
+  const [includeVideoInZip, setIncludeVideoInZip] = useState(false);
+  const [batchExportProgress, setBatchExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectCreatedAt, setProjectCreatedAt] = useState(0);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [hookVariants, setHookVariants] = useState<HookVariant[]>([]);
+  const [history, setHistory] = useState<VersionHistory>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSpokenText, setShowSpokenText] = useState(false);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [hookCount, setHookCount] = useState(3);
+  const [isGeneratingVariants, setIsGeneratingVariants] = useState(false);
+  const [hookVoices, setHookVoices] = useState<Record<string, VoicedHook>>({});
+  const [voicingVariantIds, setVoicingVariantIds] = useState<string[]>([]);
+  const [selectedVariantIds, setSelectedVariantIds] = useState<string[]>([]);
+  const [previewVariantId, setPreviewVariantId] = useState<string | null>(null);
+  const [hookExportProgress, setHookExportProgress] = useState<{ done: number; total: number } | null>(null);
 
   const [settings, setSettings] = useState<VoiceSettings>({
     mode: 'auto',
+    targetLanguage: 'th',
+    sourceLanguage: 'auto',
+    dialect: 'standard',
     gender: 'female',
     mood: 'natural',
     speed: 'normal',
@@ -35,9 +137,32 @@ const App: React.FC = () => {
   });
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const captionPreviewRef = useRef<HTMLCanvasElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const mixGraphRef = useRef<MixGraph | null>(null);
   const processingAbortController = useRef<AbortController | null>(null);
+  const renderAbortController = useRef<AbortController | null>(null);
+  const jobControllers = useRef(new Map<string, AbortController>());
+  const previewGraphRef = useRef<MixGraph | null>(null);
+  const batchExportController = useRef<AbortController | null>(null);
+  // จำว่าไฟล์วิดีโอ/เสียงพากย์ชุดไหนบันทึกลง IndexedDB แล้ว จะได้ไม่เขียนไฟล์ใหญ่ซ้ำทุกครั้งที่แก้ข้อความ
+  const savedAssetsRef = useRef<{ video: string | null; dub: AudioBuffer | null; voices: Record<string, string> | null }>({ video: null, dub: null, voices: null });
+
+  const translatedText = segmentsToText(segments);
+  const languageProfile = getLanguageProfile(settings.targetLanguage);
+  const regionalDialect = languageProfile.dialects.find(d => d.id !== 'standard');
+  const overrunBySegment = Object.fromEntries(clipPlacements.map(p => [p.segmentId, p.overrun]));
+  const placementBySegment = Object.fromEntries(clipPlacements.map(p => [p.segmentId, p]));
+  const timelineDuration = Math.max(videoDuration, currentAudioBuffer?.duration || 0, ...segments.map(s => s.end), 1);
+  const timelineScale = Math.min(timelineZoom, MAX_TIMELINE_PIXELS / timelineDuration);
+  const originalPeaks = useMemo(() => showTimeline && originalAudioBuffer ? computePeaks(originalAudioBuffer) : null, [showTimeline, originalAudioBuffer]);
+  const dubPeaks = useMemo(() => showTimeline && currentAudioBuffer ? computePeaks(currentAudioBuffer) : null, [showTimeline, currentAudioBuffer]);
+  const selectedSegment = segments.find(s => s.id === selectedSegmentId) || null;
+  const dubFit = clipPlacements.length ? measureDubFit(clipPlacements, segments, settings.speed === 'sync', fitMethods) : null;
+  const captionCues = buildCaptionCues(segments, clipPlacements);
+  const activeGlossary = mergeGlossaries(projectGlossary, globalGlossary);
+  const generationContext: GenerationContext = { glossary: activeGlossary, models: projectModelSettings || modelSettings, referenceClips };
+  const glossaryViolations = checkSegmentsGlossary(segments, activeGlossary);
 
   useEffect(() => {
     // ตรวจสอบสถานะ API Key เมื่อโหลด Component
@@ -55,26 +180,207 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    let interval: number;
-    if (step !== ProcessingStep.IDLE && step !== ProcessingStep.COMPLETED && step !== ProcessingStep.ERROR) {
-      interval = window.setInterval(() => {
-        setProgress(prev => {
-          let target = 0;
-          if (step === ProcessingStep.UPLOADING) target = 10;
-          if (step === ProcessingStep.ANALYZING) target = 60;
-          if (step === ProcessingStep.GENERATING_VOICE) target = 95;
-          if (prev < target) return prev + 0.5;
-          return prev;
-        });
-      }, 50);
+    // เปิดโปรเจกต์ล่าสุดต่อจากครั้งก่อน (กรณีรีเฟรชหน้าเว็บ)
+    const lastId = getLastProjectId();
+    if (lastId) openProject(lastId);
+  }, []);
+
+  useEffect(() => {
+    if (step === ProcessingStep.IDLE) refreshProjects();
+  }, [step]);
+
+  useEffect(() => {
+    if (!projectId || !videoFile || !videoDuration) return;
+    const timer = window.setTimeout(persistProject, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, videoFile, videoDuration, settings, segments, speakers, clipPlacements, mixSettings, captionStyle, hookVariants, history, currentAudioBuffer, projectModelSettings, projectGlossary]);
+
+  useEffect(() => {
+    // การแก้ไขเองที่ยังไม่ได้บันทึกเป็นเวอร์ชัน (เวอร์ชันแรกของคำแปลที่ไม่มีประวัติจะบันทึกทันที)
+    if (segments.length === 0) return;
+    const current = findVersion(history.versions, history.currentId);
+    if (current && isSameContent(current, segments, speakers)) return;
+    const timer = window.setTimeout(
+      () => commitVersion(current ? 'manual' : 'translation', segments, speakers, settings),
+      current ? MANUAL_VERSION_DELAY_MS : 0
+    );
+    return () => clearTimeout(timer);
+  }, [segments, speakers]);
+
+  useEffect(() => {
+    // Ctrl/Cmd+Z ย้อนกลับ, Ctrl/Cmd+Shift+Z หรือ Ctrl+Y ทำซ้ำ (ในช่องพิมพ์ใช้ undo ของเบราว์เซอร์ตามปกติ)
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (step !== ProcessingStep.COMPLETED || !(e.ctrlKey || e.metaKey)) return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoVersion();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoVersion();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  useEffect(() => {
+    if (step === ProcessingStep.UPLOADING) {
+      setProgress(0);
+    } else if (step === ProcessingStep.GENERATING_VOICE) {
+      setProgress(prev => Math.max(prev, 60));
     } else if (step === ProcessingStep.COMPLETED) {
       setProgress(100);
-    } else {
+    } else if (step !== ProcessingStep.ANALYZING) {
       setProgress(0);
     }
-    return () => clearInterval(interval);
   }, [step]);
 
+  useEffect(() => {
+    if (step !== ProcessingStep.ANALYZING) return;
+    // แต่ละคำขอแปลไม่มีความคืบหน้าจริงให้รายงาน จึงค่อยๆ ขยับแถบไปจนถึงขอบของช่วงที่กำลังแปล
+    const target = 30 + 30 * Math.min(1, (analysisProgress.done + 1) / analysisProgress.total);
+    const interval = window.setInterval(() => {
+      setProgress(prev => prev < target ? prev + 0.5 : prev);
+    }, 50);
+    return () => clearInterval(interval);
+  }, [step, analysisProgress]);
+
+  useEffect(() => {
+    drawCaptionPreview();
+  }, [captionStyle, segments, clipPlacements]);
+
+  useEffect(() => {
+    if (!showTimeline) return;
+    const width = timelineDuration * timelineScale;
+    if (originalWaveRef.current) drawWaveform(originalWaveRef.current, originalPeaks, timelineScale, width, '#94a3b8');
+    if (dubWaveRef.current) drawWaveform(dubWaveRef.current, dubPeaks, timelineScale, width, '#6366f1');
+  }, [showTimeline, originalPeaks, dubPeaks, timelineScale, timelineDuration]);
+
+  // ติดตามคำที่กำลังพูดระหว่างพรีวิว อัปเดต state เฉพาะตอนเปลี่ยนคำ ไม่ใช่ทุกเฟรม
+  useEffect(() => {
+    if (!isPlaying) {
+      setActiveWord(null);
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      const time = mixGraphRef.current?.currentTime() ?? videoRef.current?.currentTime ?? 0;
+      const found = findActiveWord(clipPlacements, time);
+      setActiveWord(prev => prev?.segmentId === found?.segmentId && prev?.index === found?.index ? prev : found);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, clipPlacements]);
+
+  useEffect(() => {
+    if (step === ProcessingStep.UPLOADING) {
+      setProgress(30 * uploadProgress);
+    }
+  }, [step, uploadProgress]);
+
+  useEffect(() => {
+    if (step === ProcessingStep.GENERATING_VOICE) {
+      setProgress(60 + 39 * voiceProgress);
+    }
+  }, [step, voiceProgress]);
+
+  useEffect(() => {
+    // เริ่มงานที่รอคิวเท่าที่ยังมีช่องว่าง ตามจำนวนงานพร้อมกันที่กำหนด
+    if (!batchRunning) return;
+    const slots = batchConcurrency - jobs.filter(isJobActive).length;
+    const queued = jobs.filter(j => j.status === 'queued');
+    if (queued.length === 0 && slots === batchConcurrency) {
+      setBatchRunning(false);
+      return;
+    }
+    queued.slice(0, Math.max(0, slots)).forEach(startBatchJob);
+  }, [jobs, batchRunning, batchConcurrency]);
+
+  useEffect(() => {
+    // ปรับระดับเสียงระหว่างพรีวิวได้ทันที (ค่า ducking จะมีผลเมื่อเริ่มเล่นใหม่)
+    const graph = mixGraphRef.current;
+    if (!graph) return;
+    graph.master.gain.value = mixSettings.masterGain;
+    graph.dub.gain.value = mixSettings.dubGain;
+    graph.background.gain.value = mixSettings.backgroundGain;
+  }, [mixSettings]);
+
+  const updateProviderConfig = (patch: Partial<ProviderConfig>) => {
+    const next = { ...providerConfig, ...patch };
+    setProviderConfig(next);
+    saveProviderConfig(next);
+  };
+
+  const updateProxyConfig = (key: keyof ProxyConfig, value: string) => {
+    updateProviderConfig({ proxy: { ...providerConfig.proxy, [key]: value } });
+  };
+
+  const updateOpenAIConfig = <K extends keyof OpenAICompatibleConfig>(key: K, value: OpenAICompatibleConfig[K]) => {
+    updateProviderConfig({ openai: { ...providerConfig.openai, [key]: value } });
+  };
+
+  // แก้การตั้งค่าเฉพาะโปรเจกต์เมื่อเปิดใช้ ไม่เช่นนั้นแก้การตั้งค่าหลักที่ใช้กับทุกโปรเจกต์
+  const editedModelSettings = projectModelSettings || modelSettings;
+  const modelErrors = validateModelSettings(editedModelSettings);
+
+  const updateModelSettings = (next: ModelSettings) => {
+    if (projectModelSettings) {
+      setProjectModelSettings(next);
+    } else {
+      setModelSettings(next);
+      saveModelSettings(next);
+    }
+  };
+
+  const updateTaskModel = (task: ModelTask, patch: Partial<TaskModelConfig>) => {
+    const next = { ...editedModelSettings[task], ...patch };
+    // ล้าง thinking budget เมื่อเปลี่ยนไปใช้โมเดลที่ไม่รองรับ
+    if (patch.model && !getModelInfo(patch.model)?.thinking) next.thinkingBudget = null;
+    updateModelSettings({ ...editedModelSettings, [task]: next });
+  };
+
+  const toggleProjectModelSettings = (enabled: boolean) => {
+    setProjectModelSettings(enabled ? modelSettings : null);
+  };
+
+  // แก้คำของโปรเจกต์นี้หรือคำกลางที่ใช้กับทุกโปรเจกต์
+  const editedGlossary = glossaryScope === 'project' ? projectGlossary : globalGlossary;
+
+  const updateGlossary = (next: GlossaryEntry[]) => {
+    if (glossaryScope === 'project') {
+      setProjectGlossary(next);
+    } else {
+      setGlobalGlossary(next);
+      saveGlobalGlossary(next);
+    }
+  };
+
+  const updateGlossaryEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    updateGlossary(editedGlossary.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  };
+
+  const updateLexicon = (next: PronunciationEntry[]) => {
+    setLexicon(next);
+    saveLexicon(next);
+  };
+
+  const updateLexiconEntry = (id: string, patch: Partial<PronunciationEntry>) => {
+    updateLexicon(lexicon.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+  };
+
+  const fixGlossaryTerms = (segment: TranslationSegment) => {
+    updateSegment(segment.id, { targetText: fixUntranslatedTerms(segment.targetText, glossaryViolations[segment.id] || []) });
+  };
+
+  const modelTaskLabels: Record<ModelTask, string> = {
+    translation: 'แปลวิดีโอ',
+    hook: 'เขียน Hook',
+    speech: 'พากย์เสียง'
+  };
+
   const handleSelectApiKey = async () => {
     try {
       if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
@@ -86,33 +392,64 @@ const App: React.FC = () => {
     }
   };
 
+  // เก็บไฟล์ไว้เป็น Blob แล้วค่อยตัดสินใจตอนประมวลผลว่าจะส่งแบบ inline หรืออัปโหลดผ่าน Files API
+  const loadVideo = (blob: Blob, mimeType: string, name: string) => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    // วิดีโอใหม่ = โปรเจกต์ใหม่ บันทึกอัตโนมัติเมื่ออ่านความยาววิดีโอได้แล้ว
+    // เปลี่ยนวิดีโอทับของเดิมต้องล้างงานของวิดีโอเดิมทิ้ง (ซับไตเติลที่นำเข้าไว้ก่อนเลือกวิดีโอแรกยังเก็บไว้)
+    if (videoFile) resetProjectState();
+    setProjectId(createProjectId());
+    setProjectCreatedAt(Date.now());
+    setVideoFile(blob);
+    setVideoMimeType(mimeType);
+    setFileName(name);
+    const objUrl = URL.createObjectURL(blob);
+    setVideoUrl(objUrl);
+
+    const tempVideo = document.createElement('video');
+    tempVideo.src = objUrl;
+    tempVideo.onloadedmetadata = () => {
+      setVideoDuration(tempVideo.duration);
+    };
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (file.size > 50 * 1024 * 1024) {
-      setErrorMessage("ไฟล์มีขนาดใหญ่เกินไป (จำกัด 50MB)");
+    if (file.size > FILES_API_MAX_BYTES) {
+      setErrorMessage("ไฟล์มีขนาดใหญ่เกินไป (จำกัด 2GB)");
       return;
     }
 
     setErrorMessage(null);
-    setFileName(file.name);
-
-    const reader = new FileReader();
-    reader.onload = async () => {
-      const b64 = (reader.result as string).split(',')[1];
-      setVideoBase64(b64);
-      setVideoMimeType(file.type);
-      const objUrl = URL.createObjectURL(file);
-      setVideoUrl(objUrl);
+    loadVideo(file, file.type, file.name);
+  };
 
-      const tempVideo = document.createElement('video');
-      tempVideo.src = objUrl;
-      tempVideo.onloadedmetadata = () => {
-        setVideoDuration(tempVideo.duration);
-      };
-    };
-    reader.readAsDataURL(file);
+  const handleSubtitleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseSubtitles(await file.text());
+      const importedSpeakers = buildSpeakerProfiles(imported, settings, generationContext.models);
+      setSegments(imported);
+      setSpeakers(importedSpeakers);
+      setHistory(EMPTY_HISTORY);
+      commitVersion('subtitle-import', imported, importedSpeakers, settings);
+      setSubtitleFileName(file.name);
+      setErrorMessage(null);
+    } catch (e: any) {
+      setErrorMessage(e.message || "ไม่สามารถอ่านไฟล์ซับไตเติลได้");
+    }
+  };
+
+  const clearImportedSubtitles = () => {
+    setSubtitleFileName(null);
+    setSegments([]);
+    setSpeakers([]);
+    setHistory(EMPTY_HISTORY);
   };
 
   const handleUrlFetch = async () => {
@@ -121,94 +458,21 @@ const App: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    urlFetchAbortController.current = controller;
     setIsFetchingUrl(true);
+    setUrlFetchProgress(null);
     setErrorMessage(null);
 
     try {
-      // ใช้ Cobalt API (Public Instance) เป็นตัวช่วยดาวน์โหลด
-      // รายการ instance: https://instances.cobalt.tools/
-      const apiInstances = [
-        "https://downloadapi.stuff.solutions",
-        "https://cobalt-api.kwiatekmiki.com",
-        "https://cobalt-7.kwiatekmiki.com"
-      ];
-
-      let success = false;
-      let videoBuffer;
-      let videoMime = "video/mp4";
-
-      for (const api of apiInstances) {
-        // ลองทั้ง root (v10) และ /api/json (v9)
-        const endpoints = [api, `${api}/api/json`].filter(Boolean);
-
-        for (const endpoint of endpoints) {
-          try {
-            console.log(`Checking Cobalt instance: ${endpoint}`);
-            const response = await fetch(endpoint, {
-              method: 'POST',
-              headers: {
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({
-                url: videoUrlInput,
-                videoQuality: '720',
-                vCodec: 'h264'
-              })
-            });
-
-            if (!response.ok) {
-              const errBody = await response.text();
-              console.warn(`Instance ${endpoint} returned ${response.status}: ${errBody}`);
-              continue;
-            }
-
-            const data = await response.json();
-            if (data.url) {
-              const videoResp = await fetch(data.url);
-              videoBuffer = await videoResp.arrayBuffer();
-              videoMime = videoResp.headers.get('Content-Type') || "video/mp4";
-              success = true;
-              break;
-            }
-          } catch (e) {
-            console.warn(`Error connecting to ${endpoint}:`, e);
-          }
-        }
-        if (success) break;
-      }
-
-      if (!success || !videoBuffer) {
-        throw new Error("ไม่สามารถดาวน์โหลดวิดีโอจากลิงก์นี้ได้ กรุณาลองลิงก์อื่นหรือใช้การอัปโหลดไฟล์แทน");
-      }
-
-      // ตรวจสอบขนาดไฟล์ (Gemini จำกัดที่ 50MB ในที่นี้เราเตือนไว้ก่อน)
-      if (videoBuffer.byteLength > 50 * 1024 * 1024) {
-        throw new Error("วิดีโอจากลิงก์มีขนาดใหญ่เกินไป (จำกัด 50MB)");
-      }
-
-      const blob = new Blob([videoBuffer], { type: videoMime });
-      const b64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(blob);
-      });
-
-      setVideoBase64(b64);
-      setVideoMimeType(videoMime);
-      const objUrl = URL.createObjectURL(blob);
-      setVideoUrl(objUrl);
-      setFileName(`URL: ${new URL(videoUrlInput).hostname}`);
-
-      const tempVideo = document.createElement('video');
-      tempVideo.src = objUrl;
-      tempVideo.onloadedmetadata = () => {
-        setVideoDuration(tempVideo.duration);
-      };
+      const fetched = await fetchVideoFromUrl(videoUrlInput, controller.signal, (received, total) => setUrlFetchProgress({ received, total }));
+      loadVideo(fetched.blob, fetched.mimeType, fetched.name);
     } catch (e: any) {
-      setErrorMessage(e.message || "เกิดข้อผิดพลาดในการดึงวิดีโอ");
+      if (e.name !== 'AbortError') setErrorMessage(e.message || "เกิดข้อผิดพลาดในการดึงวิดีโอ");
     } finally {
       setIsFetchingUrl(false);
+      setUrlFetchProgress(null);
+      urlFetchAbortController.current = null;
     }
   };
 
@@ -220,35 +484,58 @@ const App: React.FC = () => {
     setErrorMessage(null);
     setProgress(0);
     setIsHooking(false);
-    setIsIsanHooking(false);
+    setIsDialectHooking(false);
     setIsRegenerating(false);
     setCurrentAudioBuffer(null);
   };
 
   const startProcessing = async () => {
-    if (!videoBase64 || !videoMimeType) {
+    if (!videoFile || !videoMimeType) {
       setErrorMessage("กรุณาเลือกไฟล์วิดีโอก่อน");
       return;
     }
 
     const controller = new AbortController();
     processingAbortController.current = controller;
+    let videoInput: VideoInput | null = null;
 
     try {
-      setStep(ProcessingStep.ANALYZING);
-      const text = await translateVideoContent(videoBase64, videoMimeType, settings, videoDuration);
-      if (controller.signal.aborted) return;
-      setTranslatedText(text);
+      // ถ้านำเข้าซับไตเติลไว้แล้ว ใช้คำแปลนั้นเลยโดยไม่ต้องให้ AI แปลใหม่
+      let result = { segments, speakers };
+      if (!subtitleFileName || segments.length === 0) {
+        setUploadProgress(0);
+        setStep(ProcessingStep.UPLOADING);
+        videoInput = await prepareVideoInput(videoFile, videoMimeType, fileName || 'video', setUploadProgress, controller.signal);
+        if (controller.signal.aborted) return;
+
+        setAnalysisProgress({ done: 0, total: 1 });
+        setStep(ProcessingStep.ANALYZING);
+        result = await translateVideoContent(
+          videoInput,
+          settings,
+          generationContext,
+          videoDuration,
+          (done, total) => setAnalysisProgress({ done, total }),
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        setSegments(result.segments);
+        setSpeakers(result.speakers);
+        commitVersion('translation', result.segments, result.speakers, settings);
+      }
 
       setStep(ProcessingStep.GENERATING_VOICE);
-      await refreshVoice(text, videoDuration, undefined, controller);
+      const voiced = await refreshVoice(result.segments, videoDuration, undefined, controller, result.speakers);
       if (controller.signal.aborted) return;
 
-      setStep(ProcessingStep.COMPLETED);
+      setStep(voiced ? ProcessingStep.COMPLETED : ProcessingStep.ERROR);
     } catch (error: any) {
       if (error.name === 'AbortError' || controller.signal.aborted) return;
       setErrorMessage(error.message || "เกิดข้อผิดพลาดในการประมวลผล");
       setStep(ProcessingStep.ERROR);
+    } finally {
+      // ไฟล์ที่อัปโหลดใช้แค่ตอนแปล ลบทิ้งเมื่อจบงานไม่ว่าจะสำเร็จหรือไม่
+      releaseVideoInput(videoInput);
     }
   };
 
@@ -263,9 +550,12 @@ const App: React.FC = () => {
 
     try {
       const targetDuration = settings.customDuration || videoDuration;
-      const hookedText = await generateThaiHook(translatedText, settings, targetDuration);
+      const hookedText = await generateHook(translatedText, settings, generationContext, targetDuration);
       if (controller.signal.aborted) return;
-      setTranslatedText(hookedText);
+      const hooked = collapseSegments(segments, hookedText, targetDuration);
+      setSegments(hooked);
+      commitVersion('hook', hooked, speakers, settings);
+      addHookVariant(hookedText, settings.dialect);
     } catch (e: any) {
       if (e.name !== 'AbortError') setErrorMessage(e.message || "ไม่สามารถสร้าง Hook ได้");
     } finally {
@@ -273,31 +563,217 @@ const App: React.FC = () => {
     }
   };
 
-  const applyIsanHook = async () => {
-    if (!translatedText || isIsanHooking) return;
-    setIsIsanHooking(true);
+  const applyDialectHook = async () => {
+    if (!translatedText || !regionalDialect || isDialectHooking) return;
+    setIsDialectHooking(true);
     setCurrentAudioBuffer(null);
     setErrorMessage(null);
 
-    const isanSettings: VoiceSettings = { ...settings, mood: 'isan' };
-    setSettings(isanSettings);
+    const dialectSettings: VoiceSettings = { ...settings, dialect: regionalDialect.id };
+    setSettings(dialectSettings);
 
     const controller = new AbortController();
     processingAbortController.current = controller;
 
     try {
       const targetDuration = settings.customDuration || videoDuration;
-      const hookedText = await generateIsanHook(translatedText, settings, targetDuration);
+      const hookedText = await generateHook(translatedText, dialectSettings, generationContext, targetDuration);
       if (controller.signal.aborted) return;
-      setTranslatedText(hookedText);
+      const hooked = collapseSegments(segments, hookedText, targetDuration);
+      setSegments(hooked);
+      commitVersion('dialect-hook', hooked, speakers, dialectSettings);
+      addHookVariant(hookedText, dialectSettings.dialect);
+    } catch (e: any) {
+      if (e.name !== 'AbortError') setErrorMessage(e.message || `ไม่สามารถสร้าง Hook ${regionalDialect.label}ได้`);
+    } finally {
+      setIsDialectHooking(false);
+    }
+  };
+
+  const createHookVariant = (text: string, dialect: string, angle?: string): HookVariant => ({
+    id: `hook-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: Date.now(),
+    text,
+    dialect,
+    angle
+  });
+
+  const addHookVariant = (text: string, dialect: string) => {
+    setHookVariants(prev => [...prev, createHookVariant(text, dialect)]);
+  };
+
+  const generateVariants = async () => {
+    if (!translatedText || isGeneratingVariants) return;
+    setIsGeneratingVariants(true);
+    setErrorMessage(null);
+    try {
+      const targetDuration = settings.customDuration || videoDuration;
+      const candidates = await generateHookVariants(translatedText, settings, generationContext, hookCount, targetDuration);
+      setHookVariants(prev => [...prev, ...candidates.map(c => createHookVariant(c.text, settings.dialect, c.angle))]);
+    } catch (e: any) {
+      setErrorMessage(e.message || "ไม่สามารถสร้าง Hook ได้");
+    } finally {
+      setIsGeneratingVariants(false);
+    }
+  };
+
+  const voiceVariant = async (variant: HookVariant) => {
+    if (voicingVariantIds.includes(variant.id)) return;
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    setVoicingVariantIds(prev => [...prev, variant.id]);
+    setErrorMessage(null);
+    try {
+      if (videoUrl && !originalAudioBuffer) {
+        setOriginalAudioBuffer(await decodeOriginalAudio(videoUrl, audioContextRef.current));
+      }
+      const targetDuration = settings.customDuration || videoDuration;
+      const voiced = await voiceHookVariant(variant, segments, speakers, settings, generationContext, targetDuration, audioContextRef.current);
+      setHookVoices(prev => ({ ...prev, [variant.id]: voiced }));
+      setSelectedVariantIds(prev => prev.includes(variant.id) ? prev : [...prev, variant.id]);
+    } catch (e: any) {
+      setErrorMessage(e.message || "ไม่สามารถพากย์เสียง Hook ได้");
+    } finally {
+      setVoicingVariantIds(prev => prev.filter(id => id !== variant.id));
+    }
+  };
+
+  const stopVariantPreview = () => {
+    previewGraphRef.current?.stop();
+    previewGraphRef.current = null;
+    setPreviewVariantId(null);
+  };
+
+  const previewVariant = async (variant: HookVariant) => {
+    const voiced = hookVoices[variant.id];
+    const ctx = audioContextRef.current;
+    if (!voiced || !ctx) return;
+    stopVariantPreview();
+    stopTranslation();
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const graph = createMixGraph(ctx, ctx.destination, {
+      dub: voiced.track.buffer,
+      original: originalAudioBuffer,
+      placements: voiced.track.placements
+    }, mixSettings);
+    graph.onended = () => {
+      if (previewGraphRef.current === graph) {
+        previewGraphRef.current = null;
+        setPreviewVariantId(null);
+      }
+    };
+    graph.start(0);
+    previewGraphRef.current = graph;
+    setPreviewVariantId(variant.id);
+  };
+
+  const removeHookVariant = (id: string) => {
+    if (previewVariantId === id) stopVariantPreview();
+    setHookVariants(prev => prev.filter(v => v.id !== id));
+    setHookVoices(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+    setSelectedVariantIds(prev => prev.filter(v => v !== id));
+  };
+
+  const toggleVariantSelection = (id: string) => {
+    setSelectedVariantIds(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id]);
+  };
+
+  const exportHookAB = async () => {
+    const items = hookVariants
+      .map((variant, index) => ({ label: variantLabel(index), variant, voiced: hookVoices[variant.id] }))
+      .filter(item => item.voiced && selectedVariantIds.includes(item.variant.id));
+
+    const controller = new AbortController();
+    renderAbortController.current = controller;
+    setErrorMessage(null);
+    setHookExportProgress({ done: 0, total: items.length });
+    try {
+      const zip = await exportHookVariants(items, {
+        video: videoFile,
+        original: originalAudioBuffer,
+        mix: mixSettings,
+        includeVideo: includeVideoInZip,
+        captionStyle,
+        signal: controller.signal,
+        onProgress: (done, total) => setHookExportProgress({ done, total })
+      });
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vocalbridge-hooks-${Date.now()}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (e: any) {
-      if (e.name !== 'AbortError') setErrorMessage(e.message || "ไม่สามารถสร้าง Hook อิสานได้");
+      if (e.name !== 'AbortError') setErrorMessage(e.message || "ไม่สามารถส่งออก Hook ได้");
     } finally {
-      setIsIsanHooking(false);
+      setHookExportProgress(null);
+      renderAbortController.current = null;
+    }
+  };
+
+  // ถ้าพากย์ Hook แบบนี้ไว้แล้ว ใช้เสียงนั้นเป็นเสียงหลักได้ทันทีโดยไม่ต้องเจ็นใหม่
+  const applyHookVariant = (variant: HookVariant) => {
+    const targetDuration = settings.customDuration || videoDuration;
+    const variantSettings = { ...settings, dialect: variant.dialect };
+    const voiced = hookVoices[variant.id];
+    const hooked = voiced ? voiced.segments : collapseSegments(segments, variant.text, targetDuration);
+    setSettings(variantSettings);
+    setSegments(hooked);
+    if (voiced) {
+      setCurrentAudioBuffer(voiced.track.buffer);
+      setClipPlacements(voiced.track.placements);
+      setFitMethods([]);
+    }
+    commitVersion('hook', hooked, speakers, variantSettings);
+  };
+
+  const commitVersion = (source: VersionSource, segs: TranslationSegment[], spks: SpeakerProfile[], sets: VoiceSettings) => {
+    setHistory(prev => {
+      const version = createVersion(source, segs, spks, sets, prev.currentId);
+      return { versions: trimVersions([...prev.versions, version], version.id), currentId: version.id };
+    });
+  };
+
+  const restoreVersion = (version: TranslationVersion) => {
+    setSegments(version.segments);
+    setSpeakers(version.speakers);
+    setSettings(version.settings);
+    setHistory(prev => ({ ...prev, currentId: version.id }));
+  };
+
+  const undoVersion = () => {
+    const current = findVersion(history.versions, history.currentId);
+    if (!current) return;
+    // มีการพิมพ์ที่ยังไม่ถูกรวมเป็นเวอร์ชัน: เก็บไว้ก่อน (redo กลับมาได้) แล้วคืนค่าเป็นเวอร์ชันปัจจุบัน
+    if (!isSameContent(current, segments, speakers)) {
+      const pending = createVersion('manual', segments, speakers, settings, current.id);
+      setSegments(current.segments);
+      setSpeakers(current.speakers);
+      setSettings(current.settings);
+      setHistory(prev => ({ versions: trimVersions([...prev.versions, pending], current.id), currentId: current.id }));
+      return;
     }
+    const target = getUndoTarget(history.versions, history.currentId);
+    if (target) restoreVersion(target);
+  };
+
+  const redoVersion = () => {
+    const target = getRedoTarget(history.versions, history.currentId);
+    if (target) restoreVersion(target);
   };
 
-  const refreshVoice = async (textToUse: string, customDuration?: number, overrideSettings?: VoiceSettings, controller?: AbortController) => {
+  const restoreAndRevoice = async (version: TranslationVersion) => {
+    restoreVersion(version);
+    await refreshVoice(version.segments, undefined, version.settings, undefined, version.speakers);
+  };
+
+  // คืนค่า false เมื่อสร้างเสียงไม่สำเร็จ (แสดงข้อความผิดพลาดไว้แล้ว) หรือถูกยกเลิก
+  const refreshVoice = async (segmentsToUse: TranslationSegment[], customDuration?: number, overrideSettings?: VoiceSettings, controller?: AbortController, speakersToUse?: SpeakerProfile[]): Promise<boolean> => {
     setIsRegenerating(true);
     setCurrentAudioBuffer(null);
     setErrorMessage(null);
@@ -306,18 +782,37 @@ const App: React.FC = () => {
     const settingsToUse = overrideSettings || settings;
 
     try {
-      const pcmData = await generateThaiSpeech(textToUse, settingsToUse, durationToUse);
-      if (controller?.signal.aborted) return;
-
       if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       }
 
-      const audioBuffer = await decodePCMData(pcmData, audioContextRef.current);
-      setCurrentAudioBuffer(audioBuffer);
+      if (videoUrl && !originalAudioBuffer) {
+        setOriginalAudioBuffer(await decodeOriginalAudio(videoUrl, audioContextRef.current));
+      }
+
+      setVoiceProgress(0);
+      const clips = await synthesizeSegmentClips(
+        segmentsToUse,
+        speakersToUse || speakers,
+        settingsToUse,
+        generationContext,
+        audioContextRef.current,
+        controller?.signal,
+        (done, total) => setVoiceProgress(done / total),
+        durationToUse
+      );
+      if (controller?.signal.aborted) return false;
+
+      const track = assembleDubTrack(audioContextRef.current, clips, Math.max(durationToUse, videoDuration));
+      const fittedSegments = applyFittedText(segmentsToUse, clips);
+      if (fittedSegments !== segmentsToUse) setSegments(fittedSegments);
+      setFitMethods(clips.map(c => c.fit));
+      setClipPlacements(track.placements);
+      setCurrentAudioBuffer(track.buffer);
+      return true;
     } catch (e: any) {
       console.error(e);
-      if (controller?.signal.aborted) return;
+      if (controller?.signal.aborted || e.name === 'AbortError') return false;
 
       // กรณี Error ที่ระบุว่า Entity not found มักเกิดจาก API Key มีปัญหา
       if (e.message?.includes("Requested entity was not found")) {
@@ -326,6 +821,7 @@ const App: React.FC = () => {
       } else {
         setErrorMessage(e.message || "ไม่สามารถสร้างเสียงใหม่ได้ กรุณาลองใหม่อีกครั้ง");
       }
+      return false;
     } finally {
       setIsRegenerating(false);
     }
@@ -338,31 +834,170 @@ const App: React.FC = () => {
       await audioContextRef.current.resume();
     }
 
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch (e) { }
-    }
+    mixGraphRef.current?.stop();
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = currentAudioBuffer;
-    source.connect(audioContextRef.current.destination);
+    const graph = createMixGraph(audioContextRef.current, audioContextRef.current.destination, {
+      dub: currentAudioBuffer,
+      original: originalAudioBuffer,
+      placements: clipPlacements
+    }, mixSettings);
 
     const startTime = offset !== undefined ? offset : (videoRef.current?.currentTime || 0);
 
-    source.start(0, startTime);
-    audioSourceRef.current = source;
+    graph.start(startTime);
+    mixGraphRef.current = graph;
     setIsPlaying(true);
 
-    source.onended = () => {
-      if (audioSourceRef.current === source) {
+    graph.onended = () => {
+      if (mixGraphRef.current === graph) {
+        mixGraphRef.current = null;
         setIsPlaying(false);
       }
     };
   };
 
+  const toggleTimeline = async () => {
+    const next = !showTimeline;
+    setShowTimeline(next);
+    if (!next || !videoUrl || originalAudioBuffer) return;
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    setOriginalAudioBuffer(await decodeOriginalAudio(videoUrl, audioContextRef.current));
+  };
+
+  // คลิปเสียงรายประโยคจากแทร็กปัจจุบัน (null = ยังไม่ได้สร้างเสียงพากย์)
+  const currentDubClips = (): DubClip[] | null => {
+    if (!currentAudioBuffer) return null;
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return extractDubClips(audioContextRef.current, currentAudioBuffer, clipPlacements, segments);
+  };
+
+  // ประกอบแทร็กใหม่จากคลิปรายประโยคหลังแก้ไทม์ไลน์ ไม่ต้องเรียก TTS ใหม่
+  const applyTimelineEdit = (nextSegments: TranslationSegment[], clips: DubClip[] | null) => {
+    setSegments(nextSegments);
+    if (!clips || !audioContextRef.current) return;
+    stopTranslation();
+    const track = assembleDubTrack(audioContextRef.current, clips, Math.max(settings.customDuration || videoDuration, videoDuration));
+    setClipPlacements(track.placements);
+    setCurrentAudioBuffer(track.buffer);
+  };
+
+  const startSegmentDrag = (e: React.PointerEvent, segment: TranslationSegment, mode: 'move' | 'start' | 'end') => {
+    e.stopPropagation();
+    setSelectedSegmentId(segment.id);
+    timelineDrag.current = { id: segment.id, mode, x: e.clientX, start: segment.start, end: segment.end, moved: false };
+    (e.target as Element).setPointerCapture(e.pointerId);
+  };
+
+  const moveSegmentDrag = (e: React.PointerEvent) => {
+    const drag = timelineDrag.current;
+    if (!drag || (!drag.moved && Math.abs(e.clientX - drag.x) < 3)) return;
+    drag.moved = true;
+    const delta = (e.clientX - drag.x) / timelineScale;
+    setSegments(prev => drag.mode === 'move'
+      ? moveSegment(prev, drag.id, drag.start + delta, timelineDuration)
+      : trimSegment(prev, drag.id, drag.mode, (drag.mode === 'start' ? drag.start : drag.end) + delta, timelineDuration));
+  };
+
+  // ลากเสร็จแล้วค่อยประกอบเสียงใหม่ครั้งเดียว (เสียงของประโยคย้ายตามเวลาเริ่มใหม่)
+  const endSegmentDrag = () => {
+    const drag = timelineDrag.current;
+    timelineDrag.current = null;
+    if (drag?.moved) applyTimelineEdit(segments, currentDubClips());
+  };
+
+  const splitSelectedSegment = () => {
+    if (!selectedSegment) return;
+    const placement = placementBySegment[selectedSegment.id];
+    // ตัวชี้เวลาอยู่นอกประโยค ให้แยกตรงกลางแทน
+    const time = timelineTime > selectedSegment.start && timelineTime < selectedSegment.end
+      ? timelineTime
+      : (selectedSegment.start + selectedSegment.end) / 2;
+    const timing = placement && timingsMatchText(placement.words, selectedSegment.targetText)
+      ? { offset: placement.offset, words: placement.words }
+      : undefined;
+    const result = splitSegment(segments, selectedSegment.id, time, timing);
+    if (!result) {
+      setErrorMessage("ประโยคสั้นเกินกว่าจะแยกตรงจุดนี้");
+      return;
+    }
+
+    let clips = currentDubClips();
+    const clip = clips?.find(c => c.segmentId === selectedSegment.id);
+    if (clips && clip && audioContextRef.current) {
+      const ratio = result.first.targetText.length / Math.max(1, result.first.targetText.length + result.second.targetText.length);
+      const cut = result.audioCut ?? clip.buffer.duration * ratio;
+      clips = clips.flatMap(c => c === clip
+        ? splitDubClip(audioContextRef.current!, clip, cut, result.first, result.second, settings.targetLanguage)
+        : [c]);
+    }
+    applyTimelineEdit(result.segments, clips);
+  };
+
+  const mergeSelectedSegment = () => {
+    if (!selectedSegment) return;
+    const result = mergeWithNext(segments, selectedSegment.id);
+    if (!result) return;
+
+    let clips = currentDubClips();
+    const first = clips?.find(c => c.segmentId === selectedSegment.id);
+    const second = clips?.find(c => c.segmentId === result.removedId);
+    if (clips && first && second && audioContextRef.current) {
+      const a = placementBySegment[first.segmentId];
+      const b = placementBySegment[second.segmentId];
+      const merged = mergeDubClips(audioContextRef.current, first, second, b.offset - (a.offset + a.duration), result.merged, settings.targetLanguage);
+      clips = clips.filter(c => c !== second).map(c => c === first ? merged : c);
+    } else if (clips && second) {
+      // ประโยคแรกไม่มีเสียง ใช้เสียงของประโยคหลังแทน
+      clips = clips.map(c => c === second ? { ...second, segmentId: result.merged.id } : c);
+    }
+    applyTimelineEdit(result.segments, clips?.map(c => c.segmentId === result.merged.id ? { ...c, start: result.merged.start, end: result.merged.end } : c) ?? null);
+  };
+
+  // พากย์ใหม่เฉพาะประโยคเดียว แล้ววางกลับลงแทร็กเดิม
+  const revoiceSegment = async (id: string) => {
+    const base = currentDubClips();
+    if (!base || !audioContextRef.current) return;
+    stopTranslation();
+    setRevoicingSegmentId(id);
+    setErrorMessage(null);
+    try {
+      const [clip] = await synthesizeSegmentClips(
+        segments,
+        speakers,
+        settings,
+        generationContext,
+        audioContextRef.current,
+        undefined,
+        undefined,
+        settings.customDuration || videoDuration,
+        [id]
+      );
+      const others = base.filter(c => c.segmentId !== id);
+      applyTimelineEdit(clip ? applyFittedText(segments, [clip]) : segments, clip ? [...others, clip] : others);
+    } catch (e: any) {
+      setErrorMessage(e.message || "พากย์ประโยคนี้ใหม่ไม่สำเร็จ");
+    } finally {
+      setRevoicingSegmentId(null);
+    }
+  };
+
+  // กดคำเพื่อกระโดดไปตำแหน่งนั้น ถ้ากำลังเล่นอยู่ให้เล่นต่อจากจุดใหม่ทั้งวิดีโอและเสียงพากย์
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    const wasPlaying = isPlaying;
+    video.currentTime = time;
+    if (wasPlaying) video.addEventListener('seeked', () => { video.play(); }, { once: true });
+  };
+
   const stopTranslation = () => {
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch (e) { }
-      audioSourceRef.current = null;
+    if (mixGraphRef.current) {
+      mixGraphRef.current.stop();
+      mixGraphRef.current = null;
     }
     if (videoRef.current && !videoRef.current.paused) {
       try { videoRef.current.pause(); } catch (e) { }
@@ -370,9 +1005,14 @@ const App: React.FC = () => {
     setIsPlaying(false);
   };
 
-  const downloadVoice = () => {
+  const downloadVoice = async () => {
     if (!currentAudioBuffer) return;
-    const wavBlob = audioBufferToWav(currentAudioBuffer);
+    const mixed = await renderMix({
+      dub: currentAudioBuffer,
+      original: originalAudioBuffer,
+      placements: clipPlacements
+    }, mixSettings);
+    const wavBlob = audioBufferToWav(mixed);
     const url = URL.createObjectURL(wavBlob);
     const link = document.createElement('a');
     link.href = url;
@@ -381,13 +1021,74 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const downloadSubtitles = (format: SubtitleFormat) => {
+    if (segments.length === 0) return;
+    const content = serializeSubtitles(segments, format, { includeOriginal: includeOriginalSubtitles });
+    const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vocalbridge-subtitles-${Date.now()}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const downloadVideo = async () => {
+    if (!videoUrl || !currentAudioBuffer) return;
+    if (!isOfflineRenderSupported()) return recordVideoRealtime();
+
+    const controller = new AbortController();
+    renderAbortController.current = controller;
+    setIsRecording(true);
+    setRenderProgress(0);
+
+    try {
+      const mixed = await renderMix({
+        dub: currentAudioBuffer,
+        original: originalAudioBuffer,
+        placements: clipPlacements
+      }, mixSettings);
+      const source = await (await fetch(videoUrl)).blob();
+      if (captionStyle.enabled) await ensureCaptionFont(captionStyle);
+      const blob = await renderDubbedVideo(source, mixed, {
+        signal: controller.signal,
+        onProgress: setRenderProgress,
+        drawOverlay: captionStyle.enabled ? createCaptionOverlay(captionCues, captionStyle) : undefined
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vocalbridge-video-${Date.now()}.mp4`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsRecording(false);
+    } catch (e: any) {
+      setIsRecording(false);
+      if (e.name === 'AbortError') return;
+      // ไฟล์บางชนิด (เช่น WebM ที่ถอดรหัสไม่ได้) ยังใช้วิธีอัดแบบเวลาจริงได้
+      console.warn('Offline render failed, falling back to real-time recording', e);
+      if (captionStyle.enabled) {
+        setErrorMessage("เบราว์เซอร์นี้ไม่รองรับการเรนเดอร์แบบออฟไลน์ วิดีโอจะถูกอัดแบบเวลาจริงโดยไม่มีซับไตเติลฝัง");
+      }
+      await recordVideoRealtime();
+    } finally {
+      setRenderProgress(null);
+      renderAbortController.current = null;
+    }
+  };
+
+  const cancelRender = () => {
+    renderAbortController.current?.abort();
+  };
+
+  const recordVideoRealtime = async () => {
     if (!videoRef.current || !currentAudioBuffer || !audioContextRef.current) return;
 
     setIsRecording(true);
     // เตรียมวิดีโอให้พร้อม
     videoRef.current.currentTime = 0;
-    videoRef.current.muted = true; // มั่นใจว่าปิดเสียงต้นฉบับ
+    videoRef.current.muted = true; // เสียงต้นฉบับมาจากกราฟมิกซ์แทน
 
     // รอให้วิดีโอ Seek เสร็จสิ้น
     await new Promise(resolve => {
@@ -401,9 +1102,11 @@ const App: React.FC = () => {
     const stream = (videoRef.current as any).captureStream(30);
     const dest = audioContextRef.current.createMediaStreamDestination();
 
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = currentAudioBuffer;
-    source.connect(dest);
+    const graph = createMixGraph(audioContextRef.current, dest, {
+      dub: currentAudioBuffer,
+      original: originalAudioBuffer,
+      placements: clipPlacements
+    }, mixSettings);
 
     const combinedStream = new MediaStream([
       ...stream.getVideoTracks(),
@@ -430,9 +1133,9 @@ const App: React.FC = () => {
     // เริ่มเล่นและเริ่มบันทึกพร้อมกัน
     await videoRef.current.play();
     recorder.start();
-    source.start();
+    graph.start(0);
 
-    source.onended = () => {
+    graph.onended = () => {
       if (recorder.state === 'recording') recorder.stop();
       if (videoRef.current) videoRef.current.pause();
     };
@@ -443,7 +1146,7 @@ const App: React.FC = () => {
       if (navigator.share) {
         await navigator.share({
           title: 'VocalBridge Translation',
-          text: `คำแปลภาษาไทย: ${translatedText}`,
+          text: `คำแปลภาษา${languageProfile.label}: ${translatedText}`,
           url: window.location.href,
         });
       } else {
@@ -455,78 +1158,767 @@ const App: React.FC = () => {
     }
   };
 
-  const handleStartOver = () => {
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+      setStorageEstimate(await getStorageEstimate());
+    } catch (e) {
+      console.warn('Failed to list saved projects', e);
+    }
+  };
+
+  const persistProject = async () => {
+    if (!projectId || !videoFile) return;
+    const record: ProjectRecord = {
+      id: projectId,
+      name: fileName || 'วิดีโอ',
+      createdAt: projectCreatedAt,
+      updatedAt: Date.now(),
+      mimeType: videoMimeType || 'video/mp4',
+      duration: videoDuration,
+      videoSize: videoFile.size,
+      settings,
+      segments,
+      speakers,
+      // ไม่มีเสียงพากย์ (เช่นหลังเปลี่ยน Hook) ต้องไม่เก็บตำแหน่งคลิปของเสียงเก่าไว้
+      placements: currentAudioBuffer ? clipPlacements : [],
+      mixSettings,
+      captionStyle,
+      hookVariants,
+      versions: history.versions,
+      currentVersionId: history.currentId,
+      modelSettings: projectModelSettings,
+      glossary: projectGlossary
+    };
+    const assets: ProjectAssets = {};
+    if (savedAssetsRef.current.video !== projectId) assets.video = videoFile;
+    if (savedAssetsRef.current.dub !== currentAudioBuffer) assets.dub = currentAudioBuffer;
+    if (savedAssetsRef.current.voices !== referenceClips) assets.voices = referenceClips;
+
+    try {
+      if (assets.video) await requestPersistentStorage();
+      await saveProject(record, assets);
+      savedAssetsRef.current = { video: projectId, dub: currentAudioBuffer, voices: referenceClips };
+      setLastSavedAt(record.updatedAt);
+    } catch (e: any) {
+      console.error('Failed to save project', e);
+      setErrorMessage(e.message || 'ไม่สามารถบันทึกโปรเจกต์ได้');
+    }
+  };
+
+  const openProject = async (id: string) => {
+    try {
+      const loaded = await loadProject(id);
+      if (!loaded || !loaded.video) {
+        clearLastProjectId();
+        setErrorMessage('ไม่พบไฟล์วิดีโอของโปรเจกต์นี้ในเครื่อง');
+        return;
+      }
+      const { record } = loaded;
+      stopTranslation();
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      }
+
+      const objUrl = URL.createObjectURL(loaded.video);
+      const dub = loaded.dub ? restoreAudioBuffer(loaded.dub, audioContextRef.current) : null;
+      savedAssetsRef.current = { video: record.id, dub, voices: loaded.voices };
+
+      setProjectId(record.id);
+      setProjectCreatedAt(record.createdAt);
+      setLastSavedAt(record.updatedAt);
+      setVideoFile(loaded.video);
+      setVideoMimeType(record.mimeType);
+      setFileName(record.name);
+      setVideoUrl(objUrl);
+      setVideoDuration(record.duration);
+      setSettings(record.settings);
+      setSegments(record.segments);
+      setSpeakers(record.speakers);
+      setReferenceClips(loaded.voices);
+      setMixSettings(record.mixSettings);
+      setCaptionStyle(record.captionStyle);
+      setHookVariants(record.hookVariants || []);
+      setHookVoices({});
+      setSelectedVariantIds([]);
+      setHistory({ versions: record.versions || [], currentId: record.currentVersionId || null });
+      setCompareVersionId(null);
+      setProjectModelSettings(record.modelSettings ? normalizeModelSettings(record.modelSettings) : null);
+      setProjectGlossary(record.glossary || []);
+      setCurrentAudioBuffer(dub);
+      setClipPlacements(dub ? record.placements : []);
+      setFitMethods([]);
+      setSubtitleFileName(null);
+      setActiveJobId(null);
+      setErrorMessage(null);
+      setWorkMode('single');
+      setStep(record.segments.length > 0 && dub ? ProcessingStep.COMPLETED : ProcessingStep.IDLE);
+      setOriginalAudioBuffer(await decodeOriginalAudio(objUrl, audioContextRef.current));
+    } catch (e: any) {
+      console.error('Failed to open project', e);
+      setErrorMessage(e.message || 'ไม่สามารถเปิดโปรเจกต์ได้');
+    }
+  };
+
+  const removeProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === projectId) {
+        setProjectId(null);
+        savedAssetsRef.current = { video: null, dub: null, voices: null };
+      }
+      refreshProjects();
+    } catch (e: any) {
+      console.error('Failed to delete project', e);
+      setErrorMessage(e.message || 'ไม่สามารถลบโปรเจกต์ได้');
+    }
+  };
+
+  const purgeOldProjects = async () => {
+    try {
+      const removed = await purgeProjects(PURGE_AFTER_DAYS * 24 * 60 * 60 * 1000, projectId);
+      setErrorMessage(removed > 0 ? null : `ไม่มีโปรเจกต์ที่ไม่ได้แก้ไขเกิน ${PURGE_AFTER_DAYS} วัน`);
+    } finally {
+      refreshProjects();
+    }
+  };
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch } : j));
+  };
+
+  const startBatchJob = (job: BatchJob) => {
+    const controller = new AbortController();
+    jobControllers.current.set(job.id, controller);
+    updateJob(job.id, { status: job.video ? 'uploading' : 'fetching', progress: 0, error: null });
+
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+
+    // งานในคิวไม่ได้เป็นของโปรเจกต์ใด จึงใช้เฉพาะคำล็อกและการตั้งค่าโมเดลหลัก
+    const batchContext: GenerationContext = { glossary: mergeGlossaries([], globalGlossary), models: modelSettings };
+    runBatchJob(job, resolveJobSettings(job, queueSettings || settings), batchContext, audioContextRef.current, controller.signal, patch => {
+      if (!controller.signal.aborted) updateJob(job.id, patch);
+    })
+      .catch((e: any) => {
+        if (controller.signal.aborted || e.name === 'AbortError') return;
+        updateJob(job.id, { status: 'error', error: e.message || 'เกิดข้อผิดพลาดในการประมวลผล' });
+      })
+      .finally(() => jobControllers.current.delete(job.id));
+  };
+
+  const addBatchFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files as ArrayLike<File>) : [];
+    event.target.value = '';
+    const tooLarge = files.filter(f => f.size > FILES_API_MAX_BYTES);
+    const added = files
+      .filter(f => f.size <= FILES_API_MAX_BYTES)
+      .map(f => createBatchJob({ video: f, mimeType: f.type, name: f.name }, settings));
+    setJobs(prev => [...prev, ...added]);
+    setErrorMessage(tooLarge.length > 0 ? `ข้ามไฟล์ที่ใหญ่เกิน 2GB: ${tooLarge.map(f => f.name).join(', ')}` : null);
+  };
+
+  const addBatchUrls = () => {
+    const urls = batchUrlInput.split(/\s+/).map(u => u.trim()).filter(u => /^https?:\/\//i.test(u));
+    if (urls.length === 0) {
+      setErrorMessage("กรุณาใส่ลิงก์วิดีโออย่างน้อยหนึ่งลิงก์ (บรรทัดละหนึ่งลิงก์)");
+      return;
+    }
+    setJobs(prev => [...prev, ...urls.map(url => createBatchJob({ url }, settings))]);
+    setBatchUrlInput("");
+    setErrorMessage(null);
+  };
+
+  const cancelJob = (id: string) => {
+    jobControllers.current.get(id)?.abort();
+    jobControllers.current.delete(id);
+    updateJob(id, { status: 'cancelled', progress: 0 });
+  };
+
+  const retryJob = (id: string) => {
+    updateJob(id, { status: 'queued', progress: 0, error: null });
+  };
+
+  const removeJob = (id: string) => {
+    jobControllers.current.get(id)?.abort();
+    jobControllers.current.delete(id);
+    setJobs(prev => prev.filter(j => j.id !== id));
+  };
+
+  const toggleJobSharedSettings = (id: string) => {
+    setJobs(prev => prev.map(j => j.id === id
+      ? { ...j, useSharedSettings: !j.useSharedSettings, settings: j.useSharedSettings ? { ...settings } : j.settings }
+      : j));
+  };
+
+  const updateJobSettings = <K extends keyof VoiceSettings>(id: string, key: K, value: VoiceSettings[K]) => {
+    setJobs(prev => prev.map(j => {
+      if (j.id !== id) return j;
+      const next = { ...j.settings, [key]: value };
+      if (key === 'targetLanguage') next.dialect = 'standard';
+      return { ...j, settings: next };
+    }));
+  };
+
+  // เปิดงานที่เสร็จแล้วในหน้าแก้ไขปกติ การตั้งค่าร่วมของคิวถูกเก็บไว้ และคืนกลับเมื่อกลับไปที่คิว
+  const openJobInEditor = (job: BatchJob) => {
+    if (!job.video) return;
+    stopTranslation();
     if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setQueueSettings(settings);
+    setSettings(resolveJobSettings(job, settings));
+    setVideoFile(job.video);
+    setVideoMimeType(job.mimeType);
+    setFileName(job.name);
+    setVideoUrl(URL.createObjectURL(job.video));
+    setVideoDuration(job.duration);
+    setSegments(job.segments);
+    setSpeakers(job.speakers);
+    setCurrentAudioBuffer(job.dub);
+    setClipPlacements(job.placements);
+    setOriginalAudioBuffer(job.original);
+    setSubtitleFileName(null);
+    setErrorMessage(null);
+    setActiveJobId(job.id);
+    // งานในคิวเก็บอยู่ในคิวเอง ไม่สร้างเป็นโปรเจกต์แยก จึงใช้โมเดลและอภิธานศัพท์ส่วนกลางเหมือนตอนรันในคิว
+    setProjectId(null);
+    setProjectModelSettings(null);
+    setProjectGlossary([]);
+    setGlossaryScope('global');
+    setReferenceClips({});
+    setHookVariants([]);
+    setHistory(EMPTY_HISTORY);
+    setCompareVersionId(null);
+    setStep(ProcessingStep.COMPLETED);
+  };
+
+  const returnToQueue = () => {
+    if (!activeJobId) return;
+    stopTranslation();
+    const shared = queueSettings || settings;
+    const job = jobs.find(j => j.id === activeJobId);
+    if (job) {
+      const settingsChanged = JSON.stringify(settings) !== JSON.stringify(resolveJobSettings(job, shared));
+      updateJob(activeJobId, {
+        segments,
+        speakers,
+        dub: currentAudioBuffer || job.dub,
+        placements: currentAudioBuffer ? clipPlacements : job.placements,
+        original: originalAudioBuffer,
+        ...(settingsChanged ? { settings, useSharedSettings: false } : {})
+      });
+    }
+    setSettings(shared);
+    setQueueSettings(null);
+    setActiveJobId(null);
+    handleStartOver();
+  };
+
+  const exportBatch = async () => {
+    const controller = new AbortController();
+    batchExportController.current = controller;
+    setErrorMessage(null);
+    setBatchExportProgress({ done: 0, total: 1 });
+    try {
+      const zip = await exportBatchZip(jobs, {
+        mix: mixSettings,
+        includeVideo: includeVideoInZip,
+        captionStyle,
+        signal: controller.signal,
+        onProgress: (done, total) => setBatchExportProgress({ done, total })
+      });
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vocalbridge-batch-${Date.now()}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      if (e.name !== 'AbortError') setErrorMessage(e.message || "ไม่สามารถส่งออกไฟล์ ZIP ได้");
+    } finally {
+      setBatchExportProgress(null);
+      batchExportController.current = null;
+    }
+  };
+
+  // ล้างงานของวิดีโอเดิม (คำแปล เสียงพากย์ ประวัติ และค่าเฉพาะโปรเจกต์) ใช้ทั้งตอนเริ่มใหม่และตอนโหลดวิดีโอใหม่ทับ
+  const resetProjectState = () => {
     setStep(ProcessingStep.IDLE);
-    setFileName(null);
-    setVideoBase64(null);
-    setVideoUrl(null);
     setCurrentAudioBuffer(null);
-    setTranslatedText("");
+    setClipPlacements([]);
+    setOriginalAudioBuffer(null);
+    setFitMethods([]);
+    setSegments([]);
+    setSpeakers([]);
+    setHistory(EMPTY_HISTORY);
+    setCompareVersionId(null);
+    setSubtitleFileName(null);
     setErrorMessage(null);
     setProgress(0);
+    setActiveJobId(null);
+    setProjectId(null);
+    setProjectModelSettings(null);
+    setProjectGlossary([]);
+    setGlossaryScope('global');
+    setReferenceClips({});
+    setHookVariants([]);
+    stopVariantPreview();
+    setHookVoices({});
+    setSelectedVariantIds([]);
+    setLastSavedAt(null);
+    savedAssetsRef.current = { video: null, dub: null, voices: null };
+  };
+
+  const handleStartOver = () => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    resetProjectState();
+    setFileName(null);
+    setVideoFile(null);
+    setVideoUrl(null);
+    clearLastProjectId();
+  };
+
+  const updateSegment = (id: string, patch: Partial<TranslationSegment>) => {
+    setSegments(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const next = { ...s, ...patch };
+      // แก้ข้อความแล้ว คำอ่านที่แก้เองไว้ไม่ตรงกับข้อความใหม่ ให้กลับไปใช้คำอ่านอัตโนมัติ
+      if (patch.targetText !== undefined && patch.targetText !== s.targetText && !('spokenText' in patch)) delete next.spokenText;
+      return next;
+    }));
+  };
+
+  const updateSpeaker = (id: string, patch: Partial<SpeakerProfile>) => {
+    setSpeakers(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const next = { ...s, ...patch };
+      // เปลี่ยนเพศแล้วเสียงเดิมไม่ตรงเพศ ให้เลือกเสียงแรกของเพศใหม่แทน
+      if (patch.gender && !patch.voiceName && PREBUILT_VOICES.find(v => v.name === next.voiceName)?.gender !== patch.gender) {
+        next.voiceName = getVoicesByGender(patch.gender)[0].name;
+      }
+      return next;
+    }));
+  };
+
+  // วัดเสียงอ้างอิงแล้วตั้งเพศและเสียงสำเร็จรูปที่ใกล้ที่สุดให้ผู้พูด (ใช้เป็นเสียงสำรองเมื่อโคลนเสียงไม่ได้)
+  const applyVoiceReference = async (speakerId: string, buffer: AudioBuffer, source: VoiceReference['source'], ranges?: { start: number; end: number }[]) => {
+    const clip = createReferenceClip(buffer, audioContextRef.current!, ranges);
+    const reference = analyzeVoice(clip, source);
+    if (!reference) throw new Error("คลิปอ้างอิงมีเสียงพูดชัดๆ น้อยเกินไป ลองใช้คลิปที่ยาวขึ้นหรือมีเสียงดนตรีน้อยกว่านี้");
+    // เข้ารหัส WAV เก็บไว้เฉพาะเมื่อผู้ให้บริการโคลนเสียงได้ ผู้ให้บริการอื่นใช้แค่ค่าที่วัดได้
+    const data = getActiveProvider().supportsVoiceCloning ? await readAsBase64(audioBufferToWav(clip)) : null;
+    setReferenceClips(prev => {
+      const { [speakerId]: _previous, ...rest } = prev;
+      return data ? { ...rest, [speakerId]: data } : rest;
+    });
+    setSpeakers(prev => {
+      const taken = new Set<string>(prev.filter(s => s.id !== speakerId).map(s => s.voiceName));
+      const voice = pickClosestVoice(reference, taken);
+      return prev.map(s => s.id === speakerId ? { ...s, reference, gender: reference.gender, voiceName: voice.name } : s);
+    });
   };
 
-  const audioBufferToWav = (buffer: AudioBuffer) => {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const arrayBuffer = new ArrayBuffer(length);
-    const view = new DataView(arrayBuffer);
-    const channels = [];
-    let offset = 0;
-    let pos = 0;
-
-    const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2; };
-    const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4; };
-
-    setUint32(0x46464952); setUint32(length - 8); setUint32(0x45564157);
-    setUint32(0x20746d66); setUint32(16); setUint16(1); setUint16(numOfChan);
-    setUint32(buffer.sampleRate); setUint32(buffer.sampleRate * 2 * numOfChan);
-    setUint16(numOfChan * 2); setUint16(16); setUint32(0x61746164);
-    setUint32(length - pos - 4);
-
-    for (let i = 0; i < numOfChan; i++) channels.push(buffer.getChannelData(i));
-    while (pos < length) {
-      for (let i = 0; i < numOfChan; i++) {
-        let sample = Math.max(-1, Math.min(1, channels[i][offset]));
-        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-        view.setInt16(pos, sample, true);
-        pos += 2;
+  const uploadVoiceReference = async (speakerId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    setMatchingSpeakerIds([speakerId]);
+    setErrorMessage(null);
+    try {
+      const buffer = await audioContextRef.current.decodeAudioData(await file.arrayBuffer()).catch(() => {
+        throw new Error("อ่านไฟล์เสียงอ้างอิงไม่ได้ (ใช้ไฟล์เสียงหรือวิดีโอที่เบราว์เซอร์เปิดได้)");
+      });
+      await applyVoiceReference(speakerId, buffer, 'upload');
+    } catch (err: any) {
+      setErrorMessage(err.message || "ใช้เสียงอ้างอิงนี้ไม่ได้");
+    } finally {
+      setMatchingSpeakerIds([]);
+    }
+  };
+
+  // ตัดเสียงอ้างอิงจากช่วงที่ผู้พูดแต่ละคนพูดคนเดียวในวิดีโอ
+  const extractVoiceReferences = async (speakerIds: string[]) => {
+    if (!videoUrl) return;
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    setMatchingSpeakerIds(speakerIds);
+    setErrorMessage(null);
+    const failed: string[] = [];
+    try {
+      const original = originalAudioBuffer || await decodeOriginalAudio(videoUrl, audioContextRef.current);
+      if (!original) throw new Error("ไม่พบเสียงต้นฉบับในวิดีโอนี้");
+      if (!originalAudioBuffer) setOriginalAudioBuffer(original);
+      for (const id of speakerIds) {
+        const ranges = findReferenceRanges(segments, id);
+        try {
+          if (ranges.length === 0) throw new Error();
+          await applyVoiceReference(id, original, 'extract', ranges);
+        } catch {
+          failed.push(speakers.find(s => s.id === id)?.name || id);
+        }
       }
-      offset++;
+      if (failed.length > 0) {
+        setErrorMessage(`ดึงเสียงอ้างอิงของ ${failed.join(', ')} ไม่ได้ (ช่วงที่พูดคนเดียวสั้นหรือมีเสียงอื่นปนมากเกินไป) ลองอัปโหลดคลิปเสียงแทน`);
+      }
+    } catch (err: any) {
+      setErrorMessage(err.message || "ดึงเสียงอ้างอิงจากวิดีโอไม่สำเร็จ");
+    } finally {
+      setMatchingSpeakerIds([]);
     }
-    return new Blob([arrayBuffer], { type: "audio/wav" });
+  };
+
+  const clearVoiceReference = (speakerId: string) => {
+    setReferenceClips(prev => {
+      const { [speakerId]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSpeakers(prev => prev.map(s => {
+      if (s.id !== speakerId) return s;
+      const { reference, ...rest } = s;
+      return rest;
+    }));
+  };
+
+  const removeSegment = (id: string) => {
+    setSegments(prev => prev.filter(s => s.id !== id));
   };
 
   const updateSettings = (key: keyof VoiceSettings, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
-  const moodLabels: Record<Mood, string> = {
-    natural: 'ปกติ', cheerful: 'ร่าเริง', excited: 'ตื่นเต้น', soft: 'นุ่มนวล', serious: 'จริงจัง', isan: 'อิสาน'
-  };
+  const updateCaption = (key: keyof CaptionStyle, value: any) => {
+    setCaptionStyle(prev => ({ ...prev, [key]: value }));
+  };
+
+  const drawCaptionPreview = () => {
+    const canvas = captionPreviewRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video || !video.videoWidth) return;
+
+    const height = 480;
+    const width = Math.round(height * video.videoWidth / video.videoHeight);
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0, width, height);
+
+    // เส้นประแสดงพื้นที่ปลอดภัยของแพลตฟอร์มที่เลือก
+    const insets = SAFE_AREA_PRESETS[captionStyle.safeArea].insets;
+    ctx.setLineDash([6, 6]);
+    ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(width * insets.left, height * insets.top, width * (1 - insets.left - insets.right), height * (1 - insets.top - insets.bottom));
+    ctx.setLineDash([]);
+
+    const cue = findActiveCue(captionCues, video.currentTime) || captionCues[0];
+    if (cue) drawCaption(ctx, cue.text, width, height, captionStyle, cue.words && spokenCharacters(cue.words, video.currentTime));
+  };
+
+  const updateMix = (key: keyof MixSettings, value: any) => {
+    setMixSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateTargetLanguage = (targetLanguage: TargetLanguage) => {
+    setSettings(prev => ({ ...prev, targetLanguage, dialect: 'standard' }));
+  };
+
+  const mixSliders: { key: keyof MixSettings; label: string; min: number; max: number; step: number; unit: string }[] = [
+    { key: 'masterGain', label: 'Master', min: 0, max: 1.5, step: 0.05, unit: 'x' },
+    { key: 'dubGain', label: 'เสียงพากย์', min: 0, max: 2, step: 0.05, unit: 'x' },
+    { key: 'backgroundGain', label: 'เสียงพื้นหลัง', min: 0, max: 1.5, step: 0.05, unit: 'x' },
+    { key: 'duckLevel', label: 'ลดพื้นหลังเหลือ', min: 0, max: 1, step: 0.05, unit: 'x' },
+    { key: 'duckAttack', label: 'Attack', min: 0.01, max: 1, step: 0.01, unit: 's' },
+    { key: 'duckRelease', label: 'Release', min: 0.05, max: 2, step: 0.05, unit: 's' }
+  ];
+
+  const versionSourceLabels: Record<VersionSource, string> = {
+    translation: 'แปลโดย AI', 'subtitle-import': 'นำเข้าซับไตเติล', manual: 'แก้ไขเอง', hook: 'AI Hook', 'dialect-hook': 'Hook สำเนียงท้องถิ่น'
+  };
+
+  const currentVersion = findVersion(history.versions, history.currentId);
+  const canUndo = !!currentVersion && (!isSameContent(currentVersion, segments, speakers) || !!getUndoTarget(history.versions, history.currentId));
+  const canRedo = !!getRedoTarget(history.versions, history.currentId);
+  const compareVersion = findVersion(history.versions, compareVersionId);
+  const diffRows = showHistory && compareVersion
+    ? diffVersions(compareVersion, createVersion('manual', segments, speakers, settings, null))
+    : [];
+
+  const diffTokenClass = (token: DiffToken) =>
+    token.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : token.type === 'added' ? 'bg-green-100 text-green-700' : '';
+
+  const batchStatusLabels: Record<BatchJobStatus, string> = {
+    queued: 'รอคิว', fetching: 'กำลังดึงวิดีโอ', uploading: 'กำลังอัปโหลด', translating: 'กำลังแปล',
+    voicing: 'กำลังพากย์เสียง', done: 'เสร็จแล้ว', error: 'ผิดพลาด', cancelled: 'ยกเลิกแล้ว'
+  };
+
+  const effectPresetLabels: Record<VoiceEffectPreset, string> = {
+    none: 'ไม่ใช้', broadcast: 'Broadcast', podcast: 'Podcast', warm: 'นุ่ม อบอุ่น', bright: 'ใส ชัด'
+  };
+
+  const moodLabels: Record<Mood, string> = {
+    natural: 'ปกติ', cheerful: 'ร่าเริง', excited: 'ตื่นเต้น', soft: 'นุ่มนวล', serious: 'จริงจัง'
+  };
+
+  const glossaryEditor = (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">คำศัพท์ล็อก (Glossary) {activeGlossary.length > 0 && `• ใช้อยู่ ${activeGlossary.length} คำ`}</h5>
+        <div className="flex bg-white p-1 rounded-lg border border-slate-200">
+          <button onClick={() => setGlossaryScope('global')} className={`px-2 py-0.5 text-[10px] rounded ${glossaryScope === 'global' ? 'bg-slate-700 text-white' : 'text-slate-500'}`}>ทุกโปรเจกต์</button>
+          <button onClick={() => setGlossaryScope('project')} disabled={!projectId} className={`px-2 py-0.5 text-[10px] rounded disabled:opacity-40 ${glossaryScope === 'project' ? 'bg-slate-700 text-white' : 'text-slate-500'}`}>เฉพาะโปรเจกต์นี้</button>
+        </div>
+      </div>
+      {editedGlossary.length === 0 && (
+        <p className="text-[10px] text-slate-400">ชื่อแบรนด์ ชื่อสินค้า หรือคำติดปาก ที่ต้องแปลเหมือนเดิมทุกครั้ง จะถูกส่งไปกับการแปลและการเขียน Hook ทุกครั้ง</p>
+      )}
+      {editedGlossary.map(entry => (
+        <div key={entry.id} className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={entry.source}
+            onChange={(e) => updateGlossaryEntry(entry.id, { source: e.target.value })}
+            placeholder="คำต้นฉบับ เช่น Shopee"
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:border-blue-400"
+          />
+          <span className="text-slate-300 text-xs">→</span>
+          <input
+            type="text"
+            value={entry.keepAsIs ? entry.source : entry.target}
+            onChange={(e) => updateGlossaryEntry(entry.id, { target: e.target.value })}
+            disabled={entry.keepAsIs}
+            placeholder="คำที่ต้องใช้"
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:border-blue-400 disabled:bg-slate-100 disabled:text-slate-400"
+          />
+          <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 whitespace-nowrap" title="ใช้คำต้นฉบับตามเดิม ไม่แปลและไม่ถอดเสียง">
+            <input type="checkbox" checked={entry.keepAsIs} onChange={(e) => updateGlossaryEntry(entry.id, { keepAsIs: e.target.checked })} className="accent-blue-600" />
+            คงเดิม
+          </label>
+          <button onClick={() => updateGlossary(editedGlossary.filter(e => e.id !== entry.id))} className="text-slate-300 hover:text-red-500 transition-colors" title="ลบคำนี้">
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      ))}
+      <button onClick={() => updateGlossary([...editedGlossary, createGlossaryEntry()])} className="px-3 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-blue-300 hover:text-blue-600 transition-all">+ เพิ่มคำ</button>
+    </div>
+  );
+
+  const pronunciationEditor = (
+    <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+      <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">คำอ่านสำหรับเสียงพากย์ {lexicon.length > 0 && `• ${lexicon.length} คำ`}</h5>
+      {lexicon.length === 0 && (
+        <p className="text-[10px] text-slate-400">คำที่ TTS อ่านผิด เช่น "iPhone 16" → "ไอโฟนสิบหก" จะถูกแทนก่อนสร้างเสียงทุกครั้ง (ตัวเลข วันที่ เวลา และสกุลเงินภาษาไทยแปลงเป็นคำอ่านให้อัตโนมัติ)</p>
+      )}
+      {lexicon.map(entry => (
+        <div key={entry.id} className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={entry.written}
+            onChange={(e) => updateLexiconEntry(entry.id, { written: e.target.value })}
+            placeholder="คำที่เขียน เช่น 5G"
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:border-blue-400"
+          />
+          <span className="text-slate-300 text-xs">→</span>
+          <input
+            type="text"
+            value={entry.spoken}
+            onChange={(e) => updateLexiconEntry(entry.id, { spoken: e.target.value })}
+            placeholder="คำอ่าน เช่น ไฟว์จี"
+            className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:border-blue-400"
+          />
+          <button onClick={() => updateLexicon(lexicon.filter(e => e.id !== entry.id))} className="text-slate-300 hover:text-red-500 transition-colors" title="ลบคำนี้">
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      ))}
+      <button onClick={() => updateLexicon([...lexicon, createPronunciationEntry()])} className="px-3 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-blue-300 hover:text-blue-600 transition-all">+ เพิ่มคำอ่าน</button>
+    </div>
+  );
 
   return (
     <div className="min-h-screen flex flex-col items-center py-12 px-4 bg-slate-50 relative">
       {/* API Key Selector Button (Top Right) */}
       <div className="absolute top-4 right-4 z-[60] flex flex-col items-end gap-2">
+        {/* ผ่านเซิร์ฟเวอร์กลาง key อยู่ฝั่งเซิร์ฟเวอร์ ไม่ต้องเลือก key ในเบราว์เซอร์ */}
+        {providerConfig.provider !== 'proxy' && (
+          <>
+            <button
+              onClick={handleSelectApiKey}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs transition-all shadow-md ${hasApiKey ? 'bg-white text-green-600 border border-green-100 hover:bg-green-50' : 'bg-orange-500 text-white hover:bg-orange-600'}`}
+            >
+              <div className={`w-2 h-2 rounded-full animate-pulse ${hasApiKey ? 'bg-green-500' : 'bg-white'}`}></div>
+              {hasApiKey ? 'API KEY: ACTIVE' : 'SET API KEY'}
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+            </button>
+            {!hasApiKey && (
+              <a
+                href="https://ai.google.dev/gemini-api/docs/billing"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[10px] text-slate-400 underline hover:text-blue-500 transition-colors"
+              >
+                Learn about API Billing
+              </a>
+            )}
+          </>
+        )}
         <button
-          onClick={handleSelectApiKey}
-          className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold text-xs transition-all shadow-md ${hasApiKey ? 'bg-white text-green-600 border border-green-100 hover:bg-green-50' : 'bg-orange-500 text-white hover:bg-orange-600'}`}
+          onClick={() => setShowProviderSettings(v => !v)}
+          className="px-3 py-1.5 rounded-full bg-white border border-slate-200 text-[10px] font-bold text-slate-500 hover:text-blue-600 hover:border-blue-200 transition-all shadow-sm"
         >
-          <div className={`w-2 h-2 rounded-full animate-pulse ${hasApiKey ? 'bg-green-500' : 'bg-white'}`}></div>
-          {hasApiKey ? 'API KEY: ACTIVE' : 'SET API KEY'}
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+          AI: {PROVIDER_LABELS[providerConfig.provider]}
+          {Object.keys(modelErrors).length > 0 && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-red-500 align-middle"></span>}
         </button>
-        {!hasApiKey && (
-          <a
-            href="https://ai.google.dev/gemini-api/docs/billing"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-[10px] text-slate-400 underline hover:text-blue-500 transition-colors"
-          >
-            Learn about API Billing
-          </a>
+        {showProviderSettings && (
+          <div className="w-80 max-h-[80vh] overflow-y-auto bg-white rounded-2xl border border-slate-100 shadow-xl p-4 space-y-3 text-left">
+            <div>
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">ผู้ให้บริการ AI</label>
+              <select
+                value={providerConfig.provider}
+                onChange={(e) => updateProviderConfig({ provider: e.target.value as AIProviderId })}
+                className="mt-1 w-full px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 bg-white"
+              >
+                {(Object.keys(PROVIDER_LABELS) as AIProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+              </select>
+            </div>
+            {providerConfig.provider === 'proxy' && (
+              <div className="space-y-2">
+                <div>
+                  <label className="text-[10px] font-bold text-slate-400">URL ของเซิร์ฟเวอร์</label>
+                  <input
+                    type="text"
+                    value={providerConfig.proxy.url}
+                    onChange={(e) => updateProxyConfig('url', e.target.value)}
+                    className="w-full px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-bold text-slate-400">โทเค็นผู้ใช้ (ถ้ามี)</label>
+                  <input
+                    type="password"
+                    value={providerConfig.proxy.token}
+                    onChange={(e) => updateProxyConfig('token', e.target.value)}
+                    className="w-full px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700"
+                  />
+                </div>
+                <p className="text-[10px] text-slate-400">API key อยู่ที่เซิร์ฟเวอร์ (npm run server) เบราว์เซอร์ไม่ต้องมี key และถูกจำกัดจำนวนครั้งต่อผู้ใช้</p>
+              </div>
+            )}
+            {providerConfig.provider === 'openai' && (
+              <div className="space-y-2">
+                {([
+                  ['baseUrl', 'Base URL'],
+                  ['apiKey', 'API Key'],
+                  ['model', 'โมเดลแปล/เขียน'],
+                  ['ttsModel', 'โมเดลเสียง (TTS)'],
+                  ['maleVoice', 'เสียงผู้ชาย'],
+                  ['femaleVoice', 'เสียงผู้หญิง'],
+                  ['referenceAudioField', 'ฟิลด์เสียงอ้างอิง (ถ้าเซิร์ฟเวอร์โคลนเสียงได้)']
+                ] as [keyof OpenAICompatibleConfig, string][]).map(([key, label]) => (
+                  <div key={key}>
+                    <label className="text-[10px] font-bold text-slate-400">{label}</label>
+                    <input
+                      type={key === 'apiKey' ? 'password' : 'text'}
+                      value={providerConfig.openai[key]}
+                      onChange={(e) => updateOpenAIConfig(key, e.target.value)}
+                      className="w-full px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700"
+                    />
+                  </div>
+                ))}
+                <p className="text-[10px] text-slate-400">การแปลต้องใช้โมเดลที่รับวิดีโอได้ และรองรับเฉพาะไฟล์ขนาดเล็ก</p>
+              </div>
+            )}
+            {providerConfig.provider === 'mock' && (
+              <p className="text-[10px] text-slate-400">ใช้ข้อความและเสียงสังเคราะห์ตายตัว ไม่เรียก API จริง สำหรับทดสอบและเดโมแบบออฟไลน์</p>
+            )}
+
+            <div className="pt-3 border-t border-slate-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">โมเดลและพารามิเตอร์</label>
+                <label className={`flex items-center gap-1 text-[10px] font-bold ${projectId ? 'text-slate-500' : 'text-slate-300'}`}>
+                  <input
+                    type="checkbox"
+                    checked={!!projectModelSettings}
+                    disabled={!projectId}
+                    onChange={(e) => toggleProjectModelSettings(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  เฉพาะโปรเจกต์นี้
+                </label>
+              </div>
+              {providerConfig.provider !== 'gemini' && providerConfig.provider !== 'proxy' && (
+                <p className="text-[10px] text-slate-400">ชื่อโมเดลและ thinking budget ใช้กับ Gemini เท่านั้น ผู้ให้บริการอื่นใช้เฉพาะ temperature</p>
+              )}
+              {MODEL_TASKS.map(task => {
+                const config = editedModelSettings[task];
+                const thinking = getModelInfo(config.model)?.thinking;
+                return (
+                  <div key={task} className="p-2.5 rounded-xl bg-slate-50 border border-slate-100 space-y-1.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-[10px] font-bold text-slate-600">{modelTaskLabels[task]}</span>
+                      <select
+                        value={config.model}
+                        onChange={(e) => updateTaskModel(task, { model: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-[10px] text-slate-700 bg-white"
+                      >
+                        {!getModelInfo(config.model) && <option value={config.model}>{config.model}</option>}
+                        {GEMINI_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-slate-400 w-20">Temperature</span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.05"
+                        value={config.temperature}
+                        onChange={(e) => updateTaskModel(task, { temperature: parseFloat(e.target.value) })}
+                        className="flex-1 h-1 accent-blue-600"
+                      />
+                      <span className="text-[10px] font-mono text-slate-500 w-8 text-right">{config.temperature.toFixed(2)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-slate-400 w-20">Thinking</span>
+                      <input
+                        type="number"
+                        placeholder={thinking ? `ค่าเริ่มต้น (${thinking.canDisable ? 0 : thinking.min}-${thinking.max})` : 'ไม่รองรับ'}
+                        disabled={!thinking}
+                        value={config.thinkingBudget ?? ''}
+                        onChange={(e) => updateTaskModel(task, { thinkingBudget: e.target.value === '' ? null : parseInt(e.target.value) })}
+                        className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-[10px] text-slate-700 disabled:bg-slate-100"
+                      />
+                    </div>
+                    {modelErrors[task] && <p className="text-[10px] font-bold text-red-500">{modelErrors[task]}</p>}
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-2 gap-2">
+                {(['male', 'female'] as Gender[]).map(gender => (
+                  <div key={gender}>
+                    <label className="text-[10px] font-bold text-slate-400">{gender === 'male' ? 'เสียงผู้ชายเริ่มต้น' : 'เสียงผู้หญิงเริ่มต้น'}</label>
+                    <select
+                      value={editedModelSettings.voices[gender] || ''}
+                      onChange={(e) => updateModelSettings({ ...editedModelSettings, voices: { ...editedModelSettings.voices, [gender]: e.target.value || null } })}
+                      className="w-full px-2 py-1 rounded-lg border border-slate-200 text-[10px] text-slate-700 bg-white"
+                    >
+                      <option value="">ตามภาษา</option>
+                      {getVoicesByGender(gender).map(v => <option key={v.name} value={v.name}>{v.name} ({v.style})</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {modelErrors.voices && <p className="text-[10px] font-bold text-red-500">{modelErrors.voices}</p>}
+            </div>
+          </div>
         )}
       </div>
 
@@ -534,7 +1926,7 @@ const App: React.FC = () => {
         <h1 className="text-4xl font-bold text-slate-900 mb-2 bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent uppercase tracking-tight">
           VocalBridge
         </h1>
-        <p className="text-slate-600 font-medium">แปลวิดีโอเป็นเสียงพากย์ไทยด้วยพลัง Gemini AI</p>
+        <p className="text-slate-600 font-medium">แปลวิดีโอเป็นเสียงพากย์ไทยและภาษาอื่นๆ ด้วยพลัง Gemini AI</p>
       </header>
 
       <main className="max-w-5xl w-full bg-white rounded-3xl shadow-2xl border border-slate-100 overflow-hidden relative">
@@ -542,7 +1934,18 @@ const App: React.FC = () => {
           <div className="absolute inset-0 z-50 bg-black/80 flex flex-col items-center justify-center text-white p-6 text-center">
             <div className="w-16 h-16 border-4 border-red-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <h3 className="text-2xl font-bold mb-2">กำลังบันทึกและประมวลผลวิดีโอ...</h3>
+            {renderProgress !== null && (
+              <div className="w-full max-w-xs mb-3">
+                <div className="bg-white/20 h-2 rounded-full overflow-hidden mb-2">
+                  <div className="h-full bg-red-500 transition-all duration-200" style={{ width: `${renderProgress * 100}%` }}></div>
+                </div>
+                <p className="text-3xl font-black tracking-tighter">{Math.floor(renderProgress * 100)}%</p>
+              </div>
+            )}
             <p className="opacity-70 italic text-sm">กรุณาอย่าปิดหน้าต่างนี้จนกว่าจะเสร็จสิ้น</p>
+            {renderProgress !== null && (
+              <button onClick={cancelRender} className="mt-6 px-6 py-2 rounded-full border border-white/30 text-sm font-bold hover:bg-white/10 transition-all">ยกเลิก</button>
+            )}
           </div>
         )}
 
@@ -554,6 +1957,34 @@ const App: React.FC = () => {
                 ตั้งค่าพากย์เสียง (VOICE SETTINGS)
               </h4>
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div>
+                  <label className="text-sm font-semibold text-slate-500 block mb-2">ภาษาต้นฉบับ</label>
+                  <select
+                    value={settings.sourceLanguage}
+                    onChange={(e) => updateSettings('sourceLanguage', e.target.value as SourceLanguage)}
+                    className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+                  >
+                    {SOURCE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-semibold text-slate-500 block mb-2">ภาษาพากย์</label>
+                  <select
+                    value={settings.targetLanguage}
+                    onChange={(e) => updateTargetLanguage(e.target.value as TargetLanguage)}
+                    className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+                  >
+                    {Object.values(LANGUAGE_PROFILES).map(p => <option key={p.code} value={p.code}>{p.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-semibold text-slate-500 block mb-2">สำเนียง</label>
+                  <div className="flex bg-white p-1 rounded-xl border border-slate-200">
+                    {languageProfile.dialects.map(d => (
+                      <button key={d.id} onClick={() => updateSettings('dialect', d.id)} className={`flex-1 py-2 rounded-lg text-xs font-medium whitespace-nowrap transition-all ${settings.dialect === d.id ? 'bg-green-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-100'}`}>{d.label}</button>
+                    ))}
+                  </div>
+                </div>
                 <div>
                   <label className="text-sm font-semibold text-slate-500 block mb-2">โหมดการทำงาน</label>
                   <div className="flex bg-white p-1 rounded-xl border border-slate-200">
@@ -588,93 +2019,319 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div className={`flex flex-col border-2 border-dashed rounded-2xl p-8 transition-all ${videoBase64 ? 'border-green-400 bg-green-50/20' : 'border-slate-200 hover:border-blue-400 hover:bg-blue-50/30'}`}>
-              <div className="w-full max-w-2xl mx-auto space-y-6">
-                {/* URL Import Section */}
-                <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 mb-2">
-                  <label className="text-sm font-bold text-slate-700 block mb-3 uppercase tracking-wider flex items-center">
-                    <svg className="w-4 h-4 mr-2 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
-                    นำเข้าวิดีโอจาก URL
-                  </label>
-                  <div className="flex flex-col sm:flex-row gap-3">
-                    <div className="relative flex-1">
-                      <input
-                        type="text"
-                        value={videoUrlInput}
-                        onChange={(e) => setVideoUrlInput(e.target.value)}
-                        placeholder="วางลิงก์ YouTube, TikTok หรือ Facebook ที่นี่..."
-                        className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400 transition-all pr-24"
-                      />
-                      <div className="absolute right-3 top-1/2 -translate-y-1/2 flex gap-1 pointer-events-none opacity-40">
-                        <span className="text-xs">📺</span>
-                        <span className="text-xs">🎵</span>
-                        <span className="text-xs">👥</span>
+            <div className="mb-8 space-y-3">
+              {glossaryEditor}
+              {pronunciationEditor}
+            </div>
+
+            <div className="flex justify-center mb-6">
+              <div className="flex bg-slate-100 p-1 rounded-xl border border-slate-200">
+                <button onClick={() => setWorkMode('single')} className={`px-6 py-2 rounded-lg text-sm font-bold transition-all ${workMode === 'single' ? 'bg-white text-blue-600 shadow' : 'text-slate-500 hover:text-slate-700'}`}>วิดีโอเดียว</button>
+                <button onClick={() => setWorkMode('batch')} className={`px-6 py-2 rounded-lg text-sm font-bold transition-all ${workMode === 'batch' ? 'bg-white text-blue-600 shadow' : 'text-slate-500 hover:text-slate-700'}`}>หลายวิดีโอ (คิว){jobs.length > 0 ? ` • ${jobs.length}` : ''}</button>
+              </div>
+            </div>
+
+            {workMode === 'single' ? (
+              <>
+              <div className={`flex flex-col border-2 border-dashed rounded-2xl p-8 transition-all ${videoFile ? 'border-green-400 bg-green-50/20' : 'border-slate-200 hover:border-blue-400 hover:bg-blue-50/30'}`}>
+                <div className="w-full max-w-2xl mx-auto space-y-6">
+                  {/* URL Import Section */}
+                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 mb-2">
+                    <label className="text-sm font-bold text-slate-700 block mb-3 uppercase tracking-wider flex items-center">
+                      <svg className="w-4 h-4 mr-2 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
+                      นำเข้าวิดีโอจาก URL
+                    </label>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <div className="relative flex-1">
+                        <input
+                          type="text"
+                          value={videoUrlInput}
+                          onChange={(e) => setVideoUrlInput(e.target.value)}
+                          placeholder="วางลิงก์ YouTube, TikTok หรือ Facebook ที่นี่..."
+                          className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400 transition-all pr-24"
+                        />
+                        <div className="absolute right-3 top-1/2 -translate-y-1/2 flex gap-1 pointer-events-none opacity-40">
+                          <span className="text-xs">📺</span>
+                          <span className="text-xs">🎵</span>
+                          <span className="text-xs">👥</span>
+                        </div>
                       </div>
+                      <button
+                        onClick={handleUrlFetch}
+                        disabled={isFetchingUrl || !videoUrlInput}
+                        className="bg-slate-900 text-white px-6 py-3 rounded-xl font-bold text-sm hover:bg-black transition-all disabled:opacity-50 flex items-center justify-center whitespace-nowrap group"
+                      >
+                        {isFetchingUrl ? (
+                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        ) : (
+                          <>
+                            <svg className="w-4 h-4 mr-2 group-hover:scale-125 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" /></svg>
+                            ดึงวิดีโอ
+                          </>
+                        )}
+                      </button>
                     </div>
-                    <button
-                      onClick={handleUrlFetch}
-                      disabled={isFetchingUrl || !videoUrlInput}
-                      className="bg-slate-900 text-white px-6 py-3 rounded-xl font-bold text-sm hover:bg-black transition-all disabled:opacity-50 flex items-center justify-center whitespace-nowrap group"
-                    >
-                      {isFetchingUrl ? (
-                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      ) : (
-                        <>
-                          <svg className="w-4 h-4 mr-2 group-hover:scale-125 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" /></svg>
-                          ดึงวิดีโอ
-                        </>
-                      )}
-                    </button>
+                    {isFetchingUrl ? (
+                      <div className="mt-2 space-y-1">
+                        <div className="flex items-center justify-between text-[10px] font-bold text-slate-500">
+                          <span>
+                            {!urlFetchProgress
+                              ? 'กำลังตรวจสอบลิงก์ ขนาด และความยาววิดีโอ...'
+                              : `กำลังดาวน์โหลด ${(urlFetchProgress.received / 1024 / 1024).toFixed(1)}MB${urlFetchProgress.total ? ` / ${(urlFetchProgress.total / 1024 / 1024).toFixed(1)}MB` : ''}`}
+                          </span>
+                          <button onClick={() => urlFetchAbortController.current?.abort()} className="text-red-500 hover:underline">ยกเลิก</button>
+                        </div>
+                        {urlFetchProgress?.total && (
+                          <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-slate-900 transition-all" style={{ width: `${Math.min(100, urlFetchProgress.received / urlFetchProgress.total * 100)}%` }}></div>
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-[10px] text-slate-400 font-medium">รองรับลิงก์ไฟล์วิดีโอโดยตรง และแพลตฟอร์มที่เซิร์ฟเวอร์รองรับ (ขนาดไฟล์ไม่เกิน 2GB)</p>
+                    )}
                   </div>
-                  <p className="mt-2 text-[10px] text-slate-400 font-medium">รองรับวิดีโอสั้นและปกติ (ขนาดไฟล์ไม่เกิน 50MB หลังดาวน์โหลด)</p>
-                </div>
 
-                <div className="flex items-center gap-4 py-2">
-                  <div className="h-[1px] bg-slate-200 flex-1"></div>
-                  <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">หรือ (อัปโหลดจากเครื่อง)</span>
-                  <div className="h-[1px] bg-slate-200 flex-1"></div>
-                </div>
+                  <div className="flex items-center gap-4 py-2">
+                    <div className="h-[1px] bg-slate-200 flex-1"></div>
+                    <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">หรือ (อัปโหลดจากเครื่อง)</span>
+                    <div className="h-[1px] bg-slate-200 flex-1"></div>
+                  </div>
 
-                {/* File Upload Section */}
-                <div className="flex flex-col items-center">
-                  <label className="cursor-pointer bg-blue-600 text-white px-10 py-4 rounded-full font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 mb-4 flex items-center group">
-                    <svg className="w-5 h-5 mr-2 group-hover:bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0l-4-4m4 4V4" /></svg>
-                    {videoBase64 ? 'เปลี่ยนวิดีโอ' : 'เลือกไฟล์วิดีโอ'}
-                    <input type="file" className="hidden" accept="video/*" onChange={handleFileUpload} />
-                  </label>
-                  {fileName ? (
-                    <div className="text-center bg-green-50 px-4 py-2 rounded-xl border border-green-100">
-                      <p className="text-green-800 font-bold text-xs flex items-center justify-center">
-                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
-                        {fileName}
-                      </p>
-                      <p className="text-green-600/60 text-[10px] font-bold">ความยาว: {videoDuration.toFixed(1)} วินาที</p>
-                    </div>
-                  ) : (
-                    <p className="text-slate-400 text-[11px] font-medium italic">รองรับไฟล์วิดีโอทั่วไป (สูงสุด 50MB)</p>
-                  )}
+                  {/* File Upload Section */}
+                  <div className="flex flex-col items-center">
+                    <label className="cursor-pointer bg-blue-600 text-white px-10 py-4 rounded-full font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 mb-4 flex items-center group">
+                      <svg className="w-5 h-5 mr-2 group-hover:bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0l-4-4m4 4V4" /></svg>
+                      {videoFile ? 'เปลี่ยนวิดีโอ' : 'เลือกไฟล์วิดีโอ'}
+                      <input type="file" className="hidden" accept="video/*" onChange={handleFileUpload} />
+                    </label>
+                    {fileName ? (
+                      <div className="text-center bg-green-50 px-4 py-2 rounded-xl border border-green-100">
+                        <p className="text-green-800 font-bold text-xs flex items-center justify-center">
+                          <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                          {fileName}
+                        </p>
+                        <p className="text-green-600/60 text-[10px] font-bold">ความยาว: {videoDuration.toFixed(1)} วินาที</p>
+                      </div>
+                    ) : (
+                      <p className="text-slate-400 text-[11px] font-medium italic">รองรับไฟล์วิดีโอทั่วไป (สูงสุด 2GB)</p>
+                    )}
+                  </div>
+
+                  {/* Subtitle Import Section */}
+                  <div className="flex flex-col items-center pt-2">
+                    {subtitleFileName ? (
+                      <div className="flex items-center gap-2 bg-indigo-50 px-4 py-2 rounded-xl border border-indigo-100">
+                        <p className="text-indigo-800 font-bold text-xs">ซับไตเติล: {subtitleFileName} ({segments.length} ช่วง) • ข้ามขั้นตอนแปล</p>
+                        <button onClick={clearImportedSubtitles} className="text-indigo-300 hover:text-red-500 transition-colors" title="ยกเลิกซับไตเติล">
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                      </div>
+                    ) : (
+                      <label className="cursor-pointer text-slate-500 hover:text-indigo-600 text-xs font-bold underline underline-offset-4 transition-colors">
+                        มีคำแปลอยู่แล้ว? นำเข้าซับไตเติล (SRT / VTT)
+                        <input type="file" className="hidden" accept=".srt,.vtt,text/vtt,application/x-subrip" onChange={handleSubtitleImport} />
+                      </label>
+                    )}
+                  </div>
                 </div>
+
+                {errorMessage && (
+                  <div className="mt-8 p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm font-medium animate-pulse text-center w-full max-w-md mx-auto">
+                    <p className="font-bold mb-1 uppercase tracking-tight text-xs">⚠️ เกิดข้อผิดพลาด</p>
+                    <p>{errorMessage}</p>
+                  </div>
+                )}
               </div>
 
-              {errorMessage && (
-                <div className="mt-8 p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm font-medium animate-pulse text-center w-full max-w-md mx-auto">
-                  <p className="font-bold mb-1 uppercase tracking-tight text-xs">⚠️ เกิดข้อผิดพลาด</p>
-                  <p>{errorMessage}</p>
+              {videoFile && (
+                <div className="mt-10 flex justify-center">
+                  <button
+                    onClick={startProcessing}
+                    className="group relative flex items-center bg-gradient-to-r from-blue-600 to-indigo-700 text-white px-16 py-5 rounded-2xl font-bold text-xl hover:scale-105 transition-all shadow-2xl shadow-blue-200 active:scale-95"
+                  >
+                    <span className="mr-3">เริ่มประมวลผล</span>
+                    <div className="bg-white/20 p-2 rounded-lg group-hover:bg-white/30 transition-colors">
+                      <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
+                    </div>
+                  </button>
                 </div>
               )}
-            </div>
 
-            {videoBase64 && (
-              <div className="mt-10 flex justify-center">
-                <button
-                  onClick={startProcessing}
-                  className="group relative flex items-center bg-gradient-to-r from-blue-600 to-indigo-700 text-white px-16 py-5 rounded-2xl font-bold text-xl hover:scale-105 transition-all shadow-2xl shadow-blue-200 active:scale-95"
-                >
-                  <span className="mr-3">เริ่มประมวลผล</span>
-                  <div className="bg-white/20 p-2 rounded-lg group-hover:bg-white/30 transition-colors">
-                    <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
+              </>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm flex flex-col items-center justify-center gap-2">
+                    <label className="cursor-pointer bg-blue-600 text-white px-8 py-3 rounded-full font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 text-sm">
+                      เพิ่มไฟล์วิดีโอ (เลือกได้หลายไฟล์)
+                      <input type="file" className="hidden" accept="video/*" multiple onChange={addBatchFiles} />
+                    </label>
+                    <p className="text-slate-400 text-[10px] font-medium">ไฟล์ละไม่เกิน 2GB</p>
                   </div>
-                </button>
+                  <div className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm">
+                    <textarea
+                      value={batchUrlInput}
+                      onChange={(e) => setBatchUrlInput(e.target.value)}
+                      placeholder="วางลิงก์วิดีโอ บรรทัดละหนึ่งลิงก์..."
+                      rows={3}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400 resize-none"
+                    />
+                    <button onClick={addBatchUrls} disabled={!batchUrlInput.trim()} className="mt-2 w-full bg-slate-900 text-white py-2 rounded-xl font-bold text-xs hover:bg-black transition-all disabled:opacity-50">เพิ่มลิงก์เข้าคิว</button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <div className="flex items-center gap-3">
+                    <label className="text-xs font-bold text-slate-500">ทำพร้อมกัน</label>
+                    <select
+                      value={batchConcurrency}
+                      onChange={(e) => setBatchConcurrency(parseInt(e.target.value, 10))}
+                      className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-700 outline-none"
+                    >
+                      {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} งาน</option>)}
+                    </select>
+                    <button
+                      onClick={() => setBatchRunning(prev => !prev)}
+                      disabled={!batchRunning && !jobs.some(j => j.status === 'queued')}
+                      className={`px-5 py-2 rounded-xl font-bold text-xs transition-all disabled:opacity-40 ${batchRunning ? 'bg-orange-100 text-orange-700 hover:bg-orange-200' : 'bg-blue-600 text-white hover:bg-blue-700 shadow-md'}`}
+                    >
+                      {batchRunning ? 'หยุดรับงานใหม่' : 'เริ่มประมวลผลคิว'}
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-xs font-bold text-slate-500 cursor-pointer">
+                      <input type="checkbox" checked={includeVideoInZip} onChange={(e) => setIncludeVideoInZip(e.target.checked)} className="accent-blue-600" />
+                      รวมวิดีโอ MP4
+                    </label>
+                    {batchExportProgress ? (
+                      <button onClick={() => batchExportController.current?.abort()} className="px-5 py-2 rounded-xl font-bold text-xs bg-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-600 transition-all">
+                        กำลังส่งออก {batchExportProgress.done}/{batchExportProgress.total} • ยกเลิก
+                      </button>
+                    ) : (
+                      <button
+                        onClick={exportBatch}
+                        disabled={!jobs.some(j => j.status === 'done')}
+                        className="px-5 py-2 rounded-xl font-bold text-xs bg-green-600 text-white hover:bg-green-700 shadow-md transition-all disabled:opacity-40"
+                      >
+                        ดาวน์โหลดทั้งหมด (ZIP)
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {errorMessage && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm font-medium text-center">{errorMessage}</div>
+                )}
+
+                {jobs.length === 0 ? (
+                  <p className="text-center text-slate-400 text-sm italic py-8">ยังไม่มีวิดีโอในคิว • งานใหม่จะใช้การตั้งค่าพากย์เสียงด้านบนร่วมกัน</p>
+                ) : (
+                  <div className="space-y-3">
+                    {jobs.map(job => {
+                      const jobSettings = resolveJobSettings(job, settings);
+                      return (
+                        <div key={job.id} className="p-4 bg-white rounded-2xl border border-slate-100 shadow-sm">
+                          <div className="flex items-center gap-3">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-bold text-slate-700 truncate" title={job.name}>{job.name}</p>
+                              <p className="text-[10px] text-slate-400 font-medium">
+                                {getLanguageProfile(jobSettings.targetLanguage).label} • {jobSettings.gender === 'male' ? 'ชาย' : 'หญิง'} • {moodLabels[jobSettings.mood]}
+                                {job.duration > 0 && ` • ${job.duration.toFixed(1)}s`}
+                                {job.status === 'done' && ` • ${job.segments.length} ช่วง`}
+                              </p>
+                            </div>
+                            <span className={`px-2.5 py-1 rounded-full text-[10px] font-bold whitespace-nowrap ${job.status === 'done' ? 'bg-green-100 text-green-700' : job.status === 'error' ? 'bg-red-100 text-red-600' : isJobActive(job) ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-500'}`}>
+                              {batchStatusLabels[job.status]}{isJobActive(job) && ` ${Math.floor(job.progress * 100)}%`}
+                            </span>
+                            <div className="flex items-center gap-1">
+                              {job.status === 'done' && (
+                                <button onClick={() => openJobInEditor(job)} className="px-3 py-1.5 rounded-lg text-[11px] font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all">เปิดแก้ไข</button>
+                              )}
+                              {(job.status === 'error' || job.status === 'cancelled' || job.status === 'done') && (
+                                <button onClick={() => retryJob(job.id)} className="px-3 py-1.5 rounded-lg text-[11px] font-bold text-slate-500 hover:bg-slate-100 transition-all">ทำใหม่</button>
+                              )}
+                              {isJobActive(job) && (
+                                <button onClick={() => cancelJob(job.id)} className="px-3 py-1.5 rounded-lg text-[11px] font-bold text-orange-600 hover:bg-orange-50 transition-all">ยกเลิก</button>
+                              )}
+                              <button onClick={() => removeJob(job.id)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors" title="ลบออกจากคิว">
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                              </button>
+                            </div>
+                          </div>
+
+                          {isJobActive(job) && (
+                            <div className="mt-3 bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                              <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${job.progress * 100}%` }}></div>
+                            </div>
+                          )}
+                          {job.error && <p className="mt-2 text-[11px] text-red-500 font-medium">{job.error}</p>}
+
+                          {!isJobActive(job) && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              <label className="flex items-center gap-1.5 text-[11px] font-bold text-slate-500 cursor-pointer">
+                                <input type="checkbox" checked={job.useSharedSettings} onChange={() => toggleJobSharedSettings(job.id)} className="accent-blue-600" />
+                                ใช้การตั้งค่าร่วม
+                              </label>
+                              {!job.useSharedSettings && (
+                                <>
+                                  <select value={job.settings.targetLanguage} onChange={(e) => updateJobSettings(job.id, 'targetLanguage', e.target.value as TargetLanguage)} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-medium text-slate-700 outline-none">
+                                    {Object.values(LANGUAGE_PROFILES).map(p => <option key={p.code} value={p.code}>{p.label}</option>)}
+                                  </select>
+                                  <select value={job.settings.dialect} onChange={(e) => updateJobSettings(job.id, 'dialect', e.target.value)} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-medium text-slate-700 outline-none">
+                                    {getLanguageProfile(job.settings.targetLanguage).dialects.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                                  </select>
+                                  <select value={job.settings.gender} onChange={(e) => updateJobSettings(job.id, 'gender', e.target.value as Gender)} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-medium text-slate-700 outline-none">
+                                    <option value="male">ชาย</option>
+                                    <option value="female">หญิง</option>
+                                  </select>
+                                  <select value={job.settings.mood} onChange={(e) => updateJobSettings(job.id, 'mood', e.target.value as Mood)} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-medium text-slate-700 outline-none">
+                                    {(Object.keys(moodLabels) as Mood[]).map(m => <option key={m} value={m}>{moodLabels[m]}</option>)}
+                                  </select>
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {projects.length > 0 && (
+              <div className="mt-10 p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h4 className="font-bold text-slate-800 uppercase text-sm tracking-widest">โปรเจกต์ที่บันทึกไว้ ({projects.length})</h4>
+                  <div className="flex items-center gap-3">
+                    {storageEstimate && storageEstimate.quota > 0 && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 bg-slate-200 h-1.5 rounded-full overflow-hidden">
+                          <div className={`h-full ${storageEstimate.usage / storageEstimate.quota > 0.8 ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${Math.min(100, storageEstimate.usage / storageEstimate.quota * 100)}%` }}></div>
+                        </div>
+                        <span className="text-[10px] font-bold text-slate-400">{formatBytes(storageEstimate.usage)} / {formatBytes(storageEstimate.quota)}</span>
+                      </div>
+                    )}
+                    <button onClick={purgeOldProjects} className="px-3 py-1.5 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-500 hover:border-red-300 hover:text-red-600 transition-all">ลบที่ไม่ได้แก้ไขเกิน {PURGE_AFTER_DAYS} วัน</button>
+                  </div>
+                </div>
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {projects.map(project => (
+                    <div key={project.id} className={`flex items-center gap-3 p-3 bg-white rounded-xl border ${project.id === projectId ? 'border-blue-300' : 'border-slate-100'}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-slate-700 truncate" title={project.name}>{project.name}</p>
+                        <p className="text-[10px] text-slate-400 font-medium">
+                          {new Date(project.updatedAt).toLocaleString('th-TH')} • {project.duration.toFixed(1)}s • {getLanguageProfile(project.settings.targetLanguage).label} • {project.segments.length} ช่วง • {formatBytes(project.videoSize)}
+                        </p>
+                      </div>
+                      <button onClick={() => openProject(project.id)} className="px-3 py-1.5 rounded-lg text-[11px] font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all">เปิด</button>
+                      <button onClick={() => removeProject(project.id)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors" title="ลบโปรเจกต์">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
           </div>
@@ -685,8 +2342,11 @@ const App: React.FC = () => {
             </div>
             <div className="text-5xl font-black text-blue-600 mb-4 tracking-tighter">{Math.floor(progress)}%</div>
             <h3 className="text-2xl font-bold text-slate-800 text-center uppercase tracking-widest animate-pulse">
-              {step === ProcessingStep.ANALYZING && "กำลังแปลและวิเคราะห์วิดีโอ..."}
-              {step === ProcessingStep.GENERATING_VOICE && "กำลังสร้างเสียง AI พากย์ไทย..."}
+              {step === ProcessingStep.UPLOADING && "กำลังอัปโหลดวิดีโอ..."}
+              {step === ProcessingStep.ANALYZING && (analysisProgress.total > 1
+                ? `กำลังแปลวิดีโอ ช่วงที่ ${Math.min(analysisProgress.done + 1, analysisProgress.total)}/${analysisProgress.total}...`
+                : "กำลังแปลและวิเคราะห์วิดีโอ...")}
+              {step === ProcessingStep.GENERATING_VOICE && `กำลังสร้างเสียง AI พากย์${languageProfile.label}...`}
             </h3>
             <p className="text-slate-400 mt-4 text-sm font-medium">กรุณารอสักครู่ ระบบกำลังทำงานอย่างเต็มกำลัง</p>
 
@@ -721,9 +2381,81 @@ const App: React.FC = () => {
                     }
                   }}
                   onSeeking={() => stopTranslation()}
+                  onSeeked={(e) => { setTimelineTime(e.currentTarget.currentTime); drawCaptionPreview(); }}
+                  onTimeUpdate={(e) => { setTimelineTime(e.currentTarget.currentTime); drawCaptionPreview(); }}
+                  onLoadedData={drawCaptionPreview}
                 />
               </div>
 
+              <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+                <div className="flex items-center gap-2">
+                  <button onClick={toggleTimeline} className={`px-2.5 py-1 rounded-lg text-[10px] font-bold transition-all ${showTimeline ? 'bg-slate-700 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:border-blue-300'}`}>
+                    ไทม์ไลน์
+                  </button>
+                  {showTimeline && (
+                    <>
+                      <span className="text-[10px] text-slate-400 font-mono">{formatTimestamp(timelineTime)}</span>
+                      <label className="ml-auto flex items-center gap-1 text-[10px] font-bold text-slate-400">
+                        ซูม
+                        <input type="range" min="10" max="200" step="5" value={timelineZoom} onChange={(e) => setTimelineZoom(parseInt(e.target.value))} className="w-20 h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
+                      </label>
+                    </>
+                  )}
+                </div>
+
+                {showTimeline && (
+                  <>
+                    <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white">
+                      <div
+                        className="relative select-none cursor-pointer"
+                        style={{ width: timelineDuration * timelineScale }}
+                        onClick={(e) => seekTo((e.clientX - e.currentTarget.getBoundingClientRect().left) / timelineScale)}
+                      >
+                        <div className="relative h-4 border-b border-slate-100">
+                          {Array.from({ length: Math.floor(timelineDuration / (timelineScale >= 60 ? 1 : timelineScale >= 20 ? 5 : 15)) + 1 }, (_, i) => i * (timelineScale >= 60 ? 1 : timelineScale >= 20 ? 5 : 15)).map(t => (
+                            <span key={t} className="absolute top-0 text-[8px] text-slate-400 font-mono pl-0.5 border-l border-slate-200" style={{ left: t * timelineScale }}>{formatTimestamp(t)}</span>
+                          ))}
+                        </div>
+                        <canvas ref={originalWaveRef} className="block h-8 w-full" title="เสียงต้นฉบับ" />
+                        <canvas ref={dubWaveRef} className="block h-8 w-full border-t border-slate-100" title="เสียงพากย์" />
+                        <div className="relative h-9 border-t border-slate-100">
+                          {segments.map(segment => (
+                            <div
+                              key={segment.id}
+                              onPointerDown={(e) => startSegmentDrag(e, segment, 'move')}
+                              onPointerMove={moveSegmentDrag}
+                              onPointerUp={endSegmentDrag}
+                              onClick={(e) => e.stopPropagation()}
+                              className={`absolute top-1 bottom-1 rounded-md border text-[9px] leading-7 px-1.5 truncate cursor-grab active:cursor-grabbing touch-none ${segment.id === selectedSegmentId ? 'bg-indigo-500 border-indigo-600 text-white' : 'bg-indigo-100 border-indigo-200 text-indigo-700'} ${(overrunBySegment[segment.id] || 0) > 0.05 ? 'ring-1 ring-amber-400' : ''}`}
+                              style={{ left: segment.start * timelineScale, width: Math.max(4, (segment.end - segment.start) * timelineScale) }}
+                              title={segment.targetText}
+                            >
+                              <span onPointerDown={(e) => startSegmentDrag(e, segment, 'start')} className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize rounded-l-md bg-black/10" />
+                              {segment.targetText}
+                              <span onPointerDown={(e) => startSegmentDrag(e, segment, 'end')} className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize rounded-r-md bg-black/10" />
+                            </div>
+                          ))}
+                        </div>
+                        <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: timelineTime * timelineScale }} />
+                      </div>
+                    </div>
+
+                    {selectedSegment ? (
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-[10px] font-bold text-slate-500 font-mono mr-auto">{formatTimestamp(selectedSegment.start)} → {formatTimestamp(selectedSegment.end)}</span>
+                        <button onClick={splitSelectedSegment} className="px-2 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-blue-300 transition-all">แยกที่ตัวชี้เวลา</button>
+                        <button onClick={mergeSelectedSegment} disabled={segments.every(s => s.start <= selectedSegment.start)} className="px-2 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-blue-300 transition-all disabled:opacity-30">รวมกับประโยคถัดไป</button>
+                        <button onClick={() => revoiceSegment(selectedSegment.id)} disabled={!currentAudioBuffer || !!revoicingSegmentId || isRegenerating || !selectedSegment.targetText.trim()} className="px-2 py-1 rounded-lg text-[10px] font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition-all disabled:opacity-40">
+                          {revoicingSegmentId === selectedSegment.id ? 'กำลังพากย์...' : 'พากย์ใหม่เฉพาะประโยคนี้'}
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-[10px] text-slate-400">ลากกล่องเพื่อเลื่อนเวลา ลากขอบเพื่อตัด กดที่ว่างเพื่อย้ายตัวชี้เวลา</p>
+                    )}
+                  </>
+                )}
+              </div>
+
               <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-4">
                 <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">ปรับแต่งพากย์ใหม่ (Quick-tune)</h5>
                 <div className="grid grid-cols-2 gap-4">
@@ -750,7 +2482,15 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <div className="col-span-2">
-                    <label className="text-[10px] font-bold text-slate-400 mb-1 block">อารมณ์/สำเนียง</label>
+                    <label className="text-[10px] font-bold text-slate-400 mb-1 block">สำเนียง ({languageProfile.label})</label>
+                    <div className="flex bg-white p-1 rounded-lg border border-slate-200 overflow-x-auto scrollbar-hide">
+                      {languageProfile.dialects.map((d) => (
+                        <button key={d.id} onClick={() => updateSettings('dialect', d.id)} className={`flex-1 px-3 py-1 text-[10px] whitespace-nowrap rounded ${settings.dialect === d.id ? 'bg-amber-500 text-white' : 'text-slate-500 hover:bg-slate-50'}`}>{d.label}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="text-[10px] font-bold text-slate-400 mb-1 block">อารมณ์</label>
                     <div className="flex bg-white p-1 rounded-lg border border-slate-200 overflow-x-auto scrollbar-hide">
                       {(Object.keys(moodLabels) as Mood[]).map((m) => (
                         <button key={m} onClick={() => updateSettings('mood', m)} className={`px-3 py-1 text-[10px] whitespace-nowrap rounded ${settings.mood === m ? 'bg-green-500 text-white' : 'text-slate-500 hover:bg-slate-50'}`}>{moodLabels[m]}</button>
@@ -760,6 +2500,188 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {glossaryEditor}
+
+              {pronunciationEditor}
+
+              {speakers.length > 0 && (
+                <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">ผู้พูด & เสียงพากย์ (Speakers)</h5>
+                    <button
+                      onClick={() => extractVoiceReferences(speakers.map(s => s.id))}
+                      disabled={!videoUrl || matchingSpeakerIds.length > 0}
+                      className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 disabled:text-slate-300"
+                    >
+                      {matchingSpeakerIds.length > 1 ? 'กำลังวิเคราะห์เสียง...' : 'จับคู่เสียงจากวิดีโอทั้งหมด'}
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    {providerConfig.provider === 'openai' && providerConfig.openai.referenceAudioField
+                      ? 'ผู้พูดที่มีเสียงอ้างอิงจะถูกโคลนเสียงจากคลิปอ้างอิงโดยตรง'
+                      : 'ผู้พูดที่มีเสียงอ้างอิงจะใช้เสียงสำเร็จรูปที่ใกล้ที่สุด แล้วปรับระดับเสียง โทนเสียง และความดังให้ใกล้ต้นฉบับ'}
+                  </p>
+                  {speakers.map((speaker) => (
+                    <div key={speaker.id} className="bg-white p-3 rounded-xl border border-slate-200 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={speaker.name}
+                          onChange={(e) => updateSpeaker(speaker.id, { name: e.target.value })}
+                          className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-700 outline-none focus:border-indigo-400"
+                        />
+                        <span className="text-[10px] text-slate-400 whitespace-nowrap">{segments.filter(seg => seg.speaker === speaker.id).length} ประโยค</span>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="flex bg-slate-50 p-0.5 rounded-lg border border-slate-200">
+                          <button onClick={() => updateSpeaker(speaker.id, { gender: 'male' })} className={`flex-1 py-1 text-[10px] rounded ${speaker.gender === 'male' ? 'bg-indigo-500 text-white' : 'text-slate-500'}`}>ชาย</button>
+                          <button onClick={() => updateSpeaker(speaker.id, { gender: 'female' })} className={`flex-1 py-1 text-[10px] rounded ${speaker.gender === 'female' ? 'bg-indigo-500 text-white' : 'text-slate-500'}`}>หญิง</button>
+                        </div>
+                        <select
+                          value={speaker.voiceName}
+                          onChange={(e) => updateSpeaker(speaker.id, { voiceName: e.target.value })}
+                          className="bg-slate-50 border border-slate-200 rounded-lg px-1 py-1 text-[10px] text-slate-600 outline-none focus:border-indigo-400"
+                        >
+                          {getVoicesByGender(speaker.gender).map(v => <option key={v.name} value={v.name}>{v.name} ({v.style})</option>)}
+                        </select>
+                        <select
+                          value={speaker.mood}
+                          onChange={(e) => updateSpeaker(speaker.id, { mood: e.target.value as Mood })}
+                          className="bg-slate-50 border border-slate-200 rounded-lg px-1 py-1 text-[10px] text-slate-600 outline-none focus:border-indigo-400"
+                        >
+                          {(Object.keys(moodLabels) as Mood[]).map(m => <option key={m} value={m}>{moodLabels[m]}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex items-center gap-2 text-[10px]">
+                        {matchingSpeakerIds.includes(speaker.id) ? (
+                          <span className="flex-1 text-indigo-500 font-bold">กำลังวิเคราะห์เสียง...</span>
+                        ) : speaker.reference ? (
+                          <span
+                            className="flex-1 min-w-0 truncate text-emerald-600 font-bold"
+                            title={`ระดับเสียง ${Math.round(speaker.reference.pitchLow)}–${Math.round(speaker.reference.pitchHigh)} Hz, ความดัง ${speaker.reference.loudness.toFixed(1)} LUFS`}
+                          >
+                            เสียงอ้างอิง{speaker.reference.source === 'upload' ? 'ที่อัปโหลด' : 'จากวิดีโอ'} · {Math.round(speaker.reference.pitchMedian)} Hz
+                          </span>
+                        ) : (
+                          <span className="flex-1 text-slate-400">ยังไม่มีเสียงอ้างอิง</span>
+                        )}
+                        <label className={`font-bold ${matchingSpeakerIds.length > 0 ? 'text-slate-300 pointer-events-none' : 'text-indigo-600 hover:text-indigo-800 cursor-pointer'}`}>
+                          อัปโหลด
+                          <input type="file" className="hidden" accept="audio/*,video/*" onChange={(e) => uploadVoiceReference(speaker.id, e)} />
+                        </label>
+                        <button
+                          onClick={() => extractVoiceReferences([speaker.id])}
+                          disabled={!videoUrl || matchingSpeakerIds.length > 0}
+                          className="font-bold text-indigo-600 hover:text-indigo-800 disabled:text-slate-300"
+                        >
+                          ดึงจากวิดีโอ
+                        </button>
+                        {speaker.reference && (
+                          <button onClick={() => clearVoiceReference(speaker.id)} className="font-bold text-slate-400 hover:text-red-500">ล้าง</button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">มิกซ์เสียง (Mix)</h5>
+                  <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer">
+                    <input type="checkbox" checked={mixSettings.keepBackground} onChange={(e) => updateMix('keepBackground', e.target.checked)} className="accent-blue-600" />
+                    เก็บเสียงเพลง/เอฟเฟกต์ต้นฉบับ
+                  </label>
+                </div>
+                {mixSettings.keepBackground && !originalAudioBuffer && (
+                  <p className="text-[10px] text-amber-600">ไม่พบเสียงต้นฉบับในวิดีโอนี้ จะใช้เฉพาะเสียงพากย์</p>
+                )}
+                <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  {mixSliders.map(slider => (
+                    <div key={slider.key} className={!mixSettings.keepBackground && slider.key !== 'masterGain' && slider.key !== 'dubGain' ? 'opacity-30 pointer-events-none' : ''}>
+                      <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1">
+                        <span>{slider.label}</span>
+                        <span>{(mixSettings[slider.key] as number).toFixed(2)}{slider.unit}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                        value={mixSettings[slider.key] as number}
+                        onChange={(e) => updateMix(slider.key, parseFloat(e.target.value))}
+                        className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">ซับไตเติลฝังในวิดีโอ</h5>
+                  <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer">
+                    <input type="checkbox" checked={captionStyle.enabled} onChange={(e) => updateCaption('enabled', e.target.checked)} className="accent-blue-600" />
+                    ฝังซับตอนโหลดวิดีโอ
+                  </label>
+                </div>
+                {captionStyle.enabled && (
+                  <div className="grid grid-cols-[auto_1fr] gap-4">
+                    <canvas ref={captionPreviewRef} className="h-48 rounded-lg bg-black border border-slate-200" />
+                    <div className="grid grid-cols-2 gap-2 content-start">
+                      <div className="col-span-2">
+                        <label className="text-[10px] font-bold text-slate-400 mb-1 block">พื้นที่ปลอดภัย</label>
+                        <select value={captionStyle.safeArea} onChange={(e) => updateCaption('safeArea', e.target.value as SafeAreaPreset)} className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-[10px] text-slate-600 outline-none">
+                          {(Object.keys(SAFE_AREA_PRESETS) as SafeAreaPreset[]).map(key => <option key={key} value={key}>{SAFE_AREA_PRESETS[key].label}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 mb-1 block">ฟอนต์</label>
+                        <select value={captionStyle.fontFamily} onChange={(e) => updateCaption('fontFamily', e.target.value)} className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-[10px] text-slate-600 outline-none">
+                          {CAPTION_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-bold text-slate-400 mb-1 block">ตำแหน่ง</label>
+                        <select value={captionStyle.position} onChange={(e) => updateCaption('position', e.target.value as CaptionPosition)} className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-[10px] text-slate-600 outline-none">
+                          <option value="top">บน</option>
+                          <option value="middle">กลาง</option>
+                          <option value="bottom">ล่าง</option>
+                        </select>
+                      </div>
+                      <div className="col-span-2">
+                        <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>ขนาด</span><span>{captionStyle.fontSize.toFixed(1)}%</span></div>
+                        <input type="range" min="2" max="10" step="0.5" value={captionStyle.fontSize} onChange={(e) => updateCaption('fontSize', parseFloat(e.target.value))} className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
+                      </div>
+                      <div className="col-span-2">
+                        <div className="flex justify-between text-[10px] font-bold text-slate-400 mb-1"><span>ขอบตัวอักษร</span><span>{captionStyle.outlineWidth}%</span></div>
+                        <input type="range" min="0" max="30" step="1" value={captionStyle.outlineWidth} onChange={(e) => updateCaption('outlineWidth', parseInt(e.target.value))} className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600" />
+                      </div>
+                      <label className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+                        สีตัวอักษร
+                        <input type="color" value={captionStyle.color} onChange={(e) => updateCaption('color', e.target.value)} className="w-6 h-6 rounded cursor-pointer" />
+                      </label>
+                      <label className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+                        สีขอบ
+                        <input type="color" value={captionStyle.outlineColor} onChange={(e) => updateCaption('outlineColor', e.target.value)} className="w-6 h-6 rounded cursor-pointer" />
+                      </label>
+                      <label className="col-span-2 flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer">
+                        <input type="checkbox" checked={captionStyle.backgroundColor !== null} onChange={(e) => updateCaption('backgroundColor', e.target.checked ? 'rgba(0,0,0,0.6)' : null)} className="accent-blue-600" />
+                        พื้นหลังทึบใต้ข้อความ
+                      </label>
+                      <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer" title="ระบายสีคำตามเสียงพากย์ที่กำลังพูด (ใช้เวลาของคำจากเสียงที่สร้างไว้)">
+                        <input type="checkbox" checked={!!captionStyle.karaoke} onChange={(e) => updateCaption('karaoke', e.target.checked)} className="accent-blue-600" />
+                        คาราโอเกะ
+                      </label>
+                      <label className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+                        สีคำที่พูดแล้ว
+                        <input type="color" value={captionStyle.highlightColor || DEFAULT_CAPTION_STYLE.highlightColor} onChange={(e) => updateCaption('highlightColor', e.target.value)} disabled={!captionStyle.karaoke} className="w-6 h-6 rounded cursor-pointer disabled:opacity-30" />
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               <div className="grid grid-cols-3 gap-2">
                 <button onClick={shareContent} className="flex flex-col items-center justify-center p-3 rounded-xl bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">
                   <svg className="w-5 h-5 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
@@ -775,15 +2697,217 @@ const App: React.FC = () => {
                 </button>
               </div>
 
-              <button onClick={handleStartOver} className="text-slate-400 hover:text-slate-600 text-sm flex items-center py-2"><svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M11 15l-3-3m0 0l3-3m-3 3h8M3 12a9 9 0 1118 0 9 9 0 01-18 0z" /></svg>เริ่มใหม่ทั้งหมด</button>
+              {dubFit && dubFit.clips > 0 && (
+                <div className={`p-3 rounded-2xl border text-[10px] font-bold flex flex-wrap items-center gap-x-3 gap-y-1 ${
+                  dubFit.overrunning > 0 ? 'bg-red-50 border-red-100 text-red-600'
+                    : !isWithinTolerance(dubFit) ? 'bg-amber-50 border-amber-100 text-amber-700'
+                    : 'bg-emerald-50 border-emerald-100 text-emerald-700'
+                }`}>
+                  <span className="uppercase tracking-wider">ความยาวพากย์</span>
+                  <span className="font-mono">พอดีช่วงเวลา {dubFit.clips - dubFit.overrunning - dubFit.short}/{dubFit.clips} ประโยค</span>
+                  {dubFit.overrunning > 0 && (
+                    <span>ยาวเกิน {dubFit.overrunning} ประโยค (มากสุด +{dubFit.maxOverrun.toFixed(1)}s)</span>
+                  )}
+                  {dubFit.short > 0 && <span>สั้นกว่าช่วง {dubFit.short} ประโยค</span>}
+                  {(dubFit.stretched > 0 || dubFit.rewritten > 0) && (
+                    <span className="font-medium opacity-80">ยืด/หดเสียง {dubFit.stretched} ช่วง • เขียนใหม่ {dubFit.rewritten} ช่วง</span>
+                  )}
+                </div>
+              )}
+
+              {Object.keys(glossaryViolations).length > 0 && (
+                <div className="p-3 rounded-2xl border bg-amber-50 border-amber-100 text-amber-700 text-[10px] font-bold">
+                  คำศัพท์ล็อกไม่ตรงใน {Object.keys(glossaryViolations).length} ประโยค
+                  <span className="font-medium opacity-80"> • {[...new Set(Object.values(glossaryViolations).flat().map(v => v.entry.source.trim()))].join(', ')}</span>
+                </div>
+              )}
+
+              <div className="p-3 bg-slate-50 rounded-2xl border border-slate-100 flex items-center gap-2">
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mr-auto">ซับไตเติล</span>
+                <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={includeOriginalSubtitles} onChange={(e) => setIncludeOriginalSubtitles(e.target.checked)} className="accent-blue-600" />
+                  รวมภาษาต้นฉบับ
+                </label>
+                <button onClick={() => downloadSubtitles('srt')} disabled={segments.length === 0} className="px-3 py-1.5 text-[10px] font-bold rounded-lg bg-white border border-slate-200 text-slate-600 hover:border-blue-300 transition-all disabled:opacity-30">SRT</button>
+                <button onClick={() => downloadSubtitles('vtt')} disabled={segments.length === 0} className="px-3 py-1.5 text-[10px] font-bold rounded-lg bg-white border border-slate-200 text-slate-600 hover:border-blue-300 transition-all disabled:opacity-30">VTT</button>
+              </div>
+
+              {projectId && lastSavedAt && (
+                <p className="text-[10px] text-slate-400 font-medium">บันทึกอัตโนมัติล่าสุด {new Date(lastSavedAt).toLocaleTimeString('th-TH')}</p>
+              )}
+              {activeJobId ? (
+                <button onClick={returnToQueue} className="text-blue-500 hover:text-blue-700 text-sm font-bold flex items-center py-2"><svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M11 15l-3-3m0 0l3-3m-3 3h8M3 12a9 9 0 1118 0 9 9 0 01-18 0z" /></svg>บันทึกและกลับไปที่คิว</button>
+              ) : (
+                <button onClick={handleStartOver} className="text-slate-400 hover:text-slate-600 text-sm flex items-center py-2"><svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M11 15l-3-3m0 0l3-3m-3 3h8M3 12a9 9 0 1118 0 9 9 0 01-18 0z" /></svg>เริ่มใหม่ทั้งหมด</button>
+              )}
             </div>
 
             <div className="flex flex-col">
               <h4 className="font-bold text-slate-700 mb-4 flex justify-between items-center">
                 <span>แก้ไขคำแปล & เล่นเสียง</span>
-                {isRegenerating && <span className="text-xs text-blue-500 animate-pulse bg-blue-50 px-2 py-1 rounded-full">กำลังอัพเดทเสียงพากย์...</span>}
+                <div className="flex items-center gap-1">
+                  {isRegenerating && <span className="text-xs text-blue-500 animate-pulse bg-blue-50 px-2 py-1 rounded-full mr-1">กำลังอัพเดทเสียงพากย์...</span>}
+                  <button onClick={undoVersion} disabled={!canUndo || isRegenerating} title="ย้อนกลับ (Ctrl+Z)" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 transition-all">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" /></svg>
+                  </button>
+                  <button onClick={redoVersion} disabled={!canRedo || isRegenerating} title="ทำซ้ำ (Ctrl+Shift+Z)" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 transition-all">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" /></svg>
+                  </button>
+                  <button onClick={() => setShowSpokenText(prev => !prev)} title="ดูและแก้คำอ่านที่จะส่งให้ TTS" className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-all ${showSpokenText ? 'bg-teal-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>
+                    คำอ่าน
+                  </button>
+                  <button onClick={() => setShowHistory(prev => !prev)} className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-all ${showHistory ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}>
+                    ประวัติ ({history.versions.length})
+                  </button>
+                </div>
               </h4>
-              <textarea value={translatedText} onChange={(e) => setTranslatedText(e.target.value)} className="flex-1 w-full bg-slate-50 border border-slate-200 rounded-2xl p-5 text-slate-700 focus:ring-2 focus:ring-blue-100 focus:border-blue-400 outline-none resize-none mb-4 leading-relaxed text-lg" placeholder="พิมพ์คำแปลที่ต้องการแก้ไขที่นี่..." />
+
+              {showHistory && (
+                <div className="mb-4 p-3 bg-white rounded-2xl border border-indigo-100 shadow-sm">
+                  <div className="space-y-1.5 max-h-52 overflow-y-auto">
+                    {[...history.versions].reverse().map(version => (
+                      <div key={version.id} className={`flex items-center gap-2 p-2 rounded-xl border ${version.id === history.currentId ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-[11px] font-bold text-slate-600">
+                            {versionSourceLabels[version.source]}
+                            {version.id === history.currentId && <span className="ml-1 text-indigo-500">• ปัจจุบัน</span>}
+                          </p>
+                          <p className="text-[10px] text-slate-400">
+                            {new Date(version.createdAt).toLocaleTimeString('th-TH')} • {version.segments.length} ช่วง • {getLanguageProfile(version.settings.targetLanguage).label} {getLanguageProfile(version.settings.targetLanguage).dialects.find(d => d.id === version.settings.dialect)?.label || ''}
+                          </p>
+                        </div>
+                        <button onClick={() => setCompareVersionId(compareVersionId === version.id ? null : version.id)} className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${compareVersionId === version.id ? 'bg-slate-700 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:border-slate-400'}`}>เทียบ</button>
+                        <button onClick={() => restoreVersion(version)} disabled={isRegenerating} className="px-2 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600 disabled:opacity-40 transition-all">กู้คืน</button>
+                        <button onClick={() => restoreAndRevoice(version)} disabled={isRegenerating || isHooking || isDialectHooking} className="px-2 py-1 rounded-lg text-[10px] font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 transition-all whitespace-nowrap">กู้คืน + เจ็นเสียง</button>
+                      </div>
+                    ))}
+                  </div>
+
+                  {compareVersion && (
+                    <div className="mt-3 border-t border-slate-100 pt-3">
+                      <div className="grid grid-cols-2 gap-2 mb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                        <span>{versionSourceLabels[compareVersion.source]} ({new Date(compareVersion.createdAt).toLocaleTimeString('th-TH')})</span>
+                        <span>ข้อความปัจจุบัน</span>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto space-y-1">
+                        {diffRows.length === 0 && <p className="text-xs text-slate-400 italic">ไม่มีข้อความ</p>}
+                        {diffRows.map((row, index) => (
+                          <div key={index} className={`grid grid-cols-2 gap-2 text-xs leading-relaxed ${row.changed ? '' : 'opacity-60'}`}>
+                            <div className={`p-1.5 rounded-lg ${row.left ? 'bg-slate-50' : ''}`}>
+                              {row.left?.map((token, i) => <span key={i} className={diffTokenClass(token)}>{token.text}</span>)}
+                            </div>
+                            <div className={`p-1.5 rounded-lg ${row.right ? 'bg-slate-50' : ''}`}>
+                              {row.right?.map((token, i) => <span key={i} className={diffTokenClass(token)}>{token.text}</span>)}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="flex-1 max-h-[480px] overflow-y-auto space-y-3 mb-4 pr-1">
+                {segments.map((segment) => (
+                  <div key={segment.id} className={`bg-slate-50 border rounded-2xl p-4 focus-within:ring-2 focus-within:ring-blue-100 focus-within:border-blue-400 transition-all ${activeWord?.segmentId === segment.id ? 'border-yellow-300' : 'border-slate-200'}`}>
+                    <div className="flex items-center gap-2 mb-2">
+                      <button
+                        onClick={() => { if (videoRef.current) videoRef.current.currentTime = segment.start; }}
+                        className="text-[10px] font-bold px-2 py-0.5 bg-white border border-slate-200 text-slate-500 rounded-full hover:border-blue-300 hover:text-blue-600 transition-all"
+                      >
+                        {formatTimestamp(segment.start)} → {formatTimestamp(segment.end)}
+                      </button>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={segment.start}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          if (!isNaN(val)) updateSegment(segment.id, { start: Math.max(0, val) });
+                        }}
+                        className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-0.5 text-[10px] text-slate-600 outline-none focus:border-blue-400"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={segment.end}
+                        onChange={(e) => {
+                          const val = parseFloat(e.target.value);
+                          if (!isNaN(val)) updateSegment(segment.id, { end: Math.max(segment.start, val) });
+                        }}
+                        className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-0.5 text-[10px] text-slate-600 outline-none focus:border-blue-400"
+                      />
+                      <select
+                        value={segment.speaker}
+                        onChange={(e) => updateSegment(segment.id, { speaker: e.target.value })}
+                        className="min-w-0 bg-transparent text-[10px] font-bold text-indigo-500 outline-none cursor-pointer truncate"
+                      >
+                        {speakers.map(sp => <option key={sp.id} value={sp.id}>{sp.name}</option>)}
+                        {!speakers.some(sp => sp.id === segment.speaker) && <option value={segment.speaker}>{segment.speaker}</option>}
+                      </select>
+                      {(overrunBySegment[segment.id] || 0) > 0.05 && (
+                        <span className="text-[10px] font-bold px-2 py-0.5 bg-amber-50 text-amber-600 rounded-full whitespace-nowrap" title="เสียงพากย์ยาวเกินช่วงเวลา ประโยคถัดไปถูกเลื่อนออกไป">
+                          เกินเวลา +{overrunBySegment[segment.id].toFixed(1)}s
+                        </span>
+                      )}
+                      {glossaryViolations[segment.id] && (
+                        <span
+                          className="text-[10px] font-bold px-2 py-0.5 bg-amber-50 text-amber-600 rounded-full truncate"
+                          title={glossaryViolations[segment.id].map(v => v.issue === 'untranslated'
+                            ? `"${v.entry.source}" ยังไม่ได้เปลี่ยนเป็น "${v.entry.target}"`
+                            : `ไม่พบ "${v.entry.keepAsIs ? v.entry.source : v.entry.target}" (ถูกตัดหรือแปลเป็นคำอื่น)`).join('\n')}
+                        >
+                          คำล็อก: {glossaryViolations[segment.id].map(v => v.entry.source.trim()).join(', ')}
+                        </span>
+                      )}
+                      {glossaryViolations[segment.id]?.some(v => v.issue === 'untranslated') && (
+                        <button onClick={() => fixGlossaryTerms(segment)} className="text-[10px] font-bold text-amber-600 hover:underline whitespace-nowrap">แก้ให้ตรง</button>
+                      )}
+                      <button onClick={() => removeSegment(segment.id)} className="ml-auto text-slate-300 hover:text-red-500 transition-colors" title="ลบช่วงนี้">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                      </button>
+                    </div>
+                    {segment.originalText && (
+                      <p className="text-[11px] text-slate-400 mb-2 leading-snug">{segment.originalText}</p>
+                    )}
+                    <textarea
+                      value={segment.targetText}
+                      onChange={(e) => updateSegment(segment.id, { targetText: e.target.value })}
+                      rows={2}
+                      className="w-full bg-white border border-slate-200 rounded-xl p-3 text-slate-700 outline-none resize-none leading-relaxed"
+                      placeholder="พิมพ์คำแปลที่ต้องการแก้ไขที่นี่..."
+                    />
+                    {timingsMatchText(placementBySegment[segment.id]?.words, segment.targetText) && (
+                      <p className="mt-2 px-1 text-xs leading-relaxed text-slate-500" title="กดที่คำเพื่อข้ามไปยังตำแหน่งนั้น">
+                        {placementBySegment[segment.id].words!.map((word, index) => isSpokenWord(word) ? (
+                          <span
+                            key={index}
+                            onClick={() => seekTo(placementBySegment[segment.id].offset + word.start)}
+                            className={`cursor-pointer rounded transition-colors ${activeWord?.segmentId === segment.id && activeWord.index === index ? 'bg-yellow-200 text-slate-900' : 'hover:bg-blue-50 hover:text-blue-600'}`}
+                          >
+                            {word.text}
+                          </span>
+                        ) : <span key={index}>{word.text}</span>)}
+                      </p>
+                    )}
+                    {showSpokenText && segment.targetText.trim() && (
+                      <div className="mt-2 flex items-start gap-2">
+                        <span className="text-[10px] font-bold text-teal-600 whitespace-nowrap pt-2">คำอ่าน</span>
+                        <textarea
+                          value={segment.spokenText ?? normalizeForSpeech(segment.targetText, settings.targetLanguage, lexicon)}
+                          onChange={(e) => updateSegment(segment.id, { spokenText: e.target.value })}
+                          rows={1}
+                          className={`flex-1 bg-white border rounded-xl px-3 py-1.5 text-xs text-slate-600 outline-none resize-none leading-relaxed ${segment.spokenText !== undefined ? 'border-teal-300' : 'border-slate-200'}`}
+                        />
+                        {segment.spokenText !== undefined && (
+                          <button onClick={() => updateSegment(segment.id, { spokenText: undefined })} className="text-[10px] font-bold text-teal-600 hover:underline whitespace-nowrap pt-2">ใช้คำอ่านอัตโนมัติ</button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
 
               {errorMessage && (
                 <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl text-red-600 text-sm font-medium animate-in fade-in slide-in-from-top-2">
@@ -844,10 +2968,55 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">เอฟเฟกต์เสียง</label>
+                    <span className="text-[9px] font-medium text-slate-300">มีผลเมื่อเจ็นเสียงพากย์ใหม่</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-[10px] font-bold text-slate-500 w-16">ระดับเสียง</span>
+                    <input
+                      type="range"
+                      min="-6"
+                      max="6"
+                      step="0.5"
+                      value={settings.pitchShift || 0}
+                      onChange={(e) => updateSettings('pitchShift', parseFloat(e.target.value))}
+                      className="flex-1 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <span className="text-[10px] font-mono text-slate-500 w-12 text-right">{(settings.pitchShift || 0) > 0 ? '+' : ''}{(settings.pitchShift || 0).toFixed(1)} st</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <span className="text-[10px] font-bold text-slate-500">EQ / คอมเพรสเซอร์</span>
+                      <select
+                        value={settings.effectPreset || 'none'}
+                        onChange={(e) => updateSettings('effectPreset', e.target.value as VoiceEffectPreset)}
+                        className="mt-1 w-full px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700 bg-white"
+                      >
+                        {(Object.keys(effectPresetLabels) as VoiceEffectPreset[]).map(p => <option key={p} value={p}>{effectPresetLabels[p]}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <span className="text-[10px] font-bold text-slate-500">ปรับความดัง (LUFS)</span>
+                      <select
+                        value={settings.loudnessTarget ?? ''}
+                        onChange={(e) => updateSettings('loudnessTarget', e.target.value === '' ? null : parseFloat(e.target.value))}
+                        className="mt-1 w-full px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700 bg-white"
+                      >
+                        <option value="">ไม่ปรับ</option>
+                        <option value="-14">-14 (TikTok / YouTube)</option>
+                        <option value="-16">-16 (Podcast)</option>
+                        <option value="-23">-23 (EBU R128)</option>
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <button
                     onClick={applyAIHook}
-                    disabled={isHooking || isIsanHooking || isRegenerating}
+                    disabled={isHooking || isDialectHooking || isRegenerating}
                     className="flex-1 bg-gradient-to-r from-orange-500 to-red-600 text-white py-4 px-2 rounded-2xl font-black text-sm hover:shadow-xl hover:shadow-orange-200 hover:scale-[1.02] transition-all flex items-center justify-center group disabled:opacity-50"
                   >
                     {isHooking ? (
@@ -858,31 +3027,129 @@ const App: React.FC = () => {
                     {isHooking ? 'กำลังปรุง...' : 'TikTok AI Hook'}
                   </button>
 
-                  <button
-                    onClick={applyIsanHook}
-                    disabled={isIsanHooking || isHooking || isRegenerating}
-                    className="flex-1 bg-gradient-to-r from-yellow-500 to-amber-700 text-white py-4 px-2 rounded-2xl font-black text-sm hover:shadow-xl hover:shadow-yellow-200 hover:scale-[1.02] transition-all flex items-center justify-center group disabled:opacity-50"
-                  >
-                    {isIsanHooking ? (
-                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
-                    ) : (
-                      <svg className="w-5 h-5 mr-2 group-hover:rotate-12 transition-transform" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm-5-9h10v2H7z" /></svg>
-                    )}
-                    {isIsanHooking ? 'เบิ่งแน...' : 'Hook สไตล์อิสาน'}
-                  </button>
+                  {regionalDialect && (
+                    <button
+                      onClick={applyDialectHook}
+                      disabled={isDialectHooking || isHooking || isRegenerating}
+                      className="flex-1 bg-gradient-to-r from-yellow-500 to-amber-700 text-white py-4 px-2 rounded-2xl font-black text-sm hover:shadow-xl hover:shadow-yellow-200 hover:scale-[1.02] transition-all flex items-center justify-center group disabled:opacity-50"
+                    >
+                      {isDialectHooking ? (
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                      ) : (
+                        <svg className="w-5 h-5 mr-2 group-hover:rotate-12 transition-transform" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm-5-9h10v2H7z" /></svg>
+                      )}
+                      {isDialectHooking ? (regionalDialect.id === 'isan' ? 'เบิ่งแน...' : 'กำลังปรุง...') : `Hook สไตล์${regionalDialect.label}`}
+                    </button>
+                  )}
+                </div>
+
+                <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm">
+                  <div className="flex items-center justify-between gap-2 mb-3">
+                    <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Hook หลายแบบ (A/B) {hookVariants.length > 0 && `(${hookVariants.length})`}</h5>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={hookCount}
+                        onChange={(e) => setHookCount(parseInt(e.target.value))}
+                        className="px-2 py-1 rounded-lg border border-slate-200 text-[10px] font-bold text-slate-600 bg-white"
+                      >
+                        {Array.from({ length: MAX_HOOK_VARIANTS - 1 }, (_, i) => i + 2).map(n => <option key={n} value={n}>{n} แบบ</option>)}
+                      </select>
+                      <button
+                        onClick={generateVariants}
+                        disabled={isGeneratingVariants || isHooking || isDialectHooking || isRegenerating}
+                        className="px-3 py-1 rounded-lg text-[10px] font-bold bg-orange-500 text-white hover:bg-orange-600 transition-all disabled:opacity-40 flex items-center"
+                      >
+                        {isGeneratingVariants && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin mr-1.5"></div>}
+                        {isGeneratingVariants ? 'กำลังสร้าง...' : 'สร้าง Hook'}
+                      </button>
+                    </div>
+                  </div>
+
+                  {hookVariants.length === 0 ? (
+                    <p className="text-xs text-slate-400">สร้าง Hook หลายแบบพร้อมกัน พากย์เสียงแต่ละแบบ แล้วฟังเทียบกันก่อนเลือกใช้</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-96 overflow-y-auto">
+                      {hookVariants.map((variant, index) => {
+                        const voiced = hookVoices[variant.id];
+                        const isVoicing = voicingVariantIds.includes(variant.id);
+                        const targetDuration = settings.customDuration || videoDuration;
+                        const estimated = estimateSpokenDuration(variant.text, { ...settings, dialect: variant.dialect });
+                        const actual = voiced?.track.placements[0]?.duration;
+                        const lostTerms = findTermViolations(translatedText, variant.text, activeGlossary);
+                        return (
+                          <div key={variant.id} className={`flex flex-col gap-2 p-3 rounded-xl border ${previewVariantId === variant.id ? 'bg-orange-50 border-orange-200' : 'bg-slate-50 border-slate-100'}`}>
+                            <div className="flex items-center justify-between gap-2">
+                              <p className="text-[10px] font-bold text-slate-500 truncate">
+                                <span className="text-orange-600">Hook {variantLabel(index)}</span>
+                                {variant.angle && ` • ${variant.angle}`}
+                                {` • ${languageProfile.dialects.find(d => d.id === variant.dialect)?.label || variant.dialect}`}
+                              </p>
+                              <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400 whitespace-nowrap">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedVariantIds.includes(variant.id)}
+                                  onChange={() => toggleVariantSelection(variant.id)}
+                                  disabled={!voiced}
+                                  className="accent-orange-500"
+                                />
+                                ส่งออก
+                              </label>
+                            </div>
+                            <p className="text-xs text-slate-600 flex-1">{variant.text}</p>
+                            {lostTerms.length > 0 && (
+                              <p className="text-[10px] font-bold text-amber-600">
+                                คำล็อกหายไป: {lostTerms.map(v => v.entry.source.trim()).join(', ')}
+                              </p>
+                            )}
+                            <p className="text-[10px] font-mono text-slate-400">
+                              <span className={estimated > targetDuration ? 'text-red-500 font-bold' : ''}>~{estimated.toFixed(1)}s</span>
+                              {` / ${targetDuration.toFixed(1)}s`}
+                              {actual !== undefined && <span className={actual > targetDuration ? 'text-red-500 font-bold' : 'text-emerald-600'}>{` • พากย์จริง ${actual.toFixed(1)}s`}</span>}
+                            </p>
+                            <div className="flex flex-wrap gap-1.5">
+                              <button onClick={() => voiceVariant(variant)} disabled={isVoicing || isRegenerating} className="px-2.5 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-40">
+                                {isVoicing ? 'กำลังพากย์...' : voiced ? 'พากย์ใหม่' : 'พากย์'}
+                              </button>
+                              <button onClick={() => previewVariantId === variant.id ? stopVariantPreview() : previewVariant(variant)} disabled={!voiced} className="px-2.5 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-all disabled:opacity-40">
+                                {previewVariantId === variant.id ? 'หยุด' : 'ฟัง'}
+                              </button>
+                              <button onClick={() => applyHookVariant(variant)} disabled={isHooking || isDialectHooking || isRegenerating} className="px-2.5 py-1 rounded-lg text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:border-orange-300 hover:text-orange-600 transition-all disabled:opacity-40">ใช้อันนี้</button>
+                              <button onClick={() => removeHookVariant(variant.id)} className="px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-400 hover:text-red-500 transition-all">ลบ</button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {Object.keys(hookVoices).length > 0 && (
+                    <div className="flex items-center justify-between gap-2 mt-3 pt-3 border-t border-slate-100">
+                      <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500">
+                        <input type="checkbox" checked={includeVideoInZip} onChange={(e) => setIncludeVideoInZip(e.target.checked)} className="accent-orange-500" />
+                        รวมวิดีโอ MP4
+                      </label>
+                      <button
+                        onClick={exportHookAB}
+                        disabled={!!hookExportProgress || selectedVariantIds.length === 0}
+                        className="px-3 py-1.5 rounded-lg text-[10px] font-bold bg-slate-800 text-white hover:bg-slate-900 transition-all disabled:opacity-40"
+                      >
+                        {hookExportProgress ? `กำลังส่งออก ${hookExportProgress.done}/${hookExportProgress.total}` : `ส่งออก A/B (${selectedVariantIds.length} แบบ) .zip`}
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
-                  <button onClick={() => refreshVoice(translatedText)} disabled={isRegenerating || isHooking || isIsanHooking} className="bg-slate-100 text-slate-700 py-4 rounded-2xl font-bold hover:bg-slate-200 transition-all disabled:opacity-50 flex flex-col items-center justify-center leading-tight text-center">
+                  <button onClick={() => refreshVoice(segments)} disabled={isRegenerating || isHooking || isDialectHooking} className="bg-slate-100 text-slate-700 py-4 rounded-2xl font-bold hover:bg-slate-200 transition-all disabled:opacity-50 flex flex-col items-center justify-center leading-tight text-center">
                     <span>เจ็นเสียงพากย์ใหม่</span>
                     <span className="text-[10px] font-normal opacity-60">(หลังแก้คำแปล)</span>
                   </button>
                   <button
                     onClick={isPlaying ? stopTranslation : () => videoRef.current?.play()}
-                    disabled={isRegenerating || isHooking || isIsanHooking || !currentAudioBuffer}
+                    disabled={isRegenerating || isHooking || isDialectHooking || !currentAudioBuffer}
                     className={`${isPlaying ? 'bg-red-500' : 'bg-indigo-600'} text-white py-4 rounded-2xl font-bold hover:opacity-90 transition-all shadow-lg flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed`}
                   >
-                    {isPlaying ? (<><svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>หยุดเล่น</>) : (<><svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>พรีวิวพากย์ไทย</>)}
+                    {isPlaying ? (<><svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>หยุดเล่น</>) : (<><svg className="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>พรีวิวพากย์{languageProfile.label}</>)}
                   </button>
                 </div>
               </div>
@@ -0,0 +1,47 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+export type HttpError = Error & { status: number; retryAfter?: number };
+
+// ข้อผิดพลาดที่ตั้งใจส่งให้ผู้ใช้เห็น พร้อมรหัสสถานะ HTTP
+export const httpError = (status: number, message: string, retryAfter?: number): HttpError =>
+  Object.assign(new Error(message), { name: 'HttpError', status, retryAfter });
+
+export const isHttpError = (e: unknown): e is HttpError => e instanceof Error && e.name === 'HttpError';
+
+// อ่าน body ทั้งหมด แต่หยุดทันทีที่เกินขนาดที่กำหนด (ไม่รอให้ไฟล์ใหญ่ส่งมาจนจบ)
+export const readBody = (req: IncomingMessage, maxBytes: number) => new Promise<Buffer>((resolve, reject) => {
+  const tooLarge = () => httpError(413, `คำขอมีขนาดใหญ่เกินไป (จำกัด ${Math.round(maxBytes / 1024)}KB)`);
+  if (Number(req.headers['content-length'] || 0) > maxBytes) return reject(tooLarge());
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      req.removeAllListeners('data');
+      reject(tooLarge());
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// ทุก endpoint รับ body เป็นออบเจกต์ JSON จึงปฏิเสธ null, array และค่าเดี่ยวตั้งแต่ตรงนี้
+export const readJson = async (req: IncomingMessage, maxBytes: number): Promise<Record<string, any>> => {
+  const body = await readBody(req, maxBytes);
+  let data: unknown;
+  try {
+    data = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw httpError(400, 'รูปแบบ JSON ไม่ถูกต้อง');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw httpError(400, 'body ต้องเป็นออบเจกต์ JSON');
+  return data as Record<string, any>;
+};
+
+export const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+};
@@ -0,0 +1,336 @@
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { createReadStream, existsSync, statSync } from "node:fs";
+import path from "node:path";
+import { ModelTask, TaskModelConfig, VideoInput } from "../types";
+import { createGeminiProvider } from "../services/geminiProvider";
+import { CHUNK_SIZE, FILES_API_MAX_BYTES } from "../services/fileUploadService";
+import { LANGUAGE_PROFILES } from "../services/languageProfiles";
+import { validateTaskModel } from "../services/modelCatalog";
+import { isPrebuiltVoice } from "../services/voiceCatalog";
+import { httpError, isHttpError, readBody, readJson, sendJson } from "./http";
+import { createMediaFetcher } from "./mediaFetch";
+import { MediaResolverId } from "./mediaResolvers";
+import { createRateLimiter, RateLimitSpec } from "./rateLimiter";
+import { createUploadRelay } from "./uploadRelay";
+
+// เซิร์ฟเวอร์กลางที่ถือ API key ของ Gemini ไว้ฝั่งเซิร์ฟเวอร์ เบราว์เซอร์เรียกผ่าน /api/* แทนการเรียก Gemini ตรง
+// endpoint ตรงกับงานใน geminiService: แปลวิดีโอ (translate), เขียน Hook/ข้อความใหม่ (hook) และพากย์เสียง (tts)
+// และดึงวิดีโอจากลิงก์ (media/fetch) แทนการเรียกบริการดาวน์โหลดสาธารณะจากเบราว์เซอร์
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // ไม่มีไฟล์ก็ใช้ตัวแปรแวดล้อมของระบบ
+}
+
+const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
+if (!API_KEY) {
+  console.error('ต้องตั้งค่า GEMINI_API_KEY ก่อนเปิดเซิร์ฟเวอร์');
+  process.exit(1);
+}
+// โค้ดใน services/ อ่าน key จาก process.env.API_KEY ตอนเรียกใช้
+process.env.API_KEY = API_KEY;
+
+const PORT = Number(process.env.PORT || 8787);
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR || 'dist');
+// อยู่หลัง reverse proxy: ใช้ IP จาก X-Forwarded-For ในการแยกผู้ใช้ ค่าเป็นจำนวน proxy ที่เชื่อถือได้ (true = 1)
+// ผู้ใช้เขียนรายการซ้ายสุดเองได้ จึงนับจากขวา: รายการที่ proxy ตัวนอกสุดของเราเติมไว้คือ IP ของผู้ใช้จริง
+const TRUST_PROXY_HOPS = process.env.TRUST_PROXY === 'true' ? 1 : Number(process.env.TRUST_PROXY || 0);
+if (!Number.isInteger(TRUST_PROXY_HOPS) || TRUST_PROXY_HOPS < 0) {
+  console.error(`TRUST_PROXY ต้องเป็น true หรือจำนวนเต็ม (ได้ "${process.env.TRUST_PROXY}")`);
+  process.exit(1);
+}
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const RATE_LIMIT_SCALE = Number(process.env.RATE_LIMIT_SCALE || 1);
+if (!Number.isFinite(RATE_LIMIT_SCALE) || RATE_LIMIT_SCALE <= 0) {
+  console.error(`RATE_LIMIT_SCALE ต้องเป็นตัวเลขมากกว่า 0 (ได้ "${process.env.RATE_LIMIT_SCALE}")`);
+  process.exit(1);
+}
+
+// PROXY_TOKENS="alice:token1,bob:token2" บังคับให้ทุกคำขอมีโทเค็น และนับโควต้าแยกตามชื่อผู้ใช้
+const USER_TOKENS = new Map(
+  (process.env.PROXY_TOKENS || '').split(',').map(entry => entry.trim()).filter(Boolean).map((entry, i) => {
+    const [name, token] = entry.includes(':') ? entry.split(/:(.*)/s) : [`user${i + 1}`, entry];
+    return [token, name] as [string, string];
+  })
+);
+
+const MAX_PROMPT_CHARS = 60000;
+const MAX_SPEECH_CHARS = 4000;
+// ภาษาไทยใช้ 3 ไบต์ต่ออักขระใน UTF-8 ขนาด body จึงคิดจากจำนวนอักขระสูงสุด x 3
+const UTF8_MAX_BYTES_PER_CHAR = 3;
+
+const MB = 1024 * 1024;
+// วิดีโอ inline ใหญ่สุด 14MB กลายเป็น base64 ราว 19MB
+const BODY_LIMITS = {
+  translate: 20 * MB,
+  hook: 256 * 1024,
+  // text + prompt (2 เท่า) + instructions และฟิลด์อื่นอีกเล็กน้อย
+  tts: MAX_SPEECH_CHARS * 4 * UTF8_MAX_BYTES_PER_CHAR + 16 * 1024,
+  upload: 4 * 1024,
+  chunk: CHUNK_SIZE,
+  media: 4 * 1024
+};
+
+type LimitBucket = 'translate' | 'hook' | 'tts' | 'upload' | 'media';
+
+// TTS เรียกทีละประโยคจึงได้โควต้ามากกว่า; upload นับทีละ chunk (ไฟล์ 2GB = 256 chunk)
+const RATE_LIMITS: Record<LimitBucket, RateLimitSpec> = {
+  translate: { capacity: 10, perMinute: 4 },
+  hook: { capacity: 30, perMinute: 15 },
+  tts: { capacity: 120, perMinute: 60 },
+  upload: { capacity: 300, perMinute: 120 },
+  media: { capacity: 10, perMinute: 5 }
+};
+
+const limiters = Object.fromEntries(
+  Object.entries(RATE_LIMITS).map(([bucket, spec]) => [
+    bucket,
+    createRateLimiter({ capacity: spec.capacity * RATE_LIMIT_SCALE, perMinute: spec.perMinute * RATE_LIMIT_SCALE })
+  ])
+) as Record<LimitBucket, ReturnType<typeof createRateLimiter>>;
+
+const gemini = createGeminiProvider();
+const uploads = createUploadRelay();
+
+const listEnv = (value: string | undefined) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+// MEDIA_RESOLVERS กำหนดลำดับตัวแปลงลิงก์ (direct = ลิงก์ไฟล์ตรง, ytdlp = โปรแกรมแบบ yt-dlp, cobalt = อินสแตนซ์ Cobalt ของเราเอง)
+const media = createMediaFetcher({
+  resolvers: listEnv(process.env.MEDIA_RESOLVERS || 'direct,ytdlp,cobalt') as MediaResolverId[],
+  ytdlpPath: process.env.YTDLP_PATH || 'yt-dlp',
+  cobaltInstances: listEnv(process.env.COBALT_API_URL),
+  cobaltApiKey: process.env.COBALT_API_KEY,
+  maxBytes: Number(process.env.MEDIA_MAX_BYTES || FILES_API_MAX_BYTES),
+  maxDuration: Number(process.env.MEDIA_MAX_DURATION || 60 * 60)
+});
+
+const identify = (req: IncomingMessage): string => {
+  if (USER_TOKENS.size) {
+    const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+    const user = token && USER_TOKENS.get(token);
+    if (!user) throw httpError(401, 'ต้องใช้โทเค็นที่ถูกต้องเพื่อเรียกเซิร์ฟเวอร์นี้');
+    return `user:${user}`;
+  }
+  const hops = String(req.headers['x-forwarded-for'] || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  const forwarded = TRUST_PROXY_HOPS > 0 && hops.length >= TRUST_PROXY_HOPS ? hops[hops.length - TRUST_PROXY_HOPS] : '';
+  return `ip:${forwarded || req.socket.remoteAddress}`;
+};
+
+const consume = (user: string, bucket: LimitBucket) => {
+  const wait = limiters[bucket].take(user);
+  if (wait > 0) throw httpError(429, `เรียกใช้บ่อยเกินไป กรุณารอ ${wait} วินาที`, wait);
+};
+
+// ---------- ตรวจรูปแบบคำขอ ----------
+
+const requireString = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== 'string' || !value.trim()) throw httpError(400, `ไม่มี ${field}`);
+  if (value.length > maxLength) throw httpError(413, `${field} ยาวเกินไป (จำกัด ${maxLength} ตัวอักษร)`);
+  return value;
+};
+
+const requireGeneration = (task: ModelTask, value: any): TaskModelConfig => {
+  if (!value || typeof value.model !== 'string' || typeof value.temperature !== 'number' ||
+      (value.thinkingBudget !== null && typeof value.thinkingBudget !== 'number')) {
+    throw httpError(400, 'การตั้งค่าโมเดลไม่ถูกต้อง');
+  }
+  const generation: TaskModelConfig = { model: value.model, temperature: value.temperature, thinkingBudget: value.thinkingBudget };
+  const error = validateTaskModel(task, generation);
+  if (error) throw httpError(400, error);
+  return generation;
+};
+
+const requireLanguage = (value: unknown) => {
+  if (typeof value !== 'string' || !(value in LANGUAGE_PROFILES)) throw httpError(400, 'ไม่รองรับภาษานี้');
+  return value as keyof typeof LANGUAGE_PROFILES;
+};
+
+const requireSchema = (value: unknown) => {
+  if (!value || typeof value !== 'object') throw httpError(400, 'schema ไม่ถูกต้อง');
+  return value as object;
+};
+
+const requireVideo = (user: string, value: any): VideoInput => {
+  const mimeType = requireString(value?.mimeType, 'mimeType', 100);
+  if (!/^(video|audio)\//.test(mimeType)) throw httpError(415, 'รองรับเฉพาะไฟล์วิดีโอหรือเสียง');
+  if (value.kind === 'inline') return { kind: 'inline', data: requireString(value.data, 'video', BODY_LIMITS.translate), mimeType };
+  const file = value.kind === 'file' && typeof value.name === 'string' ? uploads.getFile(user, value.name) : null;
+  if (file?.kind === 'file') {
+    if (value.uri !== file.uri) throw httpError(400, 'ข้อมูลไฟล์ที่อัปโหลดไม่ตรงกัน กรุณาอัปโหลดใหม่');
+    return file;
+  }
+  throw httpError(400, 'ไม่พบวิดีโอที่อัปโหลดไว้ กรุณาอัปโหลดใหม่');
+};
+
+// ---------- endpoint ----------
+
+const handleTranslate = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  consume(user, 'translate');
+  const body = await readJson(req, BODY_LIMITS.translate);
+  const clip = body.clip && Number.isFinite(body.clip.start) && Number.isFinite(body.clip.end)
+    ? { start: Number(body.clip.start), end: Number(body.clip.end) }
+    : undefined;
+  const text = await gemini.translateVideo({
+    video: requireVideo(user, body.video),
+    prompt: requireString(body.prompt, 'prompt', MAX_PROMPT_CHARS),
+    schema: requireSchema(body.schema),
+    generation: requireGeneration('translation', body.generation),
+    targetLanguage: requireLanguage(body.targetLanguage),
+    clip,
+    duration: Number.isFinite(body.duration) ? body.duration : undefined
+  });
+  sendJson(res, 200, { text });
+};
+
+const handleHook = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  consume(user, 'hook');
+  const body = await readJson(req, BODY_LIMITS.hook);
+  const text = await gemini.rewrite({
+    prompt: requireString(body.prompt, 'prompt', MAX_PROMPT_CHARS),
+    generation: requireGeneration('hook', body.generation),
+    targetLanguage: requireLanguage(body.targetLanguage),
+    schema: body.schema ? requireSchema(body.schema) : undefined
+  });
+  sendJson(res, 200, { text });
+};
+
+const handleSpeech = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  consume(user, 'tts');
+  const body = await readJson(req, BODY_LIMITS.tts);
+  const voiceName = requireString(body.voiceName, 'voiceName', 50);
+  if (!isPrebuiltVoice(voiceName)) throw httpError(400, `ไม่พบเสียง ${voiceName}`);
+  if (body.gender !== 'male' && body.gender !== 'female') throw httpError(400, 'gender ไม่ถูกต้อง');
+
+  const { pcm, sampleRate } = await gemini.synthesize({
+    text: requireString(body.text, 'text', MAX_SPEECH_CHARS),
+    prompt: requireString(body.prompt, 'prompt', MAX_SPEECH_CHARS * 2),
+    instructions: typeof body.instructions === 'string' ? body.instructions.slice(0, MAX_SPEECH_CHARS) : '',
+    voiceName,
+    gender: body.gender,
+    targetLanguage: requireLanguage(body.targetLanguage),
+    generation: requireGeneration('speech', body.generation),
+    duration: Number.isFinite(body.duration) ? body.duration : undefined
+  });
+  res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'X-Sample-Rate': String(sampleRate) });
+  res.end(Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength));
+};
+
+const handleUploadStart = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  consume(user, 'upload');
+  const body = await readJson(req, BODY_LIMITS.upload);
+  const id = await uploads.start(user, Number(body.size), requireString(body.mimeType, 'mimeType', 100), String(body.displayName || 'video'));
+  sendJson(res, 200, { id });
+};
+
+const handleUploadChunk = async (req: IncomingMessage, res: ServerResponse, user: string, id: string, url: URL) => {
+  consume(user, 'upload');
+  const offset = Number(url.searchParams.get('offset'));
+  if (!Number.isInteger(offset) || offset < 0) throw httpError(400, 'offset ไม่ถูกต้อง');
+  const chunk = await readBody(req, BODY_LIMITS.chunk);
+  // เบราว์เซอร์ตัดการเชื่อมต่อ = เลิกรอ Files API (ส่ง chunk ซ้ำทีหลังได้)
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+  sendJson(res, 200, await uploads.put(user, id, offset, chunk, controller.signal));
+};
+
+const handleMediaFetch = async (req: IncomingMessage, res: ServerResponse, user: string) => {
+  consume(user, 'media');
+  const body = await readJson(req, BODY_LIMITS.media);
+  await media.fetchMedia(requireString(body.url, 'url', 2000), res);
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  if (url.pathname === '/api/health') return sendJson(res, 200, { ok: true });
+
+  const user = identify(req);
+  const route = `${req.method} ${url.pathname}`;
+  const uploadMatch = /^\/api\/upload\/([\w-]+)$/.exec(url.pathname);
+  const fileMatch = /^\/api\/(files\/[\w-]+)$/.exec(url.pathname);
+
+  if (route === 'POST /api/translate') return handleTranslate(req, res, user);
+  if (route === 'POST /api/hook') return handleHook(req, res, user);
+  if (route === 'POST /api/tts') return handleSpeech(req, res, user);
+  if (route === 'POST /api/media/fetch') return handleMediaFetch(req, res, user);
+  if (route === 'POST /api/upload') return handleUploadStart(req, res, user);
+  if (uploadMatch && req.method === 'PUT') return handleUploadChunk(req, res, user, uploadMatch[1], url);
+  if (uploadMatch && req.method === 'GET') return sendJson(res, 200, uploads.status(user, uploadMatch[1]));
+  if (fileMatch && req.method === 'DELETE') {
+    await uploads.remove(user, fileMatch[1]);
+    return sendJson(res, 200, { ok: true });
+  }
+  throw httpError(404, 'ไม่พบ endpoint นี้');
+};
+
+// ---------- ไฟล์หน้าเว็บที่บิลด์แล้ว (ถ้ามี) ----------
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm'
+};
+
+const serveStatic = (res: ServerResponse, url: URL) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.pathname);
+  } catch {
+    throw httpError(400, 'เส้นทางไม่ถูกต้อง');
+  }
+  const requested = path.resolve(STATIC_DIR, '.' + pathname);
+  const insideRoot = requested.startsWith(STATIC_DIR + path.sep);
+  // หน้าเว็บเป็น single-page app: เส้นทางที่ไม่ใช่ไฟล์ส่ง index.html
+  const file = insideRoot && existsSync(requested) && statSync(requested).isFile() ? requested : path.join(STATIC_DIR, 'index.html');
+  if (!existsSync(file)) throw httpError(404, 'ไม่พบไฟล์');
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+};
+
+const sendError = (res: ServerResponse, e: any) => {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  // ข้อผิดพลาดจาก Gemini: ส่ง 429 ต่อให้ฝั่งเบราว์เซอร์ลองใหม่ได้ ที่เหลือถือเป็นปัญหาของบริการปลายทาง
+  const status = isHttpError(e) ? e.status : e?.status === 429 ? 429 : 502;
+  if (!isHttpError(e)) console.error('[proxy]', e);
+  if (e?.retryAfter) res.setHeader('Retry-After', String(e.retryAfter));
+  // คำขอที่ใหญ่เกินถูกตัดกลางทาง ปิดการเชื่อมต่อเพื่อไม่ต้องรับส่วนที่เหลือ
+  if (status === 413) res.setHeader('Connection', 'close');
+  sendJson(res, status, { error: e?.message || 'เกิดข้อผิดพลาดที่เซิร์ฟเวอร์' });
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Sample-Rate, Retry-After, X-Media-Name, X-Media-Platform, X-Media-Duration, X-Media-Size');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+  }
+
+  try {
+    if (url.pathname.startsWith('/api/')) await handleApi(req, res, url);
+    else if (req.method === 'GET') serveStatic(res, url);
+    else throw httpError(405, 'ไม่รองรับคำขอนี้');
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+// การแปลวิดีโอยาวและการรอไฟล์ประมวลผลใช้เวลานาน
+server.requestTimeout = 15 * 60 * 1000;
+
+server.listen(PORT, () => {
+  console.log(`VocalBridge proxy: http://localhost:${PORT} (${USER_TOKENS.size ? `${USER_TOKENS.size} ผู้ใช้แบบโทเค็น` : 'จำกัดตาม IP'})`);
+});
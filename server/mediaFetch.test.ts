@@ -0,0 +1,39 @@
+import { ServerResponse } from "node:http";
+import { describe, expect, it } from "vitest";
+import { createMediaFetcher, isPrivateAddress } from "./mediaFetch";
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+    '::1', '::', 'fe80::1', 'fc00::1', 'fd12::1', 'fec0::1', 'ff02::1',
+    // IPv4 ที่ห่อใน IPv6 ทั้งแบบจุดและแบบเลขฐานสิบหกที่ Node เขียนให้
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a9fe:a9fe', '[::ffff:7f00:1]', '[::ffff:a9fe:a9fe]',
+    '::127.0.0.1', '64:ff9b::a9fe:a9fe', '64:ff9b::7f00:1', '2002:7f00:1::1', '2001:0:4136:e378::1',
+    'localhost', 'not-an-ip'
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8', '[2001:4860:4860::8888]'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('createMediaFetcher', () => {
+  // ytdlp ชี้ไปที่โปรแกรมที่ไม่มีอยู่ ถ้าลิงก์หลุดไปถึง yt-dlp จะได้ 502 แทน 403
+  const fetcher = createMediaFetcher({
+    resolvers: ['ytdlp', 'direct'], ytdlpPath: '/nonexistent/yt-dlp', cobaltInstances: [], maxBytes: 1e9, maxDuration: 3600
+  });
+  const res = { on: () => res } as unknown as ServerResponse;
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::ffff:127.0.0.1]/x.mp4',
+    'http://[::ffff:169.254.169.254]/latest',
+    'http://[::ffff:7f00:1]/x.mp4',
+    'http://[64:ff9b::a9fe:a9fe]/latest',
+    'http://localhost/x.mp4'
+  ])('rejects %s before any resolver runs', async url => {
+    await expect(fetcher.fetchMedia(url, res)).rejects.toMatchObject({ status: 403 });
+  });
+});
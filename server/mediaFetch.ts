@@ -0,0 +1,320 @@
+import { lookup as dnsLookup } from "node:dns";
+import { lookup as dnsLookupAll } from "node:dns/promises";
+import http, { ServerResponse } from "node:http";
+import https from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { httpError } from "./http";
+import {
+  createCobaltResolver,
+  createDirectResolver,
+  createYtdlpResolver,
+  isMediaError,
+  MediaErrorKind,
+  mediaError,
+  MediaPlatform,
+  MediaResolver,
+  MediaResolverId,
+  ResolvedMedia
+} from "./mediaResolvers";
+
+export interface MediaFetchOptions {
+  // ลำดับตัวแปลงลิงก์ที่จะลอง
+  resolvers: MediaResolverId[];
+  ytdlpPath: string;
+  cobaltInstances: string[];
+  cobaltApiKey?: string;
+  maxBytes: number;
+  maxDuration: number;
+}
+
+const PLATFORM_HOSTS: [MediaPlatform, RegExp][] = [
+  ['youtube', /(^|\.)(youtube\.com|youtu\.be)$/],
+  ['tiktok', /(^|\.)tiktok\.com$/],
+  ['instagram', /(^|\.)instagram\.com$/],
+  ['facebook', /(^|\.)(facebook\.com|fb\.watch)$/],
+  ['x', /(^|\.)(twitter\.com|x\.com)$/],
+  ['bilibili', /(^|\.)(bilibili\.com|b23\.tv)$/],
+  ['douyin', /(^|\.)(douyin\.com|iesdouyin\.com)$/]
+];
+
+const PLATFORM_LABELS: Record<MediaPlatform, string> = {
+  youtube: 'YouTube', tiktok: 'TikTok', instagram: 'Instagram', facebook: 'Facebook',
+  x: 'X (Twitter)', bilibili: 'Bilibili', douyin: 'Douyin', other: 'ลิงก์นี้'
+};
+
+export const detectPlatform = (url: URL): MediaPlatform =>
+  PLATFORM_HOSTS.find(([, pattern]) => pattern.test(url.hostname.toLowerCase()))?.[0] || 'other';
+
+// คำแนะนำเฉพาะแพลตฟอร์มสำหรับปัญหาที่พบบ่อย
+const PLATFORM_HINTS: Partial<Record<MediaPlatform, Partial<Record<MediaErrorKind, string>>>> = {
+  youtube: {
+    age: 'วิดีโอจำกัดอายุต้องล็อกอินก่อนดู ดาวน์โหลดผ่านลิงก์ไม่ได้',
+    login: 'YouTube ขอให้ยืนยันตัวตน (เช่น "Sign in to confirm you\'re not a bot") ผู้ดูแลเซิร์ฟเวอร์ต้องตั้งค่า cookies ให้ yt-dlp'
+  },
+  tiktok: {
+    private: 'บัญชีนี้ตั้งเป็นส่วนตัว หรือวิดีโอถูกจำกัดให้เฉพาะเพื่อนดู',
+    region: 'TikTok จำกัดวิดีโอนี้ตามภูมิภาค'
+  },
+  instagram: {
+    login: 'Instagram ต้องล็อกอินเพื่อดูโพสต์นี้ ลองใช้ลิงก์ Reels สาธารณะ',
+    private: 'บัญชี Instagram นี้เป็นส่วนตัว'
+  },
+  facebook: {
+    login: 'วิดีโอ Facebook นี้ไม่ได้ตั้งเป็นสาธารณะ',
+    private: 'วิดีโอ Facebook นี้ไม่ได้ตั้งเป็นสาธารณะ'
+  },
+  x: {
+    login: 'โพสต์นี้จำกัดให้เฉพาะผู้ที่ล็อกอินหรือผู้ติดตาม'
+  },
+  douyin: {
+    region: 'Douyin มักจำกัดการเข้าถึงจากนอกประเทศจีน'
+  }
+};
+
+const ERROR_MESSAGES: Record<MediaErrorKind, (platform: string) => string> = {
+  private: p => `วิดีโอจาก ${p} เป็นแบบส่วนตัว`,
+  login: p => `${p} ต้องล็อกอินก่อนจึงจะดูวิดีโอนี้ได้`,
+  age: p => `วิดีโอจาก ${p} จำกัดอายุผู้ชม`,
+  region: p => `วิดีโอจาก ${p} ไม่เปิดให้ดูในประเทศของเซิร์ฟเวอร์`,
+  unavailable: p => `ไม่พบวิดีโอจาก ${p} (อาจถูกลบหรือลิงก์ผิด)`,
+  unsupported: p => `ยังไม่รองรับการดึงวิดีโอจาก ${p}`,
+  blocked: () => 'ไม่อนุญาตให้ดึงวิดีโอจากเครือข่ายภายใน',
+  tooLarge: () => 'วิดีโอจากลิงก์มีขนาดใหญ่เกินไป',
+  tooLong: () => 'วิดีโอจากลิงก์ยาวเกินไป',
+  failed: p => `ดึงวิดีโอจาก ${p} ไม่สำเร็จ`
+};
+
+const ERROR_STATUS: Record<MediaErrorKind, number> = {
+  private: 403, login: 403, age: 403, region: 451, unavailable: 404,
+  unsupported: 422, blocked: 403, tooLarge: 413, tooLong: 413, failed: 502
+};
+
+const toHttpError = (platform: MediaPlatform, kind: MediaErrorKind, detail?: string) => {
+  const hint = PLATFORM_HINTS[platform]?.[kind];
+  const message = [ERROR_MESSAGES[kind](PLATFORM_LABELS[platform]), hint || detail].filter(Boolean).join(': ');
+  return httpError(ERROR_STATUS[kind], message);
+};
+
+// ---------- กันไม่ให้ผู้ใช้สั่งเซิร์ฟเวอร์ไปดึงข้อมูลในเครือข่ายภายใน ----------
+
+// ช่วง IP ที่ห้ามดึง ใช้ BlockList เพราะ Node เขียน IPv4 ที่ห่อใน IPv6 (::ffff:127.0.0.1) เป็นเลขฐานสิบหก (::ffff:7f00:1)
+// และ BlockList เทียบที่อยู่แบบนั้นกับช่วง IPv4 ให้เอง
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+// นอกจากช่วงภายในของ IPv6 เอง ยังบล็อกช่วงที่ห่อ IPv4 ไว้ข้างใน (IPv4-compatible, NAT64, 6to4, Teredo) ทั้งช่วง
+// เพราะปลายทางจริงอาจเป็น IPv4 ภายในที่ตรวจจากรูปแบบ IPv6 ไม่ได้
+for (const [network, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32], ['2002::', 16],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+] as const) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+
+export const isPrivateAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '');
+  const family = isIP(host);
+  // ไม่ใช่ IP ที่อ่านได้ ถือว่าไม่ปลอดภัยไว้ก่อน
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(host, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+const blockedError = () => mediaError('blocked', 'ไม่อนุญาตให้ดึงจากเครือข่ายภายใน');
+
+// ตรวจ IP ตอนเชื่อมต่อจริง แล้วเชื่อมต่อกับ IP ที่ตรวจแล้วนั้นเลย (ถ้าตรวจก่อนแล้วให้ fetch resolve ซ้ำ
+// โดเมนที่สลับ IP ระหว่างสองครั้ง (DNS rebinding) จะพาเข้าเครือข่ายภายในได้)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (!addresses.length) return callback(Object.assign(new Error(`ไม่พบโดเมน ${hostname}`), { code: 'ENOTFOUND' }), '');
+    if (addresses.some(a => isPrivateAddress(a.address))) return callback(blockedError(), '');
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// ตรวจโฮสต์ของลิงก์ที่ผู้ใช้ส่งมาก่อนส่งให้ตัวแปลงลิงก์ เพราะ yt-dlp และ Cobalt ดึงหน้าเว็บเองโดยไม่ผ่าน publicLookup
+const assertPublicHost = async (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw mediaError('unsupported', 'รองรับเฉพาะลิงก์ http/https');
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [{ address: host }] : await dnsLookupAll(host, { all: true }).catch(() => []);
+  if (addresses.some(a => isPrivateAddress(a.address))) throw blockedError();
+};
+
+// สตรีมของ Node → ReadableStream สำหรับ Response (อ่านทีละ chunk ตามที่ผู้ใช้ดึง)
+const toWebStream = (stream: Readable) => {
+  const chunks = stream[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(new Uint8Array(value));
+    },
+    async cancel() {
+      await chunks.return?.();
+    }
+  });
+};
+
+// คำขอ GET ครั้งเดียว (ไม่ตาม redirect) ผ่าน publicLookup
+const requestOnce = (url: URL, init: RequestInit) => new Promise<Response>((resolve, reject) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return reject(mediaError('unsupported', 'รองรับเฉพาะลิงก์ http/https'));
+  // IP ที่เขียนในลิงก์ตรงๆ ไม่ผ่าน lookup จึงตรวจที่นี่
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) return reject(blockedError());
+
+  const client = url.protocol === 'https:' ? https : http;
+  const request = client.request(url, {
+    method: init.method || 'GET',
+    headers: Object.fromEntries(new Headers(init.headers)),
+    lookup: publicLookup,
+    signal: init.signal || undefined
+  }, response => {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(response.headers)) {
+      for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) headers.append(name, item);
+    }
+    const status = response.statusCode || 502;
+    const hasBody = status !== 204 && status !== 304 && request.method !== 'HEAD';
+    if (!hasBody) response.resume();
+    const result = new Response(hasBody ? toWebStream(response) : null, { status, headers });
+    // Response ที่สร้างเองไม่มี url ปลายทาง จึงเก็บไว้เองเพื่อให้ตัวแปลงลิงก์ใช้ต่อ
+    Object.defineProperty(result, 'url', { value: url.toString() });
+    resolve(result);
+  });
+  request.on('error', (e: NodeJS.ErrnoException) => {
+    if (e.code === 'ENOTFOUND') reject(mediaError('unavailable', `ไม่พบโดเมน ${url.hostname}`));
+    else reject(e);
+  });
+  request.end();
+});
+
+const MAX_REDIRECTS = 5;
+
+// ทุกทอดของ redirect ผ่านการตรวจ IP ใหม่
+const safeFetch = async (target: string, init: RequestInit): Promise<Response> => {
+  let url = new URL(target);
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    const response = await requestOnce(url, init);
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+  throw mediaError('failed', 'redirect หลายทอดเกินไป');
+};
+
+// ReadableStream ของ fetch → สตรีมของ Node สำหรับ pipe ไปยังเบราว์เซอร์
+async function* readChunks(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// ---------- ดาวน์โหลด ----------
+
+export const createMediaFetcher = (options: MediaFetchOptions) => {
+  const available: Record<MediaResolverId, () => MediaResolver> = {
+    direct: () => createDirectResolver(safeFetch),
+    ytdlp: () => createYtdlpResolver(options.ytdlpPath),
+    cobalt: () => createCobaltResolver(options.cobaltInstances, options.cobaltApiKey)
+  };
+  const resolvers = options.resolvers.filter(id => id in available).map(id => available[id]());
+
+  const formatLimit = (bytes: number) => bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(0)}GB` : `${Math.round(bytes / 1024 ** 2)}MB`;
+
+  const checkLimits = (platform: MediaPlatform, size: number | null, duration: number | null) => {
+    if (size !== null && size > options.maxBytes) {
+      throw toHttpError(platform, 'tooLarge', `${formatLimit(size)} (จำกัด ${formatLimit(options.maxBytes)})`);
+    }
+    if (duration !== null && duration > options.maxDuration) {
+      throw toHttpError(platform, 'tooLong', `${Math.round(duration / 60)} นาที (จำกัด ${Math.round(options.maxDuration / 60)} นาที)`);
+    }
+  };
+
+  // ลองตัวแปลงลิงก์ตามลำดับ ถ้าปัญหาอยู่ที่ตัววิดีโอเอง (ส่วนตัว, ถูกลบ, ...) หยุดทันทีเพราะตัวอื่นก็ดึงไม่ได้
+  // ลิงก์ที่ถูกบล็อกเพราะชี้เข้าเครือข่ายภายในก็หยุดทันที ไม่ส่งต่อให้ตัวแปลงที่ดึงเองโดยไม่ตรวจ IP
+  const resolve = async (url: URL, platform: MediaPlatform, signal: AbortSignal): Promise<ResolvedMedia> => {
+    try {
+      await assertPublicHost(url);
+    } catch (e) {
+      if (isMediaError(e)) throw toHttpError(platform, e.kind);
+      throw e;
+    }
+    let lastError: { kind: MediaErrorKind; detail: string } | null = null;
+    for (const resolver of resolvers.filter(r => r.canResolve(url, platform))) {
+      try {
+        return await resolver.resolve(url, platform, signal);
+      } catch (e) {
+        if (!isMediaError(e)) throw e;
+        console.warn(`[media] ${resolver.id}: ${e.message}`);
+        if (e.kind !== 'failed' && e.kind !== 'unsupported') throw toHttpError(platform, e.kind);
+        // เก็บข้อผิดพลาดที่เจาะจงที่สุดไว้แสดง (ดึงไม่สำเร็จ ชัดกว่า ไม่รองรับ)
+        if (!lastError || e.kind === 'failed') lastError = { kind: e.kind, detail: e.message };
+      }
+    }
+    throw toHttpError(platform, lastError?.kind || 'unsupported', lastError?.detail);
+  };
+
+  // ส่งไฟล์ต่อให้เบราว์เซอร์แบบสตรีม พร้อม Content-Length (ถ้ารู้) เพื่อให้แสดงความคืบหน้าได้
+  const fetchMedia = async (rawUrl: string, res: ServerResponse) => {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw httpError(400, 'ลิงก์ไม่ถูกต้อง');
+    }
+    const platform = detectPlatform(url);
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const media = await resolve(url, platform, controller.signal);
+    checkLimits(platform, media.size, media.duration);
+
+    let upstream: Response;
+    try {
+      upstream = await safeFetch(media.url, { headers: media.headers, signal: controller.signal });
+    } catch (e) {
+      if (isMediaError(e)) throw toHttpError(platform, e.kind, e.message);
+      throw toHttpError(platform, 'failed', 'เชื่อมต่อแหล่งไฟล์ไม่ได้');
+    }
+    if (!upstream.ok || !upstream.body) throw toHttpError(platform, 'failed', `HTTP ${upstream.status}`);
+
+    const length = Number(upstream.headers.get('content-length') || upstream.headers.get('estimated-content-length') || 0) || null;
+    checkLimits(platform, length, null);
+
+    const mimeType = media.mimeType || upstream.headers.get('content-type')?.split(';')[0] || 'video/mp4';
+    res.writeHead(200, {
+      'Content-Type': mimeType,
+      ...(upstream.headers.get('content-length') ? { 'Content-Length': String(length) } : {}),
+      'X-Media-Platform': platform,
+      'X-Media-Name': encodeURIComponent(media.title || `${PLATFORM_LABELS[platform]} ${url.hostname}`),
+      ...(media.duration !== null ? { 'X-Media-Duration': String(media.duration) } : {}),
+      ...(length && !upstream.headers.get('content-length') ? { 'X-Media-Size': String(length) } : {})
+    });
+
+    // ขนาดไม่ทราบล่วงหน้า (เช่น สตรีมจาก Cobalt) ตรวจระหว่างส่ง ถ้าเกินตัดการเชื่อมต่อ
+    let sent = 0;
+    const body = Readable.from(readChunks(upstream.body));
+    body.on('data', (chunk: Buffer) => {
+      sent += chunk.length;
+      if (sent > options.maxBytes) {
+        controller.abort();
+        body.destroy();
+        res.destroy();
+      }
+    });
+    body.on('error', () => res.destroy());
+    body.pipe(res);
+  };
+
+  return { fetchMedia };
+};
@@ -0,0 +1,228 @@
+import { spawn } from "node:child_process";
+import { ALL_FORMATS, Input, UrlSource } from "mediabunny";
+
+// ตัวแปลงลิงก์หน้าเว็บ (YouTube, TikTok, ...) เป็นลิงก์ไฟล์วิดีโอที่ดาวน์โหลดได้ตรง
+// แต่ละตัวเปลี่ยนได้ผ่าน MEDIA_RESOLVERS โดยลองตามลำดับจนกว่าจะมีตัวที่สำเร็จ
+
+export type MediaPlatform = 'youtube' | 'tiktok' | 'instagram' | 'facebook' | 'x' | 'bilibili' | 'douyin' | 'other';
+
+export type MediaErrorKind = 'private' | 'login' | 'age' | 'region' | 'unavailable' | 'unsupported' | 'blocked' | 'tooLarge' | 'tooLong' | 'failed';
+
+export type MediaError = Error & { kind: MediaErrorKind };
+
+export const mediaError = (kind: MediaErrorKind, detail: string): MediaError =>
+  Object.assign(new Error(detail), { name: 'MediaError', kind });
+
+export const isMediaError = (e: unknown): e is MediaError => e instanceof Error && e.name === 'MediaError';
+
+export interface ResolvedMedia {
+  url: string;
+  headers?: Record<string, string>;
+  mimeType: string | null;
+  title: string | null;
+  // null = ยังไม่รู้ ต้องตรวจจาก header ตอนดาวน์โหลด
+  size: number | null;
+  duration: number | null;
+}
+
+export type MediaResolverId = 'direct' | 'ytdlp' | 'cobalt';
+
+export interface MediaResolver {
+  id: MediaResolverId;
+  canResolve(url: URL, platform: MediaPlatform): boolean;
+  resolve(url: URL, platform: MediaPlatform, signal: AbortSignal): Promise<ResolvedMedia>;
+}
+
+// ดึงข้อมูลลิงก์โดยตรวจปลายทางทุกครั้งที่ redirect (ส่งมาจากโมดูลที่ตรวจเรื่องเครือข่ายภายใน)
+export type SafeFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv)$/i;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  mp4: 'video/mp4', m4v: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm', mkv: 'video/x-matroska'
+};
+
+const isMediaType = (type: string | null) => !!type && /^(video|audio)\/|^application\/octet-stream/.test(type);
+
+// ความยาววิดีโอจากส่วนหัวของไฟล์ ใช้ range request จึงไม่ต้องโหลดทั้งไฟล์
+// mediabunny ยิงคำขอเอง จึงส่ง safeFetch ให้ใช้แทน fetch ปกติ และไม่ลองซ้ำเมื่อถูกบล็อก
+const probeRemoteDuration = async (url: string, safeFetch: SafeFetch): Promise<number | null> => {
+  const source = new UrlSource(url, {
+    fetchFn: (input, init) => safeFetch(input instanceof Request ? input.url : input.toString(), init || {}),
+    getRetryDelay: () => null
+  });
+  const input = new Input({ source, formats: ALL_FORMATS });
+  try {
+    return await input.computeDuration();
+  } catch {
+    return null;
+  } finally {
+    input.dispose();
+  }
+};
+
+// ---------- ลิงก์ไฟล์วิดีโอโดยตรง ----------
+
+export const createDirectResolver = (safeFetch: SafeFetch): MediaResolver => ({
+  id: 'direct',
+  canResolve: (url, platform) => VIDEO_EXTENSIONS.test(url.pathname) || platform === 'other',
+
+  resolve: async (url, _platform, signal) => {
+    // บางเซิร์ฟเวอร์ไม่รับ HEAD จึงขอแค่ไบต์แรกแทน
+    const response = await safeFetch(url.toString(), { headers: { Range: 'bytes=0-0' }, signal });
+    await response.body?.cancel();
+    if (response.status === 404 || response.status === 410) throw mediaError('unavailable', `HTTP ${response.status}`);
+    if (response.status === 401 || response.status === 403) throw mediaError('login', `HTTP ${response.status}`);
+    if (!response.ok) throw mediaError('failed', `HTTP ${response.status}`);
+
+    const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || null;
+    if (!isMediaType(mimeType)) throw mediaError('unsupported', `ไม่ใช่ไฟล์วิดีโอ (${mimeType || 'ไม่ระบุชนิด'})`);
+
+    const range = /\/(\d+)$/.exec(response.headers.get('content-range') || '');
+    const length = response.status === 200 ? response.headers.get('content-length') : null;
+    const size = range ? Number(range[1]) : length ? Number(length) : null;
+    const extension = url.pathname.split('.').pop()?.toLowerCase() || '';
+
+    return {
+      url: response.url,
+      mimeType: mimeType === 'application/octet-stream' ? MIME_BY_EXTENSION[extension] || 'video/mp4' : mimeType,
+      title: decodeURIComponent(url.pathname.split('/').pop() || '') || null,
+      size,
+      duration: response.status === 206 ? await probeRemoteDuration(response.url, safeFetch) : null
+    };
+  }
+});
+
+// ---------- yt-dlp (หรือโปรแกรมที่ใช้คำสั่งแบบเดียวกัน) ----------
+
+const YTDLP_FORMAT = 'best[ext=mp4][vcodec!=none][acodec!=none][height<=720]/best[vcodec!=none][acodec!=none][height<=720]/best';
+const YTDLP_TIMEOUT_MS = 90 * 1000;
+const YTDLP_MAX_OUTPUT = 32 * 1024 * 1024;
+
+const classifyYtdlpError = (stderr: string): MediaErrorKind => {
+  if (/private video|video is private|this account is private/i.test(stderr)) return 'private';
+  if (/confirm your age|age.restricted|inappropriate for some users/i.test(stderr)) return 'age';
+  if (/not available in your country|geo.?restrict|not made this video available in your country/i.test(stderr)) return 'region';
+  if (/sign in|log in|login required|--cookies|authentication/i.test(stderr)) return 'login';
+  if (/unsupported url/i.test(stderr)) return 'unsupported';
+  if (/unavailable|has been removed|does not exist|not found|HTTP Error 404/i.test(stderr)) return 'unavailable';
+  return 'failed';
+};
+
+const runYtdlp = (binary: string, args: string[], signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+  const child = spawn(binary, args, { signal, timeout: YTDLP_TIMEOUT_MS, stdio: ['ignore', 'pipe', 'pipe'] });
+  let stdout = '';
+  let stderr = '';
+  child.stdout.on('data', chunk => {
+    stdout += chunk;
+    if (stdout.length > YTDLP_MAX_OUTPUT) child.kill();
+  });
+  child.stderr.on('data', chunk => { stderr = (stderr + chunk).slice(-8000); });
+  child.on('error', (e: any) => {
+    reject(e.code === 'ENOENT' ? mediaError('failed', `ไม่พบโปรแกรม ${binary} บนเซิร์ฟเวอร์`) : e);
+  });
+  child.on('close', code => {
+    if (code === 0) resolve(stdout);
+    else reject(mediaError(classifyYtdlpError(stderr), stderr.trim().split('\n').pop() || `${binary} exited with ${code}`));
+  });
+});
+
+export const createYtdlpResolver = (binary: string): MediaResolver => ({
+  id: 'ytdlp',
+  canResolve: url => !VIDEO_EXTENSIONS.test(url.pathname),
+
+  resolve: async (url, _platform, signal) => {
+    const output = await runYtdlp(binary, ['-J', '--no-playlist', '--no-warnings', '-f', YTDLP_FORMAT, url.toString()], signal);
+    let info: any;
+    try {
+      info = JSON.parse(output);
+    } catch {
+      throw mediaError('failed', 'อ่านผลลัพธ์ของ yt-dlp ไม่ได้');
+    }
+    // รูปแบบที่เลือกเป็นไฟล์เดียว (มีทั้งภาพและเสียง) จึงมี url ตรงให้ดาวน์โหลด
+    const format = info.requested_downloads?.[0] || info;
+    if (!format.url) throw mediaError('unsupported', 'ไม่มีรูปแบบไฟล์ที่ดาวน์โหลดเป็นไฟล์เดียวได้');
+
+    return {
+      url: format.url,
+      headers: format.http_headers || info.http_headers,
+      mimeType: MIME_BY_EXTENSION[format.ext || info.ext] || null,
+      title: info.title || null,
+      size: format.filesize || format.filesize_approx || info.filesize || info.filesize_approx || null,
+      duration: typeof info.duration === 'number' ? info.duration : null
+    };
+  }
+});
+
+// ---------- อินสแตนซ์ Cobalt ของเราเอง (API v10) ----------
+
+const classifyCobaltError = (code: string): MediaErrorKind => {
+  if (/private/.test(code)) return 'private';
+  if (/age/.test(code)) return 'age';
+  if (/region/.test(code)) return 'region';
+  if (/too_long/.test(code)) return 'tooLong';
+  if (/unsupported|invalid/.test(code)) return 'unsupported';
+  if (/unavailable|empty|not_found/.test(code)) return 'unavailable';
+  if (/login|auth\.(?!jwt)/.test(code)) return 'login';
+  return 'failed';
+};
+
+export const createCobaltResolver = (instances: string[], apiKey?: string): MediaResolver => ({
+  id: 'cobalt',
+  canResolve: url => instances.length > 0 && !VIDEO_EXTENSIONS.test(url.pathname),
+
+  resolve: async (url, _platform, signal) => {
+    let lastError: MediaError | null = null;
+    for (const instance of instances) {
+      let data: any;
+      try {
+        const response = await fetch(instance, {
+          method: 'POST',
+          signal,
+          headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Api-Key ${apiKey}` } : {})
+          },
+          body: JSON.stringify({ url: url.toString(), videoQuality: '720', youtubeVideoCodec: 'h264', downloadMode: 'auto' })
+        });
+        data = await response.json();
+      } catch (e: any) {
+        if (e.name === 'AbortError') throw e;
+        lastError = mediaError('failed', `เชื่อมต่อ ${new URL(instance).host} ไม่ได้`);
+        continue;
+      }
+
+      if (data?.status === 'error') {
+        const code = String(data.error?.code || '');
+        const kind = classifyCobaltError(code);
+        // ปัญหาของตัววิดีโอเอง ลองอินสแตนซ์อื่นก็ไม่ช่วย
+        if (kind !== 'failed') throw mediaError(kind, code);
+        lastError = mediaError('failed', code);
+        continue;
+      }
+
+      const item = data?.status === 'picker' ? data.picker?.find((p: any) => p.type === 'video') : data;
+      if (item?.url) {
+        const extension = String(data.filename || '').split('.').pop()?.toLowerCase() || '';
+        // ลิงก์ tunnel อาจเป็นแบบสัมพัทธ์กับอินสแตนซ์ จึงแปลงเป็นลิงก์เต็มก่อนส่งไปดาวน์โหลด (ผ่านการตรวจ IP เหมือนลิงก์อื่น)
+        let mediaUrl: string;
+        try {
+          mediaUrl = new URL(item.url, instance).toString();
+        } catch {
+          lastError = mediaError('failed', 'Cobalt ส่งลิงก์ไฟล์ที่ไม่ถูกต้อง');
+          continue;
+        }
+        return {
+          url: mediaUrl,
+          mimeType: MIME_BY_EXTENSION[extension] || null,
+          title: data.filename || null,
+          size: null,
+          duration: null
+        };
+      }
+      lastError = mediaError('unsupported', `Cobalt ตอบกลับสถานะ ${data?.status || 'ไม่ทราบ'}`);
+    }
+    throw lastError || mediaError('failed', 'ไม่ได้ตั้งค่าอินสแตนซ์ Cobalt');
+  }
+});
@@ -0,0 +1,46 @@
+// token bucket แยกตามผู้ใช้: ใช้ได้ทันทีสูงสุด capacity ครั้ง แล้วเติมคืน perMinute ครั้งต่อนาที
+export interface RateLimitSpec {
+  capacity: number;
+  perMinute: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// ลบถังของผู้ใช้ที่ไม่ได้ใช้งานนานแล้ว (เต็มแล้ว) เพื่อไม่ให้หน่วยความจำโตเรื่อยๆ
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export const createRateLimiter = (spec: RateLimitSpec) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = spec.perMinute / 60000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(spec.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= spec.capacity) buckets.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS).unref();
+
+  // คืน 0 ถ้าใช้ได้ ไม่เช่นนั้นคืนจำนวนวินาทีที่ต้องรอ
+  const take = (key: string, cost: number = 1): number => {
+    const now = Date.now();
+    const bucket = buckets.get(key) || { tokens: spec.capacity, updatedAt: now };
+    refill(bucket, now);
+    buckets.set(key, bucket);
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return 0;
+    }
+    return Math.ceil((cost - bucket.tokens) / refillPerMs / 1000);
+  };
+
+  return { take };
+};
@@ -0,0 +1,115 @@
+import { randomUUID } from "node:crypto";
+import { VideoInput } from "../types";
+import {
+  activateUploadedFile,
+  CHUNK_SIZE,
+  deleteUploadedFile,
+  FILES_API_MAX_BYTES,
+  queryUploadedBytes,
+  startResumableUpload,
+  uploadChunk
+} from "../services/fileUploadService";
+import { httpError } from "./http";
+
+// ส่งต่อการอัปโหลดไฟล์ใหญ่ไปยัง Files API ทีละ chunk โดย URL อัปโหลด (ผูกกับ API key) ไม่ออกไปถึงเบราว์เซอร์
+
+interface UploadSession {
+  owner: string;
+  uploadUrl: string;
+  size: number;
+  mimeType: string;
+  received: number;
+  file: VideoInput | null;
+  expiresAt: number;
+}
+
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const MAX_ACTIVE_UPLOADS = 3;
+
+export interface UploadStatus {
+  received: number;
+  file: VideoInput | null;
+}
+
+export const createUploadRelay = () => {
+  const sessions = new Map<string, UploadSession>();
+  // ไฟล์บน Files API ของแต่ละผู้ใช้ เพื่อไม่ให้ใช้หรือลบไฟล์ของคนอื่นได้
+  const ownedFiles = new Map<string, { owner: string; file: VideoInput }>();
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.expiresAt < now) sessions.delete(id);
+    }
+  };
+
+  const getSession = (owner: string, id: string) => {
+    sweep();
+    const session = sessions.get(id);
+    if (!session || session.owner !== owner) throw httpError(404, 'ไม่พบการอัปโหลดนี้ หรือหมดเวลาแล้ว');
+    return session;
+  };
+
+  const start = async (owner: string, size: number, mimeType: string, displayName: string): Promise<string> => {
+    if (!Number.isInteger(size) || size <= 0) throw httpError(400, 'ขนาดไฟล์ไม่ถูกต้อง');
+    if (size > FILES_API_MAX_BYTES) throw httpError(413, 'ไฟล์มีขนาดใหญ่เกินไป (จำกัด 2GB)');
+    if (!/^(video|audio)\//.test(mimeType)) throw httpError(415, 'รองรับเฉพาะไฟล์วิดีโอหรือเสียง');
+
+    sweep();
+    const active = [...sessions.values()].filter(s => s.owner === owner && !s.file).length;
+    if (active >= MAX_ACTIVE_UPLOADS) throw httpError(429, `อัปโหลดพร้อมกันได้ไม่เกิน ${MAX_ACTIVE_UPLOADS} ไฟล์`);
+
+    const uploadUrl = await startResumableUpload(size, mimeType, displayName.slice(0, 200));
+    const id = randomUUID();
+    sessions.set(id, { owner, uploadUrl, size, mimeType, received: 0, file: null, expiresAt: Date.now() + SESSION_TTL_MS });
+    return id;
+  };
+
+  const status = (owner: string, id: string): UploadStatus => {
+    const session = getSession(owner, id);
+    return { received: session.received, file: session.file };
+  };
+
+  const put = async (owner: string, id: string, offset: number, chunk: Buffer, signal?: AbortSignal): Promise<UploadStatus> => {
+    const session = getSession(owner, id);
+    if (session.file) return { received: session.received, file: session.file };
+    if (offset !== session.received) throw httpError(409, `ต้องส่งต่อจากไบต์ที่ ${session.received}`);
+
+    const end = offset + chunk.length;
+    const isLast = end === session.size;
+    if (end > session.size) throw httpError(400, 'ข้อมูลเกินขนาดไฟล์ที่แจ้งไว้');
+    // chunk ที่ไม่ใช่ chunk สุดท้ายต้องมีขนาดเต็ม ตามข้อกำหนดของ resumable upload
+    if (!isLast && chunk.length !== CHUNK_SIZE) throw httpError(400, `chunk ต้องมีขนาด ${CHUNK_SIZE} ไบต์`);
+
+    try {
+      // chunk สุดท้ายที่ว่าง (offset = ขนาดไฟล์) ใช้ finalize ซ้ำเมื่อคำตอบครั้งก่อนหายไป
+      const uploaded = await uploadChunk(session.uploadUrl, new Uint8Array(chunk), offset, isLast, signal);
+      session.received = end;
+      if (uploaded) {
+        session.file = await activateUploadedFile(uploaded.name, session.mimeType, signal);
+        ownedFiles.set(uploaded.name, { owner, file: session.file });
+      }
+    } catch (e) {
+      // อัปเดตจำนวนไบต์ตามที่ Google ได้รับจริง ให้ฝั่งเบราว์เซอร์ส่งต่อถูกจุด
+      const received = await queryUploadedBytes(session.uploadUrl);
+      if (received !== null) session.received = received;
+      throw e;
+    }
+    session.expiresAt = Date.now() + SESSION_TTL_MS;
+    return { received: session.received, file: session.file };
+  };
+
+  // ข้อมูลไฟล์ตามที่เซิร์ฟเวอร์ได้รับจาก Files API (ไม่ใช้ uri ที่เบราว์เซอร์ส่งมา)
+  const getFile = (owner: string, name: string): VideoInput | null => {
+    const entry = ownedFiles.get(name);
+    return entry && entry.owner === owner ? entry.file : null;
+  };
+
+  const remove = async (owner: string, name: string) => {
+    if (!getFile(owner, name)) throw httpError(404, 'ไม่พบไฟล์นี้');
+    ownedFiles.delete(name);
+    await deleteUploadedFile({ kind: 'file', uri: '', mimeType: '', name });
+  };
+
+  return { start, status, put, getFile, remove };
+};
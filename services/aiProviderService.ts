@@ -0,0 +1,154 @@
+import { Schema } from "@google/genai";
+import { Gender, ProviderConfig, TargetLanguage, TaskModelConfig, VideoInput } from "../types";
+import { INLINE_MAX_BYTES, readAsBase64 } from "./fileUploadService";
+import { createGeminiProvider } from "./geminiProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { createOpenAICompatibleProvider } from "./openaiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export interface TranslationRequest {
+  video: VideoInput;
+  prompt: string;
+  // JSON schema ในรูปแบบของ @google/genai (Type.OBJECT, ...) ผู้ให้บริการอื่นแปลงเอง
+  schema: Schema;
+  generation: TaskModelConfig;
+  targetLanguage: TargetLanguage;
+  // ช่วงของวิดีโอที่ต้องการ (เฉพาะผู้ให้บริการที่ supportsVideoClips)
+  clip?: { start: number; end: number };
+  duration?: number;
+}
+
+export interface RewriteRequest {
+  prompt: string;
+  generation: TaskModelConfig;
+  targetLanguage: TargetLanguage;
+  schema?: Schema;
+}
+
+export interface SpeechRequest {
+  // ข้อความที่ทำความสะอาดแล้ว และพรอมต์เต็มที่มีโทนเสียง/ความเร็ว สำหรับผู้ให้บริการที่รับคำสั่งได้
+  text: string;
+  prompt: string;
+  instructions: string;
+  voiceName: string;
+  gender: Gender;
+  targetLanguage: TargetLanguage;
+  generation: TaskModelConfig;
+  duration?: number;
+  // คลิปเสียงของผู้พูดต้นฉบับ (WAV base64) ส่งเฉพาะผู้ให้บริการที่ supportsVoiceCloning
+  referenceAudio?: string;
+  // ชื่อผู้พูดของประโยคนี้ และเสียงของผู้พูดทุกคนในคลิป สำหรับผู้ให้บริการที่ตั้งเสียงหลายผู้พูดได้
+  speaker?: string;
+  cast?: { speaker: string; voiceName: string }[];
+}
+
+// PCM 16-bit little-endian แบบ mono
+export interface SpeechResult {
+  pcm: Uint8Array;
+  sampleRate: number;
+}
+
+export interface TranslationProvider {
+  translateVideo(request: TranslationRequest): Promise<string>;
+}
+
+export interface RewriteProvider {
+  rewrite(request: RewriteRequest): Promise<string>;
+}
+
+export interface SpeechProvider {
+  synthesize(request: SpeechRequest): Promise<SpeechResult>;
+}
+
+export interface AIProvider extends TranslationProvider, RewriteProvider, SpeechProvider {
+  id: ProviderConfig['provider'];
+  label: string;
+  // ส่งช่วงเวลาของวิดีโอไปพร้อมไฟล์เดิมได้ (ใช้แปลวิดีโอยาวทีละช่วง)
+  supportsVideoClips: boolean;
+  // สร้างเสียงตามเสียงอ้างอิงได้ (ไม่เช่นนั้นใช้เสียงสำเร็จรูปที่ใกล้ที่สุดแล้วปรับเสียงเอง)
+  supportsVoiceCloning: boolean;
+  // อัปโหลดไฟล์ใหญ่เกินขนาด inline (ถ้าไม่มี จะรับได้เฉพาะวิดีโอขนาดเล็ก)
+  uploadVideo?(blob: Blob, mimeType: string, displayName: string, onProgress?: (ratio: number) => void, signal?: AbortSignal): Promise<VideoInput>;
+  deleteVideo?(input: VideoInput): Promise<void>;
+}
+
+const PROVIDER_CONFIG_KEY = 'vocalbridge:provider';
+
+// บิลด์ที่ตั้ง API_PROXY_URL ไว้จะไม่มี API key ในเบราว์เซอร์ จึงเริ่มต้นด้วยเซิร์ฟเวอร์กลาง
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  provider: process.env.API_PROXY_URL ? 'proxy' : 'gemini',
+  proxy: {
+    url: process.env.API_PROXY_URL || '/api',
+    token: ''
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    model: 'gpt-4o',
+    ttsModel: 'gpt-4o-mini-tts',
+    maleVoice: 'onyx',
+    femaleVoice: 'nova',
+    referenceAudioField: ''
+  }
+};
+
+export const PROVIDER_LABELS: Record<ProviderConfig['provider'], string> = {
+  gemini: 'Google Gemini',
+  proxy: 'Gemini ผ่านเซิร์ฟเวอร์',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (ออฟไลน์)'
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROVIDER_CONFIG_KEY) || 'null');
+    if (!stored) return DEFAULT_PROVIDER_CONFIG;
+    return { ...DEFAULT_PROVIDER_CONFIG, ...stored, proxy: { ...DEFAULT_PROVIDER_CONFIG.proxy, ...stored.proxy }, openai: { ...DEFAULT_PROVIDER_CONFIG.openai, ...stored.openai } };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+  activeProvider = null;
+};
+
+export const createProvider = (config: ProviderConfig): AIProvider => {
+  switch (config.provider) {
+    case 'proxy': return createProxyProvider(config.proxy);
+    case 'openai': return createOpenAICompatibleProvider(config.openai);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider();
+  }
+};
+
+export const getActiveProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createProvider(loadProviderConfig());
+  return activeProvider;
+};
+
+// ไฟล์เล็กส่งแบบ inline ได้เลย ไฟล์ใหญ่อัปโหลดผ่านผู้ให้บริการ (เช่น Files API ของ Gemini)
+export const prepareVideoInput = async (
+  blob: Blob,
+  mimeType: string,
+  displayName: string,
+  onProgress?: (ratio: number) => void,
+  signal?: AbortSignal
+): Promise<VideoInput> => {
+  const provider = getActiveProvider();
+  if (blob.size > INLINE_MAX_BYTES) {
+    if (provider.uploadVideo) return provider.uploadVideo(blob, mimeType, displayName, onProgress, signal);
+    throw new Error(`${provider.label} รองรับวิดีโอขนาดไม่เกิน ${Math.round(INLINE_MAX_BYTES / 1024 / 1024)}MB`);
+  }
+  const data = await readAsBase64(blob);
+  onProgress?.(1);
+  return { kind: 'inline', data, mimeType };
+};
+
+export const releaseVideoInput = async (input: VideoInput | null) => {
+  if (!input) return;
+  await getActiveProvider().deleteVideo?.(input);
+};
@@ -0,0 +1,285 @@
+import { ClipPlacement, GenerationContext, SpeakerProfile, TargetLanguage, TranslationSegment, VoiceSettings, WordTiming } from "../types";
+import { generateSpeech, decodePCMData, rewriteForDuration } from "./geminiService";
+import { findSpeaker } from "./speakerService";
+import { resolveSpokenText } from "./pronunciationService";
+import { estimateWordTimings } from "./wordTimingService";
+import { FitMethod, fitClipDuration } from "./durationFitService";
+import { applyEffectPreset, normalizeLoudness, pitchShift, timeStretch } from "./dspService";
+import { matchToReference } from "./voiceMatchService";
+import { getActiveProvider } from "./aiProviderService";
+
+export interface DubClip {
+  segmentId: string;
+  start: number;
+  end: number;
+  buffer: AudioBuffer;
+  // ข้อความที่พากย์จริง (อาจถูกเขียนใหม่ให้พอดีเวลา) และวิธีที่ใช้ปรับความยาว
+  text: string;
+  fit: FitMethod;
+  words: WordTiming[];
+}
+
+export interface DubTrack {
+  buffer: AudioBuffer;
+  placements: ClipPlacement[];
+}
+
+// ช่องว่างขั้นต่ำระหว่างประโยค และความยาว fade กันเสียงคลิกที่หัว/ท้ายคลิป
+const MIN_GAP_SECONDS = 0.08;
+const FADE_SECONDS = 0.01;
+
+// ปรับเสียงที่ได้จาก TTS ตามการตั้งค่า (ความเร็ว ระดับเสียง EQ/คอมเพรสเซอร์ ความดัง) ผลลัพธ์คงที่ทุกครั้ง
+// โหมด sync ไม่ใช้ speechRate เพราะความยาวถูกปรับด้วยขั้นตอน fit แทน
+export const applyVoiceEffects = (buffer: AudioBuffer, settings: VoiceSettings, ctx: BaseAudioContext): AudioBuffer => {
+  let processed = buffer;
+  const rate = settings.speed === 'sync' ? 1 : settings.speechRate || 1;
+  if (rate !== 1) processed = timeStretch(processed, 1 / rate, ctx);
+  if (settings.pitchShift) processed = pitchShift(processed, settings.pitchShift, ctx);
+  if (settings.effectPreset && settings.effectPreset !== 'none') processed = applyEffectPreset(processed, settings.effectPreset, ctx);
+  if (settings.loudnessTarget != null) processed = normalizeLoudness(processed, settings.loudnessTarget, ctx);
+  return processed;
+};
+
+export const synthesizeSegmentClips = async (
+  segments: TranslationSegment[],
+  speakers: SpeakerProfile[],
+  settings: VoiceSettings,
+  context: GenerationContext,
+  ctx: AudioContext,
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void,
+  totalDuration?: number,
+  // พากย์เฉพาะบางประโยค (ยังใช้ประโยคอื่นเป็นขอบเขตความยาวที่ยาวได้)
+  onlySegmentIds?: string[]
+): Promise<DubClip[]> => {
+  const clips: DubClip[] = [];
+  const voiced = segments.filter(s => s.targetText.trim()).sort((a, b) => a.start - b.start);
+  // โหมด sync หรือกำหนดความยาวเอง: ปรับเสียงแต่ละช่วงให้พอดีเวลาจริง ไม่ใช่แค่บอกในพรอมต์
+  const shouldFit = settings.speed === 'sync' || !!settings.customDuration;
+
+  // เรียกทีละช่วงเพื่อไม่ให้ชนโควต้า TTS
+  for (let i = 0; i < voiced.length; i++) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const segment = voiced[i];
+    if (onlySegmentIds && !onlySegmentIds.includes(segment.id)) continue;
+    const slot = Math.max(0.5, segment.end - segment.start);
+    const speaker = findSpeaker(speakers, segment.speaker);
+    // ผู้พูดแต่ละคนใช้เสียงที่กำหนดไว้ของตัวเองทุกประโยค เพื่อให้เสียงตัวละครคงที่ตลอดคลิป
+    // ข้อความผ่านขั้นแปลงคำอ่าน (ตัวเลข คำทับศัพท์) ก่อนส่ง TTS ทุกครั้ง รวมถึงข้อความที่ถูกเขียนใหม่ให้พอดีเวลา
+    // ผู้พูดที่มีเสียงอ้างอิงถูกปรับให้ใกล้เสียงต้นฉบับก่อน แล้วค่อยใช้เอฟเฟกต์ที่ผู้ใช้ตั้งไว้ทับ
+    const synthesize = async (text: string) => {
+      const speech = await generateSpeech(resolveSpokenText(segment, text, settings.targetLanguage), settings, context, slot, speaker, speakers);
+      let buffer = await decodePCMData(speech.pcm, ctx, speech.sampleRate);
+      if (speaker?.reference) {
+        const provider = getActiveProvider();
+        const cloned = provider.supportsVoiceCloning && !!context.referenceClips?.[speaker.id];
+        buffer = matchToReference(buffer, speaker.reference, `${provider.id}:${speaker.voiceName}`, cloned, ctx);
+      }
+      return applyVoiceEffects(buffer, settings, ctx);
+    };
+
+    if (!shouldFit) {
+      const buffer = await synthesize(segment.targetText);
+      const words = estimateWordTimings(buffer, segment.targetText, settings.targetLanguage);
+      clips.push({ segmentId: segment.id, start: segment.start, end: segment.end, buffer, text: segment.targetText, fit: 'none', words });
+    } else {
+      // ยาวได้ถึงก่อนประโยคถัดไป (หรือจบคลิป) และในโหมด sync ไม่ควรสั้นกว่าช่วงของตัวเองมาก
+      const nextStart = voiced[i + 1]?.start ?? Math.max(totalDuration || 0, segment.end);
+      const max = Math.max(slot, nextStart - segment.start - MIN_GAP_SECONDS);
+      const fitted = await fitClipDuration(
+        segment.targetText,
+        { max, min: settings.speed === 'sync' ? slot : null },
+        ctx,
+        synthesize,
+        (text, target, current) => rewriteForDuration(text, settings, context, target, current)
+      );
+      const words = estimateWordTimings(fitted.buffer, fitted.text, settings.targetLanguage);
+      clips.push({ segmentId: segment.id, start: segment.start, end: segment.end, buffer: fitted.buffer, text: fitted.text, fit: fitted.method, words });
+    }
+    onProgress?.(i + 1, voiced.length);
+  }
+
+  return clips;
+};
+
+// วางคลิปแต่ละช่วงลงบนไทม์ไลน์เดียว ถ้าประโยคยาวเกินช่วงของตัวเอง จะดันประโยคถัดไปออกไป
+// แล้วค่อยๆ กลับมาตรงเวลาเมื่อเจอช่วงเงียบถัดไป
+export const assembleDubTrack = (
+  ctx: BaseAudioContext,
+  clips: DubClip[],
+  totalDuration: number
+): DubTrack => {
+  const sampleRate = ctx.sampleRate;
+  const ordered = [...clips].sort((a, b) => a.start - b.start);
+
+  const placements: ClipPlacement[] = [];
+  let cursor = 0;
+  for (const clip of ordered) {
+    const offset = Math.max(clip.start, placements.length ? cursor + MIN_GAP_SECONDS : 0);
+    const duration = clip.buffer.duration;
+    placements.push({
+      segmentId: clip.segmentId,
+      offset,
+      duration,
+      overrun: Math.max(0, offset + duration - clip.end),
+      words: clip.words
+    });
+    cursor = offset + duration;
+  }
+
+  const length = Math.max(1, Math.ceil(Math.max(totalDuration, cursor) * sampleRate));
+  const output = ctx.createBuffer(1, length, sampleRate);
+  const out = output.getChannelData(0);
+  const fadeSamples = Math.floor(FADE_SECONDS * sampleRate);
+
+  ordered.forEach((clip, index) => {
+    const source = resampleToMono(clip.buffer, sampleRate);
+    const startSample = Math.floor(placements[index].offset * sampleRate);
+    for (let i = 0; i < source.length && startSample + i < length; i++) {
+      let gain = 1;
+      if (i < fadeSamples) gain = i / fadeSamples;
+      else if (i > source.length - fadeSamples) gain = (source.length - i) / fadeSamples;
+      out[startSample + i] += source[i] * gain;
+    }
+  });
+
+  return { buffer: output, placements };
+};
+
+const resampleToMono = (buffer: AudioBuffer, targetRate: number): Float32Array => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const mono = new Float32Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    let sum = 0;
+    for (const data of channels) sum += data[i];
+    mono[i] = sum / channels.length;
+  }
+  if (buffer.sampleRate === targetRate) return mono;
+
+  const ratio = buffer.sampleRate / targetRate;
+  const resampled = new Float32Array(Math.floor(mono.length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    resampled[i] = mono[idx] * (1 - frac) + (mono[idx + 1] ?? mono[idx]) * frac;
+  }
+  return resampled;
+};
+
+const sliceBuffer = (ctx: BaseAudioContext, buffer: AudioBuffer, from: number, to: number): AudioBuffer => {
+  const start = Math.max(0, Math.floor(from * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(to * buffer.sampleRate));
+  const sliced = ctx.createBuffer(buffer.numberOfChannels, Math.max(1, end - start), buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) sliced.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+  return sliced;
+};
+
+// แยกแทร็กที่ประกอบแล้วกลับเป็นคลิปรายประโยคตามตำแหน่งจริง เพื่อย้าย/แยก/รวม/พากย์ใหม่ทีละประโยค
+// โดยไม่ต้องสร้างเสียงทั้งแทร็กใหม่ (โปรเจกต์ที่เปิดกลับมาก็มีแค่แทร็กที่ประกอบแล้ว)
+export const extractDubClips = (
+  ctx: BaseAudioContext,
+  track: AudioBuffer,
+  placements: ClipPlacement[],
+  segments: TranslationSegment[]
+): DubClip[] => placements.flatMap(placement => {
+  const segment = segments.find(s => s.id === placement.segmentId);
+  if (!segment) return [];
+  return [{
+    segmentId: segment.id,
+    start: segment.start,
+    end: segment.end,
+    buffer: sliceBuffer(ctx, track, placement.offset, placement.offset + placement.duration),
+    text: placement.words?.map(w => w.text).join('') || segment.targetText,
+    fit: 'none' as FitMethod,
+    words: placement.words || []
+  }];
+});
+
+// ใช้เวลาใหม่ของประโยคหลังลากหรือตัดขอบ (เสียงเดิม)
+export const retimeClips = (clips: DubClip[], segments: TranslationSegment[]): DubClip[] =>
+  clips.flatMap(clip => {
+    const segment = segments.find(s => s.id === clip.segmentId);
+    return segment ? [{ ...clip, start: segment.start, end: segment.end }] : [];
+  });
+
+// ตัดเสียงของประโยคที่ถูกแยกออกเป็นสองคลิปที่ cut วินาที
+export const splitDubClip = (
+  ctx: BaseAudioContext,
+  clip: DubClip,
+  cut: number,
+  first: TranslationSegment,
+  second: TranslationSegment,
+  language: TargetLanguage
+): [DubClip, DubClip] => {
+  const head = sliceBuffer(ctx, clip.buffer, 0, cut);
+  const tail = sliceBuffer(ctx, clip.buffer, cut, clip.buffer.duration);
+  return [
+    { ...clip, segmentId: first.id, start: first.start, end: first.end, buffer: head, text: first.targetText, words: estimateWordTimings(head, first.targetText, language) },
+    { ...clip, segmentId: second.id, start: second.start, end: second.end, buffer: tail, text: second.targetText, words: estimateWordTimings(tail, second.targetText, language) }
+  ];
+};
+
+// ต่อเสียงสองประโยคที่ถูกรวมกัน โดยคงช่วงเงียบระหว่างกันไว้ตามที่เคยเล่น
+export const mergeDubClips = (
+  ctx: BaseAudioContext,
+  first: DubClip,
+  second: DubClip,
+  gap: number,
+  merged: TranslationSegment,
+  language: TargetLanguage
+): DubClip => {
+  const rate = first.buffer.sampleRate;
+  const gapSamples = Math.max(0, Math.round(gap * rate));
+  const tail = resampleToMono(second.buffer, rate);
+  const buffer = ctx.createBuffer(1, first.buffer.length + gapSamples + tail.length, rate);
+  const out = buffer.getChannelData(0);
+  out.set(resampleToMono(first.buffer, rate), 0);
+  out.set(tail, first.buffer.length + gapSamples);
+  return {
+    ...first,
+    start: merged.start,
+    end: merged.end,
+    buffer,
+    text: merged.targetText,
+    words: estimateWordTimings(buffer, merged.targetText, language)
+  };
+};
+
+// แทนข้อความของประโยคที่ถูกเขียนใหม่ตอนปรับความยาวเสียง
+export const applyFittedText = (segments: TranslationSegment[], clips: DubClip[]): TranslationSegment[] => {
+  const texts = new Map(clips.filter(c => c.fit === 'rewrite').map(c => [c.segmentId, c.text]));
+  if (texts.size === 0) return segments;
+  return segments.map(s => texts.has(s.id) ? { ...s, targetText: texts.get(s.id)! } : s);
+};
+
+export const audioBufferToWav = (buffer: AudioBuffer) => {
+  const numOfChan = buffer.numberOfChannels;
+  const length = buffer.length * numOfChan * 2 + 44;
+  const arrayBuffer = new ArrayBuffer(length);
+  const view = new DataView(arrayBuffer);
+  const channels = [];
+  let offset = 0;
+  let pos = 0;
+
+  const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2; };
+  const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4; };
+
+  setUint32(0x46464952); setUint32(length - 8); setUint32(0x45564157);
+  setUint32(0x20746d66); setUint32(16); setUint16(1); setUint16(numOfChan);
+  setUint32(buffer.sampleRate); setUint32(buffer.sampleRate * 2 * numOfChan);
+  setUint16(numOfChan * 2); setUint16(16); setUint32(0x61746164);
+  setUint32(length - pos - 4);
+
+  for (let i = 0; i < numOfChan; i++) channels.push(buffer.getChannelData(i));
+  while (pos < length) {
+    for (let i = 0; i < numOfChan; i++) {
+      let sample = Math.max(-1, Math.min(1, channels[i][offset]));
+      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
+      view.setInt16(pos, sample, true);
+      pos += 2;
+    }
+    offset++;
+  }
+  return new Blob([arrayBuffer], { type: "audio/wav" });
+};
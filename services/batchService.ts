@@ -0,0 +1,202 @@
+import { CaptionStyle, ClipPlacement, GenerationContext, MixSettings, SpeakerProfile, TranslationSegment, VideoInput, VoiceSettings } from "../types";
+import { translateVideoContent } from "./geminiService";
+import { prepareVideoInput, releaseVideoInput } from "./aiProviderService";
+import { fetchVideoFromUrl } from "./urlFetchService";
+import { applyFittedText, assembleDubTrack, audioBufferToWav, synthesizeSegmentClips } from "./audioService";
+import { decodeOriginalAudio, renderMix } from "./mixService";
+import { serializeSubtitles } from "./subtitleService";
+import { buildCaptionCues, createCaptionOverlay, ensureCaptionFont } from "./captionService";
+import { isOfflineRenderSupported, renderDubbedVideo } from "./renderService";
+import { ZipEntry, createZip } from "./zipService";
+
+export type BatchJobStatus = 'queued' | 'fetching' | 'uploading' | 'translating' | 'voicing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  sourceUrl: string | null;
+  video: Blob | null;
+  mimeType: string;
+  duration: number;
+  // false = ใช้การตั้งค่าของงานนี้เอง แทนการตั้งค่าร่วมของทั้งคิว
+  useSharedSettings: boolean;
+  settings: VoiceSettings;
+  status: BatchJobStatus;
+  progress: number;
+  error: string | null;
+  segments: TranslationSegment[];
+  speakers: SpeakerProfile[];
+  dub: AudioBuffer | null;
+  placements: ClipPlacement[];
+  original: AudioBuffer | null;
+}
+
+export interface BatchExportOptions {
+  mix: MixSettings;
+  includeVideo: boolean;
+  captionStyle?: CaptionStyle;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// จำนวนงานที่ประมวลผลพร้อมกัน ค่าเริ่มต้นต่ำไว้ก่อนเพื่อไม่ให้ชนโควต้า API
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export const ACTIVE_JOB_STATUSES: BatchJobStatus[] = ['fetching', 'uploading', 'translating', 'voicing'];
+
+export const isJobActive = (job: BatchJob) => ACTIVE_JOB_STATUSES.includes(job.status);
+
+export const createBatchJob = (
+  source: { video: Blob; mimeType: string; name: string } | { url: string },
+  settings: VoiceSettings
+): BatchJob => ({
+  id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: 'url' in source ? source.url : source.name,
+  sourceUrl: 'url' in source ? source.url : null,
+  video: 'url' in source ? null : source.video,
+  mimeType: 'url' in source ? 'video/mp4' : source.mimeType,
+  duration: 0,
+  useSharedSettings: true,
+  settings,
+  status: 'queued',
+  progress: 0,
+  error: null,
+  segments: [],
+  speakers: [],
+  dub: null,
+  placements: [],
+  original: null
+});
+
+export const resolveJobSettings = (job: BatchJob, shared: VoiceSettings): VoiceSettings =>
+  job.useSharedSettings ? shared : job.settings;
+
+export const probeVideoDuration = (blob: Blob) => new Promise<number>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.onloadedmetadata = () => {
+    URL.revokeObjectURL(url);
+    resolve(video.duration);
+  };
+  video.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('ไม่สามารถอ่านความยาวของวิดีโอได้'));
+  };
+  video.src = url;
+});
+
+// ขั้นตอนเดียวกับการประมวลผลวิดีโอเดี่ยว: ดึงไฟล์ -> อัปโหลด -> แปล -> สร้างเสียงพากย์
+// ความคืบหน้าแต่ละขั้นถูกแบ่งเป็นสัดส่วน 0.1 / 0.3 / 0.6 / 1.0 ของงานทั้งหมด
+export const runBatchJob = async (
+  job: BatchJob,
+  settings: VoiceSettings,
+  context: GenerationContext,
+  ctx: AudioContext,
+  signal: AbortSignal,
+  onUpdate: (patch: Partial<BatchJob>) => void
+): Promise<void> => {
+  let video = job.video;
+  let mimeType = job.mimeType;
+  let videoInput: VideoInput | null = null;
+
+  try {
+    if (!video) {
+      onUpdate({ status: 'fetching', progress: 0 });
+      const fetched = await fetchVideoFromUrl(job.sourceUrl || '', signal, (received, total) => {
+        if (total) onUpdate({ progress: 0.1 * received / total });
+      });
+      video = fetched.blob;
+      mimeType = fetched.mimeType;
+      onUpdate({ video, mimeType, name: fetched.name });
+    }
+
+    const duration = await probeVideoDuration(video);
+    onUpdate({ duration, status: 'uploading', progress: 0.1 });
+    videoInput = await prepareVideoInput(video, mimeType, job.name, ratio => onUpdate({ progress: 0.1 + 0.2 * ratio }), signal);
+
+    onUpdate({ status: 'translating', progress: 0.3 });
+    const result = await translateVideoContent(
+      videoInput,
+      settings,
+      context,
+      duration,
+      (done, total) => onUpdate({ progress: 0.3 + 0.3 * done / total }),
+      signal
+    );
+    onUpdate({ segments: result.segments, speakers: result.speakers, status: 'voicing', progress: 0.6 });
+
+    const objectUrl = URL.createObjectURL(video);
+    const original = await decodeOriginalAudio(objectUrl, ctx);
+    URL.revokeObjectURL(objectUrl);
+
+    const clips = await synthesizeSegmentClips(
+      result.segments,
+      result.speakers,
+      settings,
+      context,
+      ctx,
+      signal,
+      (done, total) => onUpdate({ progress: 0.6 + 0.4 * done / total }),
+      duration
+    );
+    const track = assembleDubTrack(ctx, clips, duration);
+
+    onUpdate({
+      segments: applyFittedText(result.segments, clips),
+      dub: track.buffer,
+      placements: track.placements,
+      original,
+      status: 'done',
+      progress: 1,
+      error: null
+    });
+  } finally {
+    releaseVideoInput(videoInput);
+  }
+};
+
+const safeFileName = (name: string) =>
+  name.replace(/^URL:\s*/, '').replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'video';
+
+// ส่งออกงานที่เสร็จแล้วทั้งหมดเป็นไฟล์ ZIP เดียว (เสียงมิกซ์ WAV + ซับไตเติล SRT และวิดีโอ MP4 ถ้าเลือก)
+export const exportBatchZip = async (jobs: BatchJob[], options: BatchExportOptions): Promise<Blob> => {
+  const { mix, includeVideo, captionStyle, signal, onProgress } = options;
+  const finished = jobs.filter(job => job.status === 'done' && job.dub);
+  if (finished.length === 0) throw new Error('ยังไม่มีงานที่ประมวลผลเสร็จให้ส่งออก');
+  if (includeVideo && !isOfflineRenderSupported()) {
+    throw new Error('เบราว์เซอร์นี้ไม่รองรับการเรนเดอร์วิดีโอแบบออฟไลน์ กรุณาส่งออกเฉพาะเสียงและซับไตเติล');
+  }
+  if (includeVideo && captionStyle?.enabled) await ensureCaptionFont(captionStyle);
+
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  onProgress?.(0, finished.length);
+
+  for (let i = 0; i < finished.length; i++) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const job = finished[i];
+
+    let base = `${String(i + 1).padStart(2, '0')}_${safeFileName(job.name)}`;
+    while (usedNames.has(base)) base += '_';
+    usedNames.add(base);
+
+    const sources = { dub: job.dub!, original: job.original, placements: job.placements };
+    const mixed = await renderMix(sources, mix);
+    entries.push({ name: `${base}.wav`, data: audioBufferToWav(mixed) });
+    entries.push({ name: `${base}.srt`, data: new Blob([serializeSubtitles(job.segments, 'srt')], { type: 'application/x-subrip' }) });
+
+    if (includeVideo && job.video) {
+      const cues = buildCaptionCues(job.segments, job.placements);
+      const mp4 = await renderDubbedVideo(job.video, mixed, {
+        signal,
+        drawOverlay: captionStyle?.enabled ? createCaptionOverlay(cues, captionStyle) : undefined
+      });
+      entries.push({ name: `${base}.mp4`, data: mp4 });
+    }
+    onProgress?.(i + 1, finished.length);
+  }
+
+  return createZip(entries);
+};
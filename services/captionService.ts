@@ -0,0 +1,209 @@
+import { CaptionStyle, ClipPlacement, SafeAreaPreset, TranslationSegment, WordTiming } from "../types";
+import { FrameOverlay } from "./renderService";
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  // เวลาของแต่ละคำบนไทม์ไลน์ (มีเมื่อข้อความตรงกับเสียงที่สร้างไว้)
+  words?: WordTiming[];
+}
+
+interface SafeAreaInsets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  enabled: false,
+  fontFamily: 'Anuphan',
+  fontWeight: 700,
+  fontSize: 4.5,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidth: 12,
+  backgroundColor: null,
+  position: 'bottom',
+  safeArea: 'tiktok',
+  maxLines: 2,
+  karaoke: false,
+  highlightColor: '#facc15'
+};
+
+// พื้นที่ที่ UI ของแต่ละแพลตฟอร์มบังไว้ (สัดส่วนของเฟรม 9:16)
+export const SAFE_AREA_PRESETS: Record<SafeAreaPreset, { label: string; insets: SafeAreaInsets }> = {
+  none: { label: 'ไม่เว้นขอบ', insets: { top: 0.04, bottom: 0.04, left: 0.04, right: 0.04 } },
+  tiktok: { label: 'TikTok', insets: { top: 0.1, bottom: 0.2, left: 0.06, right: 0.16 } },
+  reels: { label: 'Instagram Reels', insets: { top: 0.14, bottom: 0.2, left: 0.06, right: 0.12 } },
+  shorts: { label: 'YouTube Shorts', insets: { top: 0.1, bottom: 0.18, left: 0.06, right: 0.14 } }
+};
+
+export const CAPTION_FONTS = ['Anuphan', 'Tahoma', 'sans-serif', 'serif'];
+
+// ซับไตเติลควรขึ้นตามเสียงพากย์จริง ซึ่งอาจถูกเลื่อนออกไปเมื่อประโยคก่อนหน้ายาวเกิน
+export const buildCaptionCues = (
+  segments: TranslationSegment[],
+  placements: ClipPlacement[] = []
+): CaptionCue[] => segments
+  .filter(s => s.targetText.trim())
+  .map(segment => {
+    const placement = placements.find(p => p.segmentId === segment.id);
+    const start = placement ? placement.offset : segment.start;
+    const end = placement ? Math.max(start + placement.duration, segment.end) : segment.end;
+    const text = segment.targetText.trim();
+    const words = placement?.words?.length && placement.words.map(w => w.text).join('') === text
+      ? placement.words.map(w => ({ ...w, start: w.start + start, end: w.end + start }))
+      : undefined;
+    return { start, end, text, words };
+  })
+  .map((cue, index, cues) => ({
+    ...cue,
+    // ไม่ให้ซับสองบรรทัดซ้อนกัน
+    end: index < cues.length - 1 ? Math.min(cue.end, cues[index + 1].start) : cue.end
+  }));
+
+type MeasureContext = Pick<CanvasRenderingContext2D, 'measureText'>;
+
+// ภาษาไทยไม่มีการเว้นวรรคระหว่างคำ จึงใช้ Intl.Segmenter ตัดตามคำ แทนการตัดตามตัวอักษร
+export const splitWords = (text: string): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('th', { granularity: 'word' });
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+  return text.split(/(\s+)/);
+};
+
+export const wrapCaptionText = (ctx: MeasureContext, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of splitWords(text)) {
+    const candidate = line + word;
+    if (line && ctx.measureText(candidate.trimEnd()).width > maxWidth) {
+      lines.push(line.trim());
+      line = word.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+};
+
+// จำนวนตัวอักษรของข้อความที่พูดไปแล้ว (มีเศษสำหรับคำที่กำลังพูด)
+export const spokenCharacters = (words: WordTiming[], time: number): number => {
+  let count = 0;
+  for (const word of words) {
+    if (time >= word.end) {
+      count += word.text.length;
+    } else {
+      if (time > word.start) count += word.text.length * (time - word.start) / (word.end - word.start);
+      break;
+    }
+  }
+  return count;
+};
+
+type DrawContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// spoken = จำนวนตัวอักษรที่พูดไปแล้ว ใช้ระบายสีแบบคาราโอเกะเมื่อเปิด style.karaoke
+export const drawCaption = (
+  ctx: DrawContext,
+  text: string,
+  width: number,
+  height: number,
+  style: CaptionStyle,
+  spoken?: number
+) => {
+  const insets = SAFE_AREA_PRESETS[style.safeArea].insets;
+  const fontSize = Math.round(height * style.fontSize / 100);
+  const lineHeight = fontSize * 1.35;
+  const left = width * insets.left;
+  const maxWidth = width * (1 - insets.left - insets.right);
+
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  let lines = wrapCaptionText(ctx, text, maxWidth);
+  if (lines.length > style.maxLines) {
+    lines = [...lines.slice(0, style.maxLines - 1), lines.slice(style.maxLines - 1).join('')];
+  }
+
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top'
+    ? height * insets.top
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height * (1 - insets.bottom) - blockHeight;
+  const centerX = left + maxWidth / 2;
+
+  // ตำแหน่งเริ่มของแต่ละบรรทัดในข้อความเต็ม เพื่อรู้ว่าบรรทัดไหนพูดถึงไหนแล้ว
+  let cursor = 0;
+  const lineStarts = lines.map(line => {
+    const found = text.indexOf(line, cursor);
+    const start = found >= 0 ? found : cursor;
+    cursor = start + line.length;
+    return start;
+  });
+
+  lines.forEach((line, index) => {
+    const y = top + lineHeight * index + lineHeight / 2;
+
+    if (style.backgroundColor) {
+      const padding = fontSize * 0.25;
+      const lineWidth = Math.min(maxWidth, ctx.measureText(line).width) + padding * 2;
+      ctx.fillStyle = style.backgroundColor;
+      ctx.fillRect(centerX - lineWidth / 2, y - lineHeight / 2, lineWidth, lineHeight);
+    }
+
+    if (style.outlineWidth > 0) {
+      ctx.strokeStyle = style.outlineColor;
+      ctx.lineWidth = fontSize * style.outlineWidth / 100;
+      ctx.strokeText(line, centerX, y, maxWidth);
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, centerX, y, maxWidth);
+
+    const done = style.karaoke && spoken !== undefined ? Math.min(line.length, spoken - lineStarts[index]) : 0;
+    if (done > 0) {
+      // fillText บีบข้อความที่กว้างเกิน maxWidth จึงต้องย่อระยะที่วัดได้ตามไปด้วย
+      const fullWidth = ctx.measureText(line).width;
+      const scale = Math.min(1, maxWidth / fullWidth);
+      const whole = Math.floor(done);
+      const doneWidth = (ctx.measureText(line.slice(0, whole)).width + (done - whole) * ctx.measureText(line.slice(whole, whole + 1)).width) * scale;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(centerX - fullWidth * scale / 2, y - lineHeight / 2, doneWidth, lineHeight);
+      ctx.clip();
+      ctx.fillStyle = style.highlightColor || DEFAULT_CAPTION_STYLE.highlightColor!;
+      ctx.fillText(line, centerX, y, maxWidth);
+      ctx.restore();
+    }
+  });
+
+  ctx.restore();
+};
+
+export const findActiveCue = (cues: CaptionCue[], time: number): CaptionCue | undefined =>
+  cues.find(cue => time >= cue.start && time < cue.end);
+
+export const createCaptionOverlay = (cues: CaptionCue[], style: CaptionStyle): FrameOverlay =>
+  (ctx, time, width, height) => {
+    const cue = findActiveCue(cues, time);
+    if (cue) drawCaption(ctx, cue.text, width, height, style, cue.words && spokenCharacters(cue.words, time));
+  };
+
+// ฟอนต์เว็บ (เช่น Anuphan) ต้องโหลดเสร็จก่อนวาดลง canvas ไม่เช่นนั้นจะได้ฟอนต์สำรอง
+export const ensureCaptionFont = async (style: CaptionStyle) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await document.fonts.load(`${style.fontWeight} 48px ${style.fontFamily}`, 'กขค');
+  } catch (e) {
+    console.warn('Failed to load caption font', e);
+  }
+};
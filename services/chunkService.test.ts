@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { TranslationSegment } from "../types";
+import { offsetSegments, planTranslationWindows, stitchWindowSegments } from "./chunkService";
+
+const segment = (id: string, start: number, end: number, originalText: string): TranslationSegment => ({
+  id,
+  start,
+  end,
+  speaker: 'Speaker 1',
+  originalText,
+  targetText: `แปล: ${originalText}`
+});
+
+const ids = (segments: TranslationSegment[]) => segments.map(s => s.id);
+
+describe('planTranslationWindows', () => {
+  it('returns no windows without a duration', () => {
+    expect(planTranslationWindows(0)).toEqual([]);
+  });
+
+  it('keeps a video that fits one window whole', () => {
+    expect(planTranslationWindows(120)).toEqual([{ index: 0, start: 0, end: 120, seam: 0 }]);
+  });
+
+  it('splits 155 s into two overlapping windows', () => {
+    expect(planTranslationWindows(155)).toEqual([
+      { index: 0, start: 0, end: 120, seam: 0 },
+      { index: 1, start: 100, end: 155, seam: 110 }
+    ]);
+  });
+
+  it('splits 300 s into three windows ending at the video end', () => {
+    expect(planTranslationWindows(300)).toEqual([
+      { index: 0, start: 0, end: 120, seam: 0 },
+      { index: 1, start: 100, end: 220, seam: 110 },
+      { index: 2, start: 200, end: 300, seam: 210 }
+    ]);
+  });
+
+  it('merges a tail shorter than the overlap into the last window', () => {
+    expect(planTranslationWindows(230)).toEqual([
+      { index: 0, start: 0, end: 120, seam: 0 },
+      { index: 1, start: 100, end: 230, seam: 110 }
+    ]);
+  });
+});
+
+describe('stitchWindowSegments', () => {
+  const seam = 110;
+
+  it('takes earlier segments from the stitched side and later ones from the new window', () => {
+    const stitched = [segment('a', 90, 95, 'first line here'), segment('b', 115, 118, 'old view of the tail')];
+    const incoming = [segment('c', 102, 106, 'something else said'), segment('d', 115, 118, 'new view of the tail')];
+    expect(ids(stitchWindowSegments(stitched, incoming, seam))).toEqual(['a', 'c', 'd']);
+  });
+
+  it('drops the stitched copy of a line that the new window places after the seam', () => {
+    const stitched = [segment('old', 108.5, 112, 'we are going to the market today')];
+    const incoming = [segment('new', 110.2, 112.3, 'we are going to the market today')];
+    expect(ids(stitchWindowSegments(stitched, incoming, seam))).toEqual(['new']);
+  });
+
+  it('drops the new copy of a line that both windows place before the seam', () => {
+    const stitched = [segment('old', 107, 109.5, 'thanks for watching everyone')];
+    const incoming = [segment('new', 107.3, 109.8, 'thanks for watching everyone')];
+    expect(ids(stitchWindowSegments(stitched, incoming, seam))).toEqual(['old']);
+  });
+
+  it('recovers a line near the seam that only the new window heard', () => {
+    const stitched = [segment('a', 95, 100, 'earlier sentence')];
+    const incoming = [segment('missed', 104, 108, 'a quiet aside'), segment('b', 112, 115, 'later sentence')];
+    expect(ids(stitchWindowSegments(stitched, incoming, seam))).toEqual(['a', 'missed', 'b']);
+  });
+});
+
+describe('offsetSegments', () => {
+  it('moves window-relative times to video time', () => {
+    const [moved] = offsetSegments([segment('a', 1, 2.5, 'hi')], 100);
+    expect(moved.start).toBe(101);
+    expect(moved.end).toBe(102.5);
+  });
+});
@@ -0,0 +1,97 @@
+import { TranslationSegment } from "../types";
+
+export interface TranslationWindow {
+  index: number;
+  start: number;
+  end: number;
+  // จุดตัดระหว่างช่วงนี้กับช่วงก่อนหน้า (กึ่งกลางของช่วงที่ซ้อนกัน)
+  seam: number;
+}
+
+// แปลทั้งก้อนได้ถ้าวิดีโอไม่ยาวเกินนี้ ยาวกว่านี้โมเดลมักสรุปความแทนการแปลทีละประโยค
+export const LONG_VIDEO_THRESHOLD = 150;
+export const WINDOW_LENGTH = 120;
+export const WINDOW_OVERLAP = 20;
+
+export const planTranslationWindows = (
+  duration: number,
+  windowLength = WINDOW_LENGTH,
+  overlap = WINDOW_OVERLAP
+): TranslationWindow[] => {
+  if (!duration || duration <= 0) return [];
+  const step = windowLength - overlap;
+  const windows: TranslationWindow[] = [];
+
+  for (let start = 0; ; start += step) {
+    const end = Math.min(duration, start + windowLength);
+    windows.push({ index: windows.length, start, end, seam: start === 0 ? 0 : start + overlap / 2 });
+    if (end >= duration) break;
+    // ช่วงสุดท้ายที่สั้นมากรวมเข้ากับช่วงก่อนหน้าแทน
+    if (duration - end < overlap) {
+      windows[windows.length - 1].end = duration;
+      break;
+    }
+  }
+  return windows;
+};
+
+const normalizeForCompare = (text: string) => text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+// ความคล้ายของข้อความแบบ bigram (Dice coefficient) ใช้ได้กับภาษาที่ไม่เว้นวรรคระหว่างคำด้วย
+const textSimilarity = (a: string, b: string): number => {
+  const x = normalizeForCompare(a);
+  const y = normalizeForCompare(b);
+  if (!x || !y) return 0;
+  if (x === y || x.includes(y) || y.includes(x)) return 1;
+
+  const bigrams = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const gram = text.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+    return counts;
+  };
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  let shared = 0;
+  gx.forEach((count, gram) => { shared += Math.min(count, gy.get(gram) || 0); });
+  const total = Math.max(1, x.length - 1 + y.length - 1);
+  return (2 * shared) / total;
+};
+
+const overlapRatio = (a: TranslationSegment, b: TranslationSegment) => {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const shorter = Math.max(0.1, Math.min(a.end - a.start, b.end - b.start));
+  return Math.max(0, overlap) / shorter;
+};
+
+const isSameUtterance = (a: TranslationSegment, b: TranslationSegment) => {
+  const similarity = textSimilarity(a.originalText || a.targetText, b.originalText || b.targetText);
+  return (overlapRatio(a, b) >= 0.5 && similarity >= 0.4)
+    || (Math.abs(a.start - b.start) < WINDOW_OVERLAP / 2 && similarity >= 0.8);
+};
+
+// รวมผลของช่วงใหม่เข้ากับผลที่ต่อกันไว้แล้ว:
+// ก่อนจุดตัดใช้ของเดิม หลังจุดตัดใช้ของช่วงใหม่ (เพราะเห็นบริบทเต็มกว่า)
+// ประโยคในช่วงซ้อนที่ฝั่งหนึ่งตกหล่นจะถูกเติมจากอีกฝั่ง และประโยคเดียวกันที่เวลาคลาดกันเล็กน้อยจะไม่ถูกนับซ้ำ
+export const stitchWindowSegments = (
+  stitched: TranslationSegment[],
+  incoming: TranslationSegment[],
+  seam: number
+): TranslationSegment[] => {
+  const before = stitched.filter(s => s.start < seam);
+  const after = incoming.filter(s => s.start >= seam);
+
+  const kept = before.filter(s => !after.some(next => isSameUtterance(s, next)));
+  const recovered = incoming
+    .filter(s => s.start < seam)
+    .filter(s => !kept.some(prev => overlapRatio(prev, s) > 0 || isSameUtterance(prev, s)))
+    .filter(s => !after.some(next => isSameUtterance(s, next)));
+
+  return [...kept, ...recovered, ...after].sort((a, b) => a.start - b.start);
+};
+
+// ย้ายเวลาจากตำแหน่งในช่วงย่อยกลับเป็นตำแหน่งในวิดีโอเต็ม
+export const offsetSegments = (segments: TranslationSegment[], offset: number): TranslationSegment[] =>
+  segments.map(s => ({ ...s, start: s.start + offset, end: s.end + offset }));
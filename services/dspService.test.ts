@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { measureLoudness, normalizeLoudness, pitchShift, timeStretch } from "./dspService";
+import { fakeAudioContext, sine } from "./testAudio";
+
+const ctx = fakeAudioContext;
+
+const rms = (buffer: AudioBuffer) => {
+  const data = buffer.getChannelData(0);
+  return Math.sqrt(data.reduce((sum, v) => sum + v * v, 0) / data.length);
+};
+
+describe('timeStretch', () => {
+  it.each([0.5, 1, 2])('scales the length by %s', ratio => {
+    const input = sine(0.5, 16000, 440, 0.5, 2);
+    const output = timeStretch(input, ratio, ctx);
+    expect(output.length).toBe(Math.round(input.length * ratio));
+    expect(output.numberOfChannels).toBe(2);
+    expect(rms(output)).toBeGreaterThan(0.2);
+  });
+
+  // เฟรมของ WSOLA ยาว 40ms (640 ตัวอย่างที่ 16kHz)
+  it.each([0.5, 2])('resamples clips shorter than one frame by %s instead of returning silence', ratio => {
+    const input = sine(0.01, 16000);
+    const output = timeStretch(input, ratio, ctx);
+    expect(output.length).toBe(Math.round(input.length * ratio));
+    expect(rms(output)).toBeGreaterThan(0.2);
+  });
+});
+
+describe('pitchShift', () => {
+  it.each([-3, 4])('keeps the duration when shifting by %s semitones', semitones => {
+    const input = sine(0.5, 16000);
+    const output = pitchShift(input, semitones, ctx);
+    expect(output.length).toBe(input.length);
+    expect(output.sampleRate).toBe(input.sampleRate);
+    expect(rms(output)).toBeGreaterThan(0.2);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it.each([-16, -23])('brings a sine wave to %s LUFS', target => {
+    const input = sine(2, 48000, 1000, 0.1);
+    const output = normalizeLoudness(input, target, ctx);
+    expect(Math.abs(measureLoudness(output) - target)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('stops at the peak ceiling', () => {
+    const input = sine(2, 48000, 1000, 0.5);
+    const output = normalizeLoudness(input, 0, ctx, -1);
+    const peak = output.getChannelData(0).reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(peak).toBeLessThanOrEqual(Math.pow(10, -1 / 20) + 1e-6);
+  });
+});
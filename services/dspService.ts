@@ -0,0 +1,336 @@
+import { VoiceEffectPreset } from "../types";
+
+// การประมวลผลเสียงที่ทำบน AudioBuffer โดยตรง (ไม่ผ่าน Web Audio graph) ผลลัพธ์เหมือนเดิมทุกครั้ง
+
+const hann = (size: number) => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  return window;
+};
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// ยืด/หดสัญญาณด้วยการ interpolate เชิงเส้นให้เต็มความยาวปลายทาง (ระดับเสียงเปลี่ยนตาม)
+const resampleChannel = (source: Float32Array, target: Float32Array) => {
+  const step = target.length > 1 ? (source.length - 1) / (target.length - 1) : 0;
+  for (let i = 0; i < target.length; i++) {
+    const pos = i * step;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    target[i] = source[idx] * (1 - frac) + (source[idx + 1] ?? source[idx]) * frac;
+  }
+};
+
+// ยืด/หดความยาวเสียงโดยไม่เปลี่ยนระดับเสียง ด้วย WSOLA
+// ratio = ความยาวใหม่ / ความยาวเดิม (0.8 = เร็วขึ้น 25%)
+export const timeStretch = (buffer: AudioBuffer, ratio: number, ctx: BaseAudioContext): AudioBuffer => {
+  if (Math.abs(ratio - 1) < 0.005) return buffer;
+
+  const sampleRate = buffer.sampleRate;
+  const frame = 2 * Math.round(sampleRate * 0.02);
+  const hop = frame / 2;
+  const tolerance = Math.round(sampleRate * 0.01);
+  const inputLength = buffer.length;
+  const outputLength = Math.max(1, Math.round(inputLength * ratio));
+  const output = ctx.createBuffer(buffer.numberOfChannels, outputLength, sampleRate);
+  // คลิปสั้นกว่าหนึ่งเฟรม WSOLA ทำงานไม่ได้ จึง resample ตรงๆ แทน (สั้นจนไม่ได้ยินความต่างของระดับเสียง)
+  if (inputLength <= frame) {
+    for (let c = 0; c < buffer.numberOfChannels; c++) resampleChannel(buffer.getChannelData(c), output.getChannelData(c));
+    return output;
+  }
+
+  const mono = mixToMono(buffer);
+  const window = hann(frame);
+  const inputs = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const sums = inputs.map(() => new Float32Array(outputLength + frame));
+  const weights = new Float32Array(outputLength + frame);
+  const maxStart = inputLength - frame;
+  let previous = 0;
+
+  for (let outPos = 0; outPos < outputLength; outPos += hop) {
+    const nominal = Math.min(maxStart, Math.round(outPos / ratio));
+    let best = nominal;
+
+    if (outPos > 0) {
+      // เลือกตำแหน่งรอบๆ ตำแหน่งตามสัดส่วน ที่คลื่นต่อเนื่องกับเฟรมก่อนหน้ามากที่สุด
+      const natural = Math.min(maxStart, previous + hop);
+      let bestScore = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta++) {
+        const candidate = nominal + delta;
+        if (candidate < 0 || candidate > maxStart) continue;
+        let score = 0;
+        for (let i = 0; i < frame; i += 2) score += mono[natural + i] * mono[candidate + i];
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+
+    for (let i = 0; i < frame; i++) {
+      const w = window[i];
+      weights[outPos + i] += w;
+      for (let c = 0; c < inputs.length; c++) sums[c][outPos + i] += inputs[c][best + i] * w;
+    }
+    previous = best;
+  }
+
+  for (let c = 0; c < inputs.length; c++) {
+    const data = output.getChannelData(c);
+    for (let i = 0; i < outputLength; i++) data[i] = weights[i] > 1e-3 ? sums[c][i] / weights[i] : 0;
+  }
+  return output;
+};
+
+// ตัดช่วงเงียบหัวท้ายที่ TTS มักเติมมา (เบากว่ายอดคลื่น 40dB) เหลือขอบไว้เล็กน้อย
+export const trimSilence = (buffer: AudioBuffer, ctx: BaseAudioContext, padding = 0.03): AudioBuffer => {
+  const mono = mixToMono(buffer);
+  let peak = 0;
+  for (let i = 0; i < mono.length; i++) peak = Math.max(peak, Math.abs(mono[i]));
+  if (peak === 0) return buffer;
+
+  const threshold = peak * 0.01;
+  let start = 0;
+  while (start < mono.length && Math.abs(mono[start]) < threshold) start++;
+  let end = mono.length - 1;
+  while (end > start && Math.abs(mono[end]) < threshold) end--;
+
+  const pad = Math.round(padding * buffer.sampleRate);
+  start = Math.max(0, start - pad);
+  end = Math.min(mono.length, end + 1 + pad);
+  if (start === 0 && end === mono.length) return buffer;
+
+  const trimmed = ctx.createBuffer(buffer.numberOfChannels, end - start, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    trimmed.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+  }
+  return trimmed;
+};
+
+// เลื่อนระดับเสียง (semitone) โดยคงความยาวเดิม: ยืดเวลาก่อนแล้ว resample กลับ
+export const pitchShift = (buffer: AudioBuffer, semitones: number, ctx: BaseAudioContext): AudioBuffer => {
+  if (Math.abs(semitones) < 0.01) return buffer;
+  const factor = Math.pow(2, semitones / 12);
+  const stretched = timeStretch(buffer, factor, ctx);
+  const output = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const source = stretched.getChannelData(c);
+    const data = output.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const pos = i * factor;
+      const idx = Math.floor(pos);
+      if (idx >= source.length) break;
+      const frac = pos - idx;
+      data[i] = source[idx] * (1 - frac) + (source[idx + 1] ?? source[idx]) * frac;
+    }
+  }
+  return output;
+};
+
+export type BiquadType = 'highpass' | 'lowshelf' | 'highshelf' | 'peaking';
+
+export interface BiquadSpec {
+  type: BiquadType;
+  frequency: number;
+  q: number;
+  gain: number;
+}
+
+// สัมประสิทธิ์ตาม Audio EQ Cookbook (RBJ) ทำให้ผลตรงกันทุกเบราว์เซอร์ ไม่ขึ้นกับ BiquadFilterNode
+const biquadCoefficients = ({ type, frequency, q, gain }: BiquadSpec, sampleRate: number) => {
+  const A = Math.pow(10, gain / 40);
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const sqrtA2alpha = 2 * Math.sqrt(A) * alpha;
+  let b: number[];
+  let a: number[];
+
+  switch (type) {
+    case 'highpass':
+      b = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+      a = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'lowshelf':
+      b = [A * ((A + 1) - (A - 1) * cos + sqrtA2alpha), 2 * A * ((A - 1) - (A + 1) * cos), A * ((A + 1) - (A - 1) * cos - sqrtA2alpha)];
+      a = [(A + 1) + (A - 1) * cos + sqrtA2alpha, -2 * ((A - 1) + (A + 1) * cos), (A + 1) + (A - 1) * cos - sqrtA2alpha];
+      break;
+    case 'highshelf':
+      b = [A * ((A + 1) + (A - 1) * cos + sqrtA2alpha), -2 * A * ((A - 1) + (A + 1) * cos), A * ((A + 1) + (A - 1) * cos - sqrtA2alpha)];
+      a = [(A + 1) - (A - 1) * cos + sqrtA2alpha, 2 * ((A - 1) - (A + 1) * cos), (A + 1) - (A - 1) * cos - sqrtA2alpha];
+      break;
+    default:
+      b = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+      a = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+  }
+  return { b0: b[0] / a[0], b1: b[1] / a[0], b2: b[2] / a[0], a1: a[1] / a[0], a2: a[2] / a[0] };
+};
+
+const filterChannel = (input: Float32Array, spec: BiquadSpec, sampleRate: number): Float32Array => {
+  const { b0, b1, b2, a1, a2 } = biquadCoefficients(spec, sampleRate);
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+export const applyFilters = (buffer: AudioBuffer, filters: BiquadSpec[], ctx: BaseAudioContext): AudioBuffer => {
+  if (filters.length === 0) return buffer;
+  const output = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = filters.reduce((signal, spec) => filterChannel(signal, spec, buffer.sampleRate), buffer.getChannelData(c));
+    output.copyToChannel(data, c);
+  }
+  return output;
+};
+
+export interface CompressorSpec {
+  threshold: number;
+  ratio: number;
+  attack: number;
+  release: number;
+  makeup: number;
+}
+
+// คอมเพรสเซอร์แบบ feed-forward ตามยอดคลื่น ทุกช่องใช้ค่าลดเสียงเดียวกันเพื่อไม่ให้ภาพเสียงเพี้ยน
+export const compress = (buffer: AudioBuffer, spec: CompressorSpec, ctx: BaseAudioContext): AudioBuffer => {
+  const sampleRate = buffer.sampleRate;
+  const attack = Math.exp(-1 / (spec.attack * sampleRate));
+  const release = Math.exp(-1 / (spec.release * sampleRate));
+  const inputs = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const output = ctx.createBuffer(buffer.numberOfChannels, buffer.length, sampleRate);
+  const outputs = inputs.map((_, c) => output.getChannelData(c));
+  let gainDb = 0;
+
+  for (let i = 0; i < buffer.length; i++) {
+    let level = 0;
+    for (const data of inputs) level = Math.max(level, Math.abs(data[i]));
+    const over = 20 * Math.log10(level + 1e-9) - spec.threshold;
+    const target = over > 0 ? -over * (1 - 1 / spec.ratio) : 0;
+    const coef = target < gainDb ? attack : release;
+    gainDb = coef * gainDb + (1 - coef) * target;
+    const gain = Math.pow(10, (gainDb + spec.makeup) / 20);
+    for (let c = 0; c < inputs.length; c++) outputs[c][i] = inputs[c][i] * gain;
+  }
+  return output;
+};
+
+// ตัวกรอง K-weighting ของ ITU-R BS.1770 (high shelf + high pass) ประมาณด้วยสูตร RBJ เหมือน pyloudnorm
+const K_WEIGHTING: BiquadSpec[] = [
+  { type: 'highshelf', frequency: 1500, q: Math.SQRT1_2, gain: 4 },
+  { type: 'highpass', frequency: 38, q: 0.5, gain: 0 }
+];
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+const powerToLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// ความดังแบบ integrated (LUFS) ตาม BS.1770: บล็อก 400ms ซ้อนกัน 75% พร้อม gate แบบ absolute และ relative
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const sampleRate = buffer.sampleRate;
+  const weighted = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    K_WEIGHTING.reduce((signal, spec) => filterChannel(signal, spec, sampleRate), buffer.getChannelData(c))
+  );
+  const blockSize = Math.min(buffer.length, Math.round(BLOCK_SECONDS * sampleRate));
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  if (blockSize === 0) return -Infinity;
+
+  const powers: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+      power += sum / blockSize;
+    }
+    powers.push(power);
+  }
+
+  const aboveAbsolute = powers.filter(p => powerToLufs(p) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const relativeGate = powerToLufs(aboveAbsolute.reduce((a, b) => a + b, 0) / aboveAbsolute.length) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(p => powerToLufs(p) > relativeGate);
+  return powerToLufs(gated.reduce((a, b) => a + b, 0) / gated.length);
+};
+
+// ปรับความดังให้ได้ LUFS เป้าหมาย โดยไม่ให้ยอดคลื่นเกิน ceiling (dBFS) ถ้าชนเพดานจะดังได้ไม่ถึงเป้า
+export const normalizeLoudness = (buffer: AudioBuffer, targetLufs: number, ctx: BaseAudioContext, ceiling = -1): AudioBuffer => {
+  const loudness = measureLoudness(buffer);
+  if (!isFinite(loudness)) return buffer;
+
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  const gain = Math.min(Math.pow(10, (targetLufs - loudness) / 20), Math.pow(10, ceiling / 20) / peak);
+
+  const output = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const source = buffer.getChannelData(c);
+    const data = output.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] = source[i] * gain;
+  }
+  return output;
+};
+
+export interface EffectPreset {
+  filters: BiquadSpec[];
+  compressor?: CompressorSpec;
+}
+
+export const EFFECT_PRESETS: Record<VoiceEffectPreset, EffectPreset> = {
+  none: { filters: [] },
+  broadcast: {
+    filters: [
+      { type: 'highpass', frequency: 80, q: 0.707, gain: 0 },
+      { type: 'peaking', frequency: 3000, q: 1, gain: 3 }
+    ],
+    compressor: { threshold: -18, ratio: 3, attack: 0.005, release: 0.12, makeup: 3 }
+  },
+  podcast: {
+    filters: [
+      { type: 'highpass', frequency: 90, q: 0.707, gain: 0 },
+      { type: 'peaking', frequency: 300, q: 1, gain: -2 },
+      { type: 'peaking', frequency: 4000, q: 1, gain: 2 }
+    ],
+    compressor: { threshold: -20, ratio: 4, attack: 0.003, release: 0.1, makeup: 4 }
+  },
+  warm: {
+    filters: [
+      { type: 'lowshelf', frequency: 200, q: 0.707, gain: 3 },
+      { type: 'highshelf', frequency: 8000, q: 0.707, gain: -2 }
+    ],
+    compressor: { threshold: -16, ratio: 2, attack: 0.01, release: 0.2, makeup: 1.5 }
+  },
+  bright: {
+    filters: [
+      { type: 'highpass', frequency: 100, q: 0.707, gain: 0 },
+      { type: 'highshelf', frequency: 6000, q: 0.707, gain: 4 }
+    ]
+  }
+};
+
+export const applyEffectPreset = (buffer: AudioBuffer, preset: VoiceEffectPreset, ctx: BaseAudioContext): AudioBuffer => {
+  const { filters, compressor } = EFFECT_PRESETS[preset] || EFFECT_PRESETS.none;
+  const filtered = applyFilters(buffer, filters, ctx);
+  return compressor ? compress(filtered, compressor, ctx) : filtered;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { ClipPlacement, TranslationSegment } from "../types";
+import { fitClipDuration, isWithinTolerance, MAX_FIT_REWRITES, MIN_STRETCH_RATIO, measureDubFit } from "./durationFitService";
+import { fakeAudioContext, sine } from "./testAudio";
+
+const RATE = 8000;
+
+// พากย์ตามลำดับความยาวที่กำหนด (ครั้งที่เกินรายการใช้ความยาวสุดท้ายซ้ำ)
+const synthesizer = (...seconds: number[]) => {
+  let call = 0;
+  return vi.fn(async (_text: string) => sine(seconds[Math.min(call++, seconds.length - 1)], RATE));
+};
+
+const rewriter = () => vi.fn(async (text: string) => `${text}*`);
+
+describe('fitClipDuration', () => {
+  it('keeps a clip within the tolerance as it is', async () => {
+    const synthesize = synthesizer(2.08);
+    const rewrite = rewriter();
+    const fitted = await fitClipDuration('สวัสดี', { max: 2, min: null }, fakeAudioContext, synthesize, rewrite);
+    expect(fitted).toMatchObject({ text: 'สวัสดี', method: 'none', rewrites: 0 });
+    expect(fitted.buffer.duration).toBeCloseTo(2.08, 2);
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(rewrite).not.toHaveBeenCalled();
+  });
+
+  it('lets a clip be shorter than its slot when no minimum is set', async () => {
+    const fitted = await fitClipDuration('สวัสดี', { max: 2, min: null }, fakeAudioContext, synthesizer(1), rewriter());
+    expect(fitted.method).toBe('none');
+  });
+
+  it('stretches a clip that is off by a natural-sounding amount', async () => {
+    const fitted = await fitClipDuration('สวัสดี', { max: 2, min: null }, fakeAudioContext, synthesizer(2.4), rewriter());
+    expect(fitted.method).toBe('stretch');
+    expect(fitted.buffer.duration).toBeCloseTo(2, 1);
+  });
+
+  it('rewrites a clip that is too long to stretch and re-voices the new text', async () => {
+    const synthesize = synthesizer(4, 2.05);
+    const rewrite = rewriter();
+    const fitted = await fitClipDuration('ประโยคยาว', { max: 2, min: null }, fakeAudioContext, synthesize, rewrite);
+    expect(rewrite).toHaveBeenCalledWith('ประโยคยาว', 2, expect.closeTo(4, 1));
+    expect(synthesize).toHaveBeenLastCalledWith('ประโยคยาว*');
+    expect(fitted).toMatchObject({ text: 'ประโยคยาว*', method: 'rewrite', rewrites: 1 });
+  });
+
+  it('rewrites a clip that is too short to fill its slot', async () => {
+    const fitted = await fitClipDuration('สั้น', { max: 3, min: 2 }, fakeAudioContext, synthesizer(1, 2), rewriter());
+    expect(fitted).toMatchObject({ method: 'rewrite', rewrites: 1 });
+  });
+
+  it('stops rewriting after the limit and clamps the final stretch', async () => {
+    const rewrite = rewriter();
+    const fitted = await fitClipDuration('ยาวมาก', { max: 2, min: null }, fakeAudioContext, synthesizer(4), rewrite);
+    expect(rewrite).toHaveBeenCalledTimes(MAX_FIT_REWRITES);
+    expect(fitted.rewrites).toBe(MAX_FIT_REWRITES);
+    expect(fitted.buffer.duration).toBeCloseTo(4 * MIN_STRETCH_RATIO, 1);
+  });
+});
+
+describe('measureDubFit', () => {
+  const segment = (id: string, start: number, end: number): TranslationSegment => ({
+    id, start, end, speaker: 'Speaker 1', originalText: '', targetText: 'ข้อความ'
+  });
+  const placement = (segmentId: string, offset: number, duration: number): ClipPlacement => ({ segmentId, offset, duration, overrun: 0 });
+  const segments = [segment('a', 0, 2), segment('b', 2, 4), segment('c', 4, 6)];
+
+  it('counts clips that run past their own slot', () => {
+    const report = measureDubFit([placement('a', 0, 2.05), placement('b', 2, 2.5), placement('c', 4, 1)], segments, false, ['none', 'stretch', 'rewrite']);
+    expect(report).toMatchObject({ clips: 3, overrunning: 1, short: 0, stretched: 1, rewritten: 1 });
+    expect(report.maxOverrun).toBeCloseTo(0.5);
+    expect(isWithinTolerance(report)).toBe(false);
+  });
+
+  it('counts short clips only when slots must be filled', () => {
+    const placements = [placement('a', 0, 2), placement('b', 2, 1), placement('c', 4, 1.95)];
+    expect(measureDubFit(placements, segments, false).short).toBe(0);
+    expect(measureDubFit(placements, segments, true).short).toBe(1);
+    expect(isWithinTolerance(measureDubFit(placements, segments, false))).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { ClipPlacement, TranslationSegment } from "../types";
+import { timeStretch, trimSilence } from "./dspService";
+
+export type FitMethod = 'none' | 'stretch' | 'rewrite';
+
+export interface FittedClip {
+  buffer: AudioBuffer;
+  text: string;
+  method: FitMethod;
+  rewrites: number;
+}
+
+export interface DubFitReport {
+  clips: number;
+  // ประโยคที่พูดเลยจุดจบของช่วงตัวเอง และวินาทีที่เลยมากที่สุด
+  overrunning: number;
+  maxOverrun: number;
+  // ประโยคที่สั้นกว่าช่วงของตัวเองมาก (นับเฉพาะเมื่อต้องพูดให้เต็มช่วง)
+  short: number;
+  stretched: number;
+  rewritten: number;
+}
+
+// คลาดเคลื่อนได้ไม่เกิน 5% ก่อนต้องแก้
+export const FIT_TOLERANCE = 0.05;
+// ยืด/หดได้เท่านี้โดยเสียงยังฟังเป็นธรรมชาติ เกินจากนี้ให้เขียนประโยคใหม่แทน
+export const MIN_STRETCH_RATIO = 0.77;
+export const MAX_STRETCH_RATIO = 1.15;
+export const MAX_FIT_REWRITES = 2;
+
+export interface FitTarget {
+  // ห้ามยาวเกิน (ช่วงจนถึงประโยคถัดไป) และควรยาวอย่างน้อย (null = สั้นกว่าได้)
+  max: number;
+  min: number | null;
+}
+
+const desiredLength = (duration: number, target: FitTarget): number | null => {
+  if (duration > target.max * (1 + FIT_TOLERANCE)) return target.max;
+  if (target.min !== null && duration < target.min * (1 - FIT_TOLERANCE)) return target.min;
+  return null;
+};
+
+// วัดความยาวเสียงจริง ถ้าไม่พอดีช่วงเวลา: ยืด/หดเสียงถ้าอยู่ในขอบเขตที่ฟังรู้เรื่อง
+// ไม่เช่นนั้นขอประโยคที่สั้น/ยาวขึ้นแล้วพากย์ใหม่ (สูงสุด MAX_FIT_REWRITES ครั้ง) ก่อนยืด/หดส่วนที่เหลือ
+export const fitClipDuration = async (
+  text: string,
+  target: FitTarget,
+  ctx: BaseAudioContext,
+  synthesize: (text: string) => Promise<AudioBuffer>,
+  rewrite: (text: string, targetSeconds: number, currentSeconds: number) => Promise<string>
+): Promise<FittedClip> => {
+  let currentText = text;
+  let buffer = trimSilence(await synthesize(currentText), ctx);
+  let rewrites = 0;
+
+  for (;;) {
+    const desired = desiredLength(buffer.duration, target);
+    if (desired === null) return { buffer, text: currentText, method: rewrites ? 'rewrite' : 'none', rewrites };
+
+    const ratio = desired / buffer.duration;
+    if ((ratio >= MIN_STRETCH_RATIO && ratio <= MAX_STRETCH_RATIO) || rewrites >= MAX_FIT_REWRITES) {
+      const clamped = Math.min(MAX_STRETCH_RATIO, Math.max(MIN_STRETCH_RATIO, ratio));
+      return { buffer: timeStretch(buffer, clamped, ctx), text: currentText, method: rewrites ? 'rewrite' : 'stretch', rewrites };
+    }
+
+    currentText = await rewrite(currentText, desired, buffer.duration);
+    buffer = trimSilence(await synthesize(currentText), ctx);
+    rewrites++;
+  }
+};
+
+// เทียบเสียงพากย์แต่ละคลิปกับช่วงเวลาของประโยคตัวเอง (การปรับความยาวทำทีละประโยค จึงวัดทีละประโยคด้วย)
+export const measureDubFit = (
+  placements: ClipPlacement[],
+  segments: TranslationSegment[],
+  fillSlots: boolean,
+  methods: FitMethod[] = []
+): DubFitReport => {
+  let overrunning = 0;
+  let maxOverrun = 0;
+  let short = 0;
+  for (const placement of placements) {
+    const segment = segments.find(s => s.id === placement.segmentId);
+    if (!segment) continue;
+    const slot = segment.end - segment.start;
+    const overrun = placement.offset + placement.duration - segment.end;
+    if (overrun > slot * FIT_TOLERANCE) {
+      overrunning++;
+      maxOverrun = Math.max(maxOverrun, overrun);
+    } else if (fillSlots && placement.duration < slot * (1 - FIT_TOLERANCE)) {
+      short++;
+    }
+  }
+  return {
+    clips: placements.length,
+    overrunning,
+    maxOverrun,
+    short,
+    stretched: methods.filter(m => m === 'stretch').length,
+    rewritten: methods.filter(m => m === 'rewrite').length
+  };
+};
+
+export const isWithinTolerance = (report: DubFitReport) =>
+  report.overrunning === 0 && report.short === 0;
@@ -0,0 +1,167 @@
+import { GoogleGenAI, FileState } from "@google/genai";
+import { VideoInput } from "../types";
+
+// คำขอแบบ inline ของ Gemini จำกัดขนาดรวมราว 20MB (base64 ทำให้ใหญ่ขึ้นอีก 1/3) ไฟล์ที่ใหญ่กว่านี้ต้องผ่าน Files API
+export const INLINE_MAX_BYTES = 14 * 1024 * 1024;
+export const FILES_API_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+
+// ขนาดแต่ละ chunk ต้องเป็นผลคูณของ 256KiB ตามโปรโตคอล resumable upload
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+// วิดีโอยาวใช้เวลาประมวลผลหลายนาที ถ้าเกินนี้ถือว่าค้าง
+const ACTIVATION_TIMEOUT_MS = 10 * 60 * 1000;
+const ACTIVATION_POLL_MS = 2000;
+const UPLOAD_BASE_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+export const readAsBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const startResumableUpload = async (size: number, mimeType: string, displayName: string, signal?: AbortSignal) => {
+  const response = await fetch(`${UPLOAD_BASE_URL}?key=${process.env.API_KEY}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': size.toString(),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ file: { display_name: displayName } })
+  });
+
+  const uploadUrl = response.headers.get('x-goog-upload-url');
+  if (!response.ok || !uploadUrl) {
+    throw new Error(`ไม่สามารถเริ่มอัปโหลดไฟล์ได้ (${response.status})`);
+  }
+  return uploadUrl;
+};
+
+// ถามเซิร์ฟเวอร์ว่ารับข้อมูลไปแล้วกี่ไบต์ เพื่ออัปโหลดต่อจากจุดที่ค้าง
+export const queryUploadedBytes = async (uploadUrl: string, signal?: AbortSignal): Promise<number | null> => {
+  try {
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      signal,
+      headers: { 'X-Goog-Upload-Command': 'query' }
+    });
+    const received = response.headers.get('x-goog-upload-size-received');
+    return received !== null ? parseInt(received, 10) : null;
+  } catch {
+    return null;
+  }
+};
+
+// ส่งข้อมูลหนึ่ง chunk คืนข้อมูลไฟล์เมื่อเป็น chunk สุดท้าย
+export const uploadChunk = async (
+  uploadUrl: string,
+  body: Blob | Uint8Array,
+  offset: number,
+  isLast: boolean,
+  signal?: AbortSignal
+): Promise<{ name: string } | null> => {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    signal,
+    headers: {
+      'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+      'X-Goog-Upload-Offset': offset.toString()
+    },
+    body
+  });
+  if (!response.ok) throw new Error(`อัปโหลดไม่สำเร็จ (${response.status})`);
+  if (!isLast) return null;
+  const result = await response.json();
+  if (!result?.file?.name) throw new Error('อัปโหลดไฟล์ไม่สำเร็จ');
+  return result.file;
+};
+
+const waitUntilActive = async (ai: GoogleGenAI, name: string, signal?: AbortSignal) => {
+  // วิดีโอต้องผ่านการประมวลผลฝั่งเซิร์ฟเวอร์ก่อนจึงจะใช้ใน generateContent ได้
+  const deadline = Date.now() + ACTIVATION_TIMEOUT_MS;
+  for (;;) {
+    throwIfAborted(signal);
+    const file = await ai.files.get({ name, config: { abortSignal: signal } });
+    if (file.state === FileState.ACTIVE) return file;
+    if (file.state === FileState.FAILED) {
+      throw new Error(file.error?.message || 'Gemini ไม่สามารถประมวลผลไฟล์วิดีโอที่อัปโหลดได้');
+    }
+    if (Date.now() >= deadline) throw new Error('Gemini ประมวลผลไฟล์วิดีโอนานเกินไป กรุณาลองใหม่');
+    await delay(ACTIVATION_POLL_MS);
+  }
+};
+
+export const uploadVideoFile = async (
+  blob: Blob,
+  mimeType: string,
+  displayName: string,
+  onProgress?: (ratio: number) => void,
+  signal?: AbortSignal
+): Promise<VideoInput> => {
+  if (blob.size > FILES_API_MAX_BYTES) {
+    throw new Error('ไฟล์มีขนาดใหญ่เกินไป (จำกัด 2GB)');
+  }
+
+  const uploadUrl = await startResumableUpload(blob.size, mimeType, displayName, signal);
+  let offset = 0;
+  let uploaded: { name: string } | null = null;
+  onProgress?.(0);
+
+  while (offset < blob.size) {
+    const end = Math.min(offset + CHUNK_SIZE, blob.size);
+    const isLast = end === blob.size;
+    let attempt = 0;
+
+    for (;;) {
+      throwIfAborted(signal);
+      try {
+        uploaded = await uploadChunk(uploadUrl, blob.slice(offset, end), offset, isLast, signal);
+        offset = end;
+        break;
+      } catch (e: any) {
+        if (e.name === 'AbortError' || attempt >= MAX_CHUNK_RETRIES) throw e;
+        attempt++;
+        await delay(Math.pow(2, attempt) * 1000);
+        const received = await queryUploadedBytes(uploadUrl, signal);
+        if (received !== null && received > offset) {
+          offset = received;
+          break;
+        }
+      }
+    }
+
+    onProgress?.(offset / blob.size);
+  }
+
+  // ไบต์สุดท้ายถึงแล้วแต่คำตอบของ chunk สุดท้ายหายไป: สั่ง finalize อีกครั้ง (ไม่มีข้อมูล) เพื่อรับข้อมูลไฟล์
+  if (!uploaded) uploaded = await uploadChunk(uploadUrl, new Uint8Array(0), blob.size, true, signal);
+  if (!uploaded) throw new Error('อัปโหลดไฟล์ไม่สำเร็จ');
+  return activateUploadedFile(uploaded.name, mimeType, signal);
+};
+
+// รอให้ไฟล์ที่อัปโหลดเสร็จพร้อมใช้งาน แล้วคืนเป็น VideoInput
+export const activateUploadedFile = async (name: string, mimeType: string, signal?: AbortSignal): Promise<VideoInput> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const file = await waitUntilActive(ai, name, signal);
+  return { kind: 'file', uri: file.uri!, mimeType: file.mimeType || mimeType, name: file.name! };
+};
+
+export const deleteUploadedFile = async (input: VideoInput | null) => {
+  if (!input || input.kind !== 'file') return;
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    await ai.files.delete({ name: input.name });
+  } catch (e) {
+    console.warn(`Failed to delete uploaded file ${input.name}`, e);
+  }
+};
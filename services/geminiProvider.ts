@@ -0,0 +1,165 @@
+import { GoogleGenAI, Modality, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { ModelTask, TaskModelConfig, VideoInput } from "../types";
+import { AIProvider, SpeechRequest, SpeechResult } from "./aiProviderService";
+import { deleteUploadedFile, uploadVideoFile } from "./fileUploadService";
+import { validateTaskModel } from "./modelCatalog";
+
+const TTS_SAMPLE_RATE = 24000;
+
+// การตั้งค่าความปลอดภัยที่อนุญาตให้เจ็นคำหยาบและภาษาดุเดือดได้เต็มที่
+const safetySettings = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE, // อนุญาตคำที่ดูเหมือนการคุกคาม/ดุดัน
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_NONE, // อนุญาตคำแสลงดุๆ
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_NONE, // ป้องกันการเข้าใจผิดในคำกำกวม (เช่น ลึกๆ, ยัน)
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+];
+
+// ตรวจว่าโมเดลที่เลือกรองรับชนิดข้อมูลของงานนี้ ก่อนเสียโควต้าเรียก API
+const generationConfig = (task: ModelTask, generation: TaskModelConfig) => {
+  const error = validateTaskModel(task, generation);
+  if (error) throw new Error(error);
+  return {
+    temperature: generation.temperature,
+    ...(generation.thinkingBudget !== null ? { thinkingConfig: { thinkingBudget: generation.thinkingBudget } } : {}),
+    safetySettings
+  };
+};
+
+const videoPart = (video: VideoInput) => video.kind === 'inline'
+  ? { inlineData: { data: video.data, mimeType: video.mimeType } }
+  : { fileData: { fileUri: video.uri, mimeType: video.mimeType } };
+
+function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Gemini ตั้งเสียงหลายผู้พูดได้พอดีสองคน ชื่อในพรอมต์ต้องตรงกับชื่อใน speakerVoiceConfigs
+const MULTI_SPEAKER_COUNT = 2;
+
+// คลิปที่มีสองผู้พูด: ส่งเสียงของทั้งคู่ผ่าน multiSpeakerVoiceConfig แล้วระบุผู้พูดหน้าบรรทัด
+// ยังพากย์ทีละประโยค เพราะเสียงที่ได้ต้องวางลงช่วงเวลาของประโยคนั้นและปรับความยาวแยกกัน
+// ผู้พูดคนเดียวหรือเกินสองคน (เกินขีดจำกัดของ API) ใช้เสียงเดี่ยวที่กำหนดให้ผู้พูดคนนั้น
+const speechInput = (request: SpeechRequest) => {
+  const cast = request.cast || [];
+  const index = cast.findIndex(member => member.speaker === request.speaker);
+  if (cast.length !== MULTI_SPEAKER_COUNT || index < 0) {
+    return {
+      prompt: request.prompt,
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: request.voiceName } } }
+    };
+  }
+  const alias = (i: number) => `Speaker${i + 1}`;
+  return {
+    prompt: `${request.instructions.trim()}\n${alias(index)}: ${request.text}`,
+    speechConfig: {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: cast.map((member, i) => ({
+          speaker: alias(i),
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: member.voiceName } }
+        }))
+      }
+    }
+  };
+};
+
+const synthesize = async (request: SpeechRequest, retryAttempt: number = 0): Promise<SpeechResult> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const { prompt, speechConfig } = speechInput(request);
+  const response = await ai.models.generateContent({
+    model: request.generation.model,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      ...generationConfig('speech', request.generation),
+      responseModalities: [Modality.AUDIO],
+      speechConfig
+    },
+  });
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && candidate.finishReason !== 'STOP') {
+    console.warn(`[Gemini TTS] การสร้างเสียงหยุดทำงานกะทันหัน: ${candidate.finishReason}`);
+    console.warn(`[Gemini TTS] ข้อความที่เป็นสาเหตุ: "${request.text}"`);
+
+    if (retryAttempt < 2) {
+      console.log(`[Gemini TTS] กำลังลองพยายามครั้งใหม่ (ครั้งที่ ${retryAttempt + 1})...`);
+      await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryAttempt + 1) * 1000));
+      return synthesize(request, retryAttempt + 1);
+    }
+
+    const errorMessage = candidate.finishReason === 'OTHER'
+      ? `การสร้างเสียงถูกระงับ (OTHER) - เป็นไปได้ว่าในข้อความมีคำที่ระบบความปลอดภัยของ AI ปฏิเสธที่จะออกเสียง (แม้จะปิด Filter แล้วก็ตาม)`
+      : `การสร้างเสียงถูกระงับ (${candidate.finishReason})`;
+
+    throw new Error(errorMessage);
+  }
+
+  const audioPart = candidate?.content?.parts?.find(p => p.inlineData?.data);
+  const base64Audio = audioPart?.inlineData?.data;
+
+  if (!base64Audio) throw new Error('API ไม่ส่งข้อมูลเสียง');
+
+  return { pcm: decodeBase64(base64Audio), sampleRate: TTS_SAMPLE_RATE };
+};
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  supportsVideoClips: true,
+  supportsVoiceCloning: false,
+
+  translateVideo: async ({ video, prompt, schema, generation, clip }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    // ช่วงย่อยของวิดีโอยาวอ้างอิงไฟล์เดิม แล้วระบุช่วงเวลาผ่าน videoMetadata แทนการตัดไฟล์ใหม่
+    const part = clip
+      ? { ...videoPart(video), videoMetadata: { startOffset: `${clip.start.toFixed(1)}s`, endOffset: `${clip.end.toFixed(1)}s` } }
+      : videoPart(video);
+
+    const response = await ai.models.generateContent({
+      model: generation.model,
+      contents: { parts: [part, { text: prompt }] },
+      config: {
+        ...generationConfig('translation', generation),
+        responseMimeType: 'application/json',
+        responseSchema: schema
+      }
+    });
+    return response.text || '';
+  },
+
+  rewrite: async ({ prompt, generation, schema }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: generation.model,
+      contents: prompt,
+      config: {
+        ...generationConfig('hook', generation),
+        ...(schema ? { responseMimeType: 'application/json', responseSchema: schema } : {})
+      }
+    });
+    return response.text || '';
+  },
+
+  synthesize: request => synthesize(request),
+
+  uploadVideo: uploadVideoFile,
+
+  deleteVideo: deleteUploadedFile
+});
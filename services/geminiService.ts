@@ -1,6 +1,14 @@
 
-import { GoogleGenAI, Modality, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { VoiceSettings } from "../types";
+import { Type } from "@google/genai";
+import { Gender, GenerationContext, SpeakerProfile, TargetLanguage, TranslationSegment, VideoInput, VideoTranslation, VoiceSettings } from "../types";
+import { AIProvider, SpeechResult, getActiveProvider } from "./aiProviderService";
+import { resolveDefaultVoice } from "./modelSettingsService";
+import { ParsedTranslation, parseTranslationResponse } from "./segmentService";
+import { LONG_VIDEO_THRESHOLD, TranslationWindow, offsetSegments, planTranslationWindows, stitchWindowSegments } from "./chunkService";
+import { buildSpeakerProfiles } from "./speakerService";
+import { getLanguageProfile, getDialect, getSourceLanguageName } from "./languageProfiles";
+import { buildGlossaryInstruction, findRelevantTerms } from "./glossaryService";
+import { describeVoice } from "./voiceMatchService";
 
 const moodToEnglish = (mood: string) => {
   switch (mood) {
@@ -8,245 +16,352 @@ const moodToEnglish = (mood: string) => {
     case 'excited': return 'excitedly';
     case 'soft': return 'softly and gently';
     case 'serious': return 'seriously and formally';
-    case 'isan': return 'with a friendly Isan (Northeastern Thai) dialect and accent';
     default: return 'naturally';
   }
 };
 
+// ต่อท้ายพรอมต์ด้วยคำที่ล็อกไว้ (ถ้ามี)
+const withGlossary = (prompt: string, instruction: string) => instruction ? `${prompt}\n\n${instruction}` : prompt;
+
+// งานเขียนใหม่ส่งเฉพาะคำล็อกที่อยู่ในข้อความ ไม่ให้พรอมต์ยาวโดยไม่จำเป็น
+const relevantGlossary = (text: string, context: GenerationContext) => buildGlossaryInstruction(findRelevantTerms(text, context.glossary));
+
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const cleanTextForSpeech = (text: string): string => {
+// ไม่ตัดความยาวข้อความอีกต่อไป วิดีโอยาวถูกแบ่งเป็นประโยคย่อยตั้งแต่ตอนแปลแล้ว
+// ภาษาที่มีอะพอสทรอฟีในคำ ลบเฉพาะที่ใช้เป็นเครื่องหมายคำพูด (ไม่ให้ "don't" กลายเป็น "dont")
+const cleanTextForSpeech = (text: string, language: TargetLanguage): string => {
   if (!text) return "";
-  let cleaned = text
+  const quotes = getLanguageProfile(language).keepsApostrophes ? /"|(?<!\p{L})'|'(?!\p{L})/gu : /["']/g;
+  return text
     .replace(/[*_#`~]/g, '')
     .replace(/[\[\]\(\)]/g, ' ')
-    .replace(/["']/g, '')
+    .replace(quotes, '')
     .replace(/\s+/g, ' ')
     .trim();
+};
+
+const buildTranslationSchema = (languageName: string) => ({
+  type: Type.OBJECT,
+  properties: {
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'Speaker label exactly as used in segments, e.g. "Speaker 1".' },
+          gender: { type: Type.STRING, enum: ['male', 'female'], description: 'Perceived gender of the speaker voice.' }
+        },
+        required: ['id', 'gender'],
+        propertyOrdering: ['id', 'gender']
+      }
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Start time of the utterance in seconds from the beginning of the video.' },
+          end: { type: Type.NUMBER, description: 'End time of the utterance in seconds from the beginning of the video.' },
+          speaker: { type: Type.STRING, description: 'Short consistent label for the speaker, e.g. "Speaker 1".' },
+          originalText: { type: Type.STRING, description: 'What was said, in the original spoken language.' },
+          targetText: { type: Type.STRING, description: `The ${languageName} translation of this utterance.` }
+        },
+        required: ['start', 'end', 'speaker', 'originalText', 'targetText'],
+        propertyOrdering: ['start', 'end', 'speaker', 'originalText', 'targetText']
+      }
+    }
+  },
+  required: ['speakers', 'segments'],
+  propertyOrdering: ['speakers', 'segments']
+});
+
+// ประโยคท้ายๆ ของช่วงก่อนหน้าที่ส่งไปเป็นบริบท ให้คำแปลและชื่อผู้พูดต่อเนื่องกัน
+const CONTEXT_LINES = 8;
 
-  if (cleaned.length > 800) {
-    cleaned = cleaned.substring(0, 797) + "...";
+interface WindowContext {
+  window: TranslationWindow;
+  previous: TranslationSegment[];
+  speakerGenders: Record<string, Gender>;
+}
+
+const buildWindowInstruction = ({ window, previous, speakerGenders }: WindowContext) => {
+  const lines = [
+    `This is part ${window.index + 1} of a longer video: only the clip from ${window.start.toFixed(1)}s to ${window.end.toFixed(1)}s is attached.`,
+    'Give every start and end time in seconds relative to the beginning of this clip (0 = the first frame of the clip).',
+    'Translate every utterance in the clip completely; do not summarize and do not skip lines at the beginning or end of the clip, even if a line is cut off.'
+  ];
+
+  const known = Object.entries(speakerGenders);
+  if (known.length > 0) {
+    lines.push(`Speakers already identified earlier in the video (reuse these exact labels for the same people): ${known.map(([id, gender]) => `${id} (${gender})`).join(', ')}.`);
+  }
+  if (previous.length > 0) {
+    lines.push('For context, these were the last lines translated just before this clip (keep terminology and style consistent, do not repeat them unless they are spoken again inside the clip):');
+    lines.push(...previous.map(s => `${s.speaker}: ${s.originalText} => ${s.targetText}`));
   }
-  return cleaned;
+  return lines.join('\n');
 };
 
-// การตั้งค่าความปลอดภัยที่อนุญาตให้เจ็นคำหยาบและภาษาดุเดือดได้เต็มที่
-const safetySettings = [
-  {
-    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE, // อนุญาตคำที่ดูเหมือนการคุกคาม/ดุดัน
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-    threshold: HarmBlockThreshold.BLOCK_NONE, // อนุญาตคำแสลงดุๆ
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-    threshold: HarmBlockThreshold.BLOCK_NONE, // ป้องกันการเข้าใจผิดในคำกำกวม (เช่น ลึกๆ, ยัน)
-  },
-  {
-    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-    threshold: HarmBlockThreshold.BLOCK_NONE,
-  },
-];
+const requestTranslation = async (
+  provider: AIProvider,
+  video: VideoInput,
+  settings: VoiceSettings,
+  context: GenerationContext,
+  duration?: number,
+  windowContext?: WindowContext
+): Promise<ParsedTranslation> => {
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const dialect = getDialect(profile, settings.dialect);
+  const sourceName = getSourceLanguageName(settings.sourceLanguage);
+  const clipDuration = windowContext ? windowContext.window.end - windowContext.window.start : duration;
+
+  const speedInstruction = settings.speed === 'sync' && clipDuration
+    ? `IMPORTANT: The video is ${clipDuration.toFixed(1)}s long. Summarize and translate into ${profile.englishName} VERY SHORT and PUNCHY.`
+    : `Translate into ${profile.englishName} naturally.`;
+
+  const sourceInstruction = sourceName
+    ? `The spoken language is ${sourceName}; do not try to detect it.`
+    : "Detect the spoken language automatically.";
+
+  const raw = await provider.translateVideo({
+    video,
+    prompt: withGlossary(`Analyze video content. ${sourceInstruction} ${dialect.translateInstruction} ${speedInstruction} Tone: ${moodToEnglish(settings.mood)}. 
+        ${profile.registers[settings.intensity].translate}
+        Identify every distinct speaker by voice and appearance and keep the same label ("Speaker 1", "Speaker 2", ...) for the same person throughout the whole video; list each one with their gender.
+        Split the speech into utterances in the order they are spoken. For each utterance give its start and end time in seconds, the speaker, the original text and the ${profile.englishName} translation.
+        Translated text must be plain spoken words only, without markdown or stage directions.${windowContext ? `\n${buildWindowInstruction(windowContext)}` : ''}`,
+      buildGlossaryInstruction(context.glossary)),
+    schema: buildTranslationSchema(profile.englishName),
+    generation: context.models.translation,
+    targetLanguage: settings.targetLanguage,
+    clip: windowContext ? { start: windowContext.window.start, end: windowContext.window.end } : undefined,
+    duration: clipDuration
+  });
+
+  return parseTranslationResponse(raw, clipDuration, !!windowContext);
+};
 
 export const translateVideoContent = async (
-  videoBase64: string,
-  mimeType: string,
+  video: VideoInput,
   settings: VoiceSettings,
-  duration?: number
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const speedInstruction = settings.speed === 'sync' && duration
-    ? `IMPORTANT: The video is ${duration.toFixed(1)}s long. Summarize and translate into Thai VERY SHORT and PUNCHY.`
-    : "Translate into Thai naturally.";
-
-  const dialectInstruction = settings.mood === 'isan'
-    ? "Use Isan dialect."
-    : "Use standard Thai.";
-
-  const intensityInstruction = settings.intensity === 'polite'
-    ? "Use extremely polite and formal Thai (incl. krup/ka). NO PROFANITY."
-    : settings.intensity === 'rude'
-      ? "Use high-impact street slang, profanity (คำหยาบ/ภาษาพ่อขุน) and strong language to make it raw and authentic."
-      : "Use natural, everyday Thai.";
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        { inlineData: { data: videoBase64, mimeType: mimeType } },
-        {
-          text: `Analyze video content. ${dialectInstruction} ${speedInstruction} Tone: ${moodToEnglish(settings.mood)}. 
-        ${intensityInstruction}
-        Return ONLY the Thai translated text without any explanations.` }
-      ]
-    },
-    config: {
-      temperature: 0.8,
-      safetySettings
+  context: GenerationContext,
+  duration?: number,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<VideoTranslation> => {
+  const provider = getActiveProvider();
+  let segments: TranslationSegment[];
+  let speakerGenders: Record<string, Gender> = {};
+
+  // ผู้ให้บริการที่ส่งช่วงเวลาของวิดีโอไม่ได้ ต้องแปลทั้งคลิปในคำขอเดียว
+  if (!duration || duration <= LONG_VIDEO_THRESHOLD || !provider.supportsVideoClips) {
+    ({ segments, speakerGenders } = await requestTranslation(provider, video, settings, context, duration));
+  } else {
+    // วิดีโอยาว: แปลทีละช่วงที่ซ้อนกันเล็กน้อย แล้วต่อผลลัพธ์ที่รอยต่อ
+    const windows = planTranslationWindows(duration);
+    segments = [];
+    onProgress?.(0, windows.length);
+
+    for (const window of windows) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const previous = segments.filter(s => s.start < window.start).slice(-CONTEXT_LINES);
+      const result = await requestTranslation(provider, video, settings, context, duration, { window, previous, speakerGenders });
+
+      const shifted = offsetSegments(result.segments, window.start);
+      segments = stitchWindowSegments(segments, shifted, window.seam);
+      speakerGenders = { ...result.speakerGenders, ...speakerGenders };
+      onProgress?.(window.index + 1, windows.length);
     }
-  });
 
-  return cleanTextForSpeech(response.text || '');
+    if (segments.length === 0) {
+      throw new Error('ไม่พบข้อความที่แปลได้ในวิดีโอนี้');
+    }
+  }
+
+  const cleaned = segments.map(segment => ({
+    ...segment,
+    targetText: cleanTextForSpeech(segment.targetText, settings.targetLanguage)
+  }));
+
+  return {
+    segments: cleaned,
+    speakers: buildSpeakerProfiles(cleaned, settings, context.models, speakerGenders)
+  };
 };
 
-export const generateThaiHook = async (
+export const generateHook = async (
   currentText: string,
   settings: VoiceSettings,
+  context: GenerationContext,
   duration?: number
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const dialectContext = settings.mood === 'isan' ? "ภาษาอีสาน" : "ภาษาไทย";
-
-  const speedInstruction = duration
-    ? `วิดีโอมีความยาว/เป้าหมายเวลาคือ ${duration.toFixed(1)} วินาที ดังนั้นต้องสรุปและเรียบเรียงให้ประโยคมีความยาว "สัมพันธ์" กับเวลาดังกล่าว (เมื่อพูดออกมาแล้วควรมีระยะเวลาใกล้เคียง ${duration.toFixed(1)} วินาที)`
-    : "เน้นความน่าสนใจและดึงดูดใจ";
-
-  const intensityInstruction = settings.intensity === 'polite'
-    ? "เน้นความสุภาพ อ่อนโยน และไม่ใช้คำหยาบ"
-    : settings.intensity === 'rude'
-      ? "ใช้คำที่ดุดัน มีพลัง (Impact) ใช้แสลงหรือคำหยาบ (Profanity) ได้เต็มที่เพื่อให้เป็นที่จดจำ"
-      : "เน้นความเป็นกันเองและดูเป็นธรรมชาติ";
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `สรุปและเรียบเรียงข้อความนี้ให้เป็น "คำโปรย (Hook)" สำหรับ TikTok ใน ${dialectContext} 
-    ${speedInstruction}
-    ${intensityInstruction}
-    เน้นความน่าสนใจ มีพลัง (Impact) และดึงดูดใจสูงสุด 
-    ให้นำเสนอดูเป็นธรรมชาติ มีจังหวะที่น่าตื่นเต้น (Edgy and Engaging) 
-    ข้อความต้นฉบับ: "${currentText}"
-    คำตอบ: (เฉพาะข้อความที่เรียบเรียงแล้วเท่านั้น ไม่ต้องสั้นมากเกินไปยกเว้นกรณีจำกัดเวลา)` ,
-    config: {
-      temperature: 0.9,
-      safetySettings
-    }
+  const profile = getLanguageProfile(settings.targetLanguage);
+
+  const text = await getActiveProvider().rewrite({
+    prompt: withGlossary(profile.buildHookPrompt({
+      text: currentText,
+      dialect: getDialect(profile, settings.dialect),
+      intensity: settings.intensity,
+      duration
+    }), relevantGlossary(currentText, context)),
+    generation: context.models.hook,
+    targetLanguage: settings.targetLanguage
   });
 
-  return cleanTextForSpeech(response.text || currentText);
+  return cleanTextForSpeech(text || currentText, settings.targetLanguage);
 };
 
-export const generateIsanHook = async (
+// มุมการเล่าที่ให้โมเดลเลือกใช้ เพื่อให้แต่ละแบบต่างกันจริง ไม่ใช่แค่เปลี่ยนคำ
+const HOOK_ANGLES = ['curiosity gap', 'bold claim or shock', 'direct question to the viewer', 'emotional or relatable', 'urgency / countdown'];
+
+export interface HookCandidate {
+  angle: string;
+  text: string;
+}
+
+// รายการจากโมเดลต้องเป็นออบเจกต์ที่มี text เป็นสตริง (angle ไม่บังคับ)
+const isHookItem = (item: unknown): item is { angle?: unknown; text: string } =>
+  !!item && typeof item === 'object' && typeof (item as { text?: unknown }).text === 'string';
+
+export const generateHookVariants = async (
   currentText: string,
   settings: VoiceSettings,
+  context: GenerationContext,
+  count: number,
   duration?: number
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const speedInstruction = duration
-    ? `วิดีโอมีความยาว/เป้าหมายเวลาคือ ${duration.toFixed(1)} วินาที ดังนั้นต้องสรุปและเรียบเรียงภาษาอีสานให้มีความยาว "สัมพันธ์" กับเวลาดังกล่าว (เมื่อพูดออกมาแล้วควรมีระยะเวลาใกล้เคียง ${duration.toFixed(1)} วินาที)`
-    : "เน้นความม่วนซื่นและดึงดูดใจ";
-
-  const intensityInstruction = settings.intensity === 'polite'
-    ? "เน้นความสุภาพ อ่อนเย็น (มีคำว่า จ้า, น้อ) และไม่ใช้คำหยาบเลย"
-    : settings.intensity === 'rude'
-      ? "เน้นความม่วนซื่น ความดิบ และความเป็นกันเองแบบถึงพริกถึงขิง ใช้คำหยาบอีสานหรือคำแสลงบ้านๆ ได้เต็มที่เพื่อให้ดูสะใจ"
-      : "เน้นภาษาอีสานที่เป็นกันเอง ดูเป็นธรรมชาติ เหมือนคนบ้านเดียวกันคุยกัน";
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `สรุปและเรียบเรียงข้อความนี้ให้เป็น "คำโปรย (Hook)" สไตล์ภาษาอีสานที่ม่วนๆ และมีพลังสำหรับ TikTok 
-    ${speedInstruction}
-    ${intensityInstruction}
-    ข้อความต้นฉบับ: "${currentText}"
-    คำตอบ: (เฉพาะข้อความภาษาอีสานที่เรียบเรียงแล้วเท่านั้น ไม่ต้องสั้นมากเกินไปเอาที่จ๊วดๆตามระดับความแรงที่กำหนด)` ,
-    config: {
-      temperature: 0.9,
-      safetySettings
+): Promise<HookCandidate[]> => {
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const basePrompt = withGlossary(profile.buildHookPrompt({
+    text: currentText,
+    dialect: getDialect(profile, settings.dialect),
+    intensity: settings.intensity,
+    duration
+  }), relevantGlossary(currentText, context));
+
+  const raw = await getActiveProvider().rewrite({
+    prompt: `${basePrompt}
+
+Instead of a single answer, write ${count} clearly different hook versions of the same content for A/B testing.
+Give each version a different angle, picking from: ${HOOK_ANGLES.join(', ')}.
+Each "text" must follow all the rules above (language, dialect, tone, length); "angle" is a short English label of the angle used.`,
+    // สร้างหลายแบบต้องการความหลากหลายมากกว่า Hook เดี่ยว
+    generation: { ...context.models.hook, temperature: Math.min(2, context.models.hook.temperature + 0.1) },
+    targetLanguage: settings.targetLanguage,
+    schema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          angle: { type: Type.STRING },
+          text: { type: Type.STRING }
+        },
+        required: ['angle', 'text'],
+        propertyOrdering: ['angle', 'text']
+      }
     }
   });
 
-  return cleanTextForSpeech(response.text || currentText);
+  let items: unknown;
+  try {
+    items = JSON.parse(raw || '[]');
+  } catch {
+    throw new Error('ผลลัพธ์ Hook ไม่อยู่ในรูปแบบ JSON ที่ถูกต้อง');
+  }
+  const candidates = (Array.isArray(items) ? items : [])
+    .filter(isHookItem)
+    .map(item => ({ angle: typeof item.angle === 'string' ? item.angle.trim() : '', text: cleanTextForSpeech(item.text, settings.targetLanguage) }))
+    .filter(c => c.text);
+  if (candidates.length === 0) throw new Error('ไม่สามารถสร้าง Hook ได้');
+  return candidates.slice(0, count);
+};
+
+// เขียนประโยคใหม่ให้พูดจบในเวลาที่กำหนด (ใช้เมื่อยืด/หดเสียงอย่างเดียวแล้วเพี้ยนเกินไป)
+export const rewriteForDuration = async (
+  text: string,
+  settings: VoiceSettings,
+  context: GenerationContext,
+  targetSeconds: number,
+  currentSeconds: number
+): Promise<string> => {
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const dialect = getDialect(profile, settings.dialect);
+  // speechRate ถูกใช้ยืด/หดเสียงหลังสังเคราะห์ (ยกเว้นโหมด sync) จึงต้องนับรวมตอนกำหนดความยาวข้อความ
+  const rate = settings.speed === 'sync' ? 1 : settings.speechRate || 1.0;
+  const targetChars = Math.max(4, Math.round(targetSeconds * profile.charsPerSecond * rate));
+  const direction = targetSeconds < currentSeconds ? 'shorter' : 'longer';
+
+  const rewritten = await getActiveProvider().rewrite({
+    prompt: withGlossary(`Rewrite this ${profile.englishName} dubbing line so it is ${direction}: spoken aloud it currently takes ${currentSeconds.toFixed(1)}s but must take about ${targetSeconds.toFixed(1)}s (roughly ${targetChars} characters).
+${dialect.translateInstruction}
+${profile.registers[settings.intensity].translate}
+Keep the meaning, tone and speaker voice. Output only the rewritten line as plain spoken words, without quotes, markdown or explanations.
+
+Line: ${text}`, relevantGlossary(text, context)),
+    generation: context.models.hook,
+    targetLanguage: settings.targetLanguage
+  });
+
+  return cleanTextForSpeech(rewritten, settings.targetLanguage) || text;
 };
 
-export const generateThaiSpeech = async (
+export const generateSpeech = async (
   text: string,
   settings: VoiceSettings,
+  context: GenerationContext,
   duration?: number,
+  speaker?: SpeakerProfile,
+  cast: SpeakerProfile[] = [],
   retryAttempt: number = 0
-): Promise<Uint8Array> => {
-  const cleanedText = cleanTextForSpeech(text);
+): Promise<SpeechResult> => {
+  const cleanedText = cleanTextForSpeech(text, settings.targetLanguage);
   if (!cleanedText) throw new Error('ไม่พบข้อความสำหรับพากย์เสียง');
 
   if (retryAttempt > 0) {
     await delay(Math.pow(2, retryAttempt) * 1000);
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const mood = moodToEnglish(settings.mood);
-  const voiceName = settings.gender === 'male' ? 'Puck' : 'Kore';
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const dialect = getDialect(profile, settings.dialect);
+  const mood = [moodToEnglish(speaker?.mood || settings.mood), dialect.speechAccent].filter(Boolean).join(', ');
+  const voiceName = speaker?.voiceName || resolveDefaultVoice(profile, settings.gender, context.models);
 
   const rateInstruction = (settings.speed === 'sync' && duration)
     ? `Duration target: ${duration.toFixed(1)}s. Adjust speaking speed to match this time.`
-    : `Speaking rate: ${settings.speechRate || 1.0}x (1.0 is normal, 0.5 is slow, 2.0 is fast)`;
+    : 'Speak at a natural, normal pace';
 
-  const intensityInstruction = settings.intensity === 'polite'
-    ? "Speak politely and clearly. No rough words."
-    : settings.intensity === 'rude'
-      ? "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
-      : "Speak naturally.";
+  // ผู้พูดที่มีเสียงอ้างอิง: บอกลักษณะเสียงต้นฉบับ และส่งคลิปไปด้วยถ้าผู้ให้บริการโคลนเสียงได้
+  const reference = speaker?.reference;
+  const provider = getActiveProvider();
+  const voiceMatch = reference ? ` ${describeVoice(reference)}` : '';
 
-  const simplePrompt = `Speak this text: "${cleanedText}". Tone: ${mood}. ${rateInstruction}. 
-  ${intensityInstruction}`;
+  const instructions = `Speak ${profile.englishName}. Tone: ${mood}. ${rateInstruction}.${voiceMatch} 
+  ${profile.registers[settings.intensity].speech}`;
+  const simplePrompt = `Speak this ${profile.englishName} text: "${cleanedText}". Tone: ${mood}. ${rateInstruction}.${voiceMatch} 
+  ${profile.registers[settings.intensity].speech}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: simplePrompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName },
-          },
-        },
-        safetySettings
-      },
+    return await provider.synthesize({
+      text: cleanedText,
+      prompt: simplePrompt,
+      instructions,
+      voiceName,
+      gender: speaker?.gender || settings.gender,
+      targetLanguage: settings.targetLanguage,
+      generation: context.models.speech,
+      duration,
+      referenceAudio: provider.supportsVoiceCloning && speaker ? context.referenceClips?.[speaker.id] : undefined,
+      speaker: speaker?.id,
+      cast: cast.map(s => ({ speaker: s.id, voiceName: s.voiceName }))
     });
-
-    const candidate = response.candidates?.[0];
-    if (candidate?.finishReason && candidate.finishReason !== 'STOP') {
-      console.warn(`[Gemini TTS] การสร้างเสียงหยุดทำงานกะทันหัน: ${candidate.finishReason}`);
-      console.warn(`[Gemini TTS] ข้อความที่เป็นสาเหตุ: "${cleanedText}"`);
-
-      if (retryAttempt < 2) {
-        console.log(`[Gemini TTS] กำลังลองพยายามครั้งใหม่ (ครั้งที่ ${retryAttempt + 1})...`);
-        return generateThaiSpeech(cleanedText, settings, duration, retryAttempt + 1);
-      }
-
-      const errorMessage = candidate.finishReason === 'OTHER'
-        ? `การสร้างเสียงถูกระงับ (OTHER) - เป็นไปได้ว่าในข้อความมีคำที่ระบบความปลอดภัยของ AI ปฏิเสธที่จะออกเสียง (แม้จะปิด Filter แล้วก็ตาม)`
-        : `การสร้างเสียงถูกระงับ (${candidate.finishReason})`;
-
-      throw new Error(errorMessage);
-    }
-
-    const audioPart = candidate?.content?.parts?.find(p => p.inlineData?.data);
-    const base64Audio = audioPart?.inlineData?.data;
-
-    if (!base64Audio) throw new Error('API ไม่ส่งข้อมูลเสียง');
-
-    return decodeBase64(base64Audio);
   } catch (error: any) {
     if ((error?.message?.includes('429') || error?.message?.includes('quota')) && retryAttempt < 2) {
-      return generateThaiSpeech(cleanedText, settings, duration, retryAttempt + 1);
+      return generateSpeech(cleanedText, settings, context, duration, speaker, cast, retryAttempt + 1);
     }
     throw error;
   }
 };
 
-function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
 export async function decodePCMData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { GlossaryEntry, TranslationSegment } from "../types";
+import { checkSegmentsGlossary, containsTerm, findTermViolations, fixUntranslatedTerms, mergeGlossaries } from "./glossaryService";
+
+const entry = (id: string, source: string, target: string, keepAsIs = false): GlossaryEntry => ({ id, source, target, keepAsIs });
+
+const APPLE = entry('apple', 'Apple', 'แอปเปิล');
+const MRBEAST = entry('beast', 'MrBeast', '', true);
+const AI = entry('ai', 'AI', 'เอไอ');
+
+describe('containsTerm', () => {
+  it('matches Latin terms only on word boundaries', () => {
+    expect(containsTerm('AI is here', 'AI')).toBe(true);
+    expect(containsTerm('he said so', 'AI')).toBe(false);
+  });
+
+  it('matches Thai terms inside unspaced text', () => {
+    expect(containsTerm('ซื้อแอปเปิลมาใหม่', 'แอปเปิล')).toBe(true);
+  });
+});
+
+describe('findTermViolations', () => {
+  it('accepts a result that uses the locked rendering', () => {
+    expect(findTermViolations('I love Apple', 'ฉันรักแอปเปิล', [APPLE])).toEqual([]);
+  });
+
+  it('flags a term left in the source language as untranslated', () => {
+    expect(findTermViolations('I love Apple', 'ฉันรัก Apple', [APPLE])).toEqual([{ entry: APPLE, issue: 'untranslated' }]);
+  });
+
+  it('flags a term that disappeared from the result as missing', () => {
+    expect(findTermViolations('I love Apple', 'ฉันรักผลไม้', [APPLE])).toEqual([{ entry: APPLE, issue: 'missing' }]);
+  });
+
+  it('requires keep-as-is terms to stay in their original form', () => {
+    expect(findTermViolations('MrBeast is back', 'MrBeast กลับมาแล้ว', [MRBEAST])).toEqual([]);
+    expect(findTermViolations('MrBeast is back', 'มิสเตอร์บีสต์กลับมาแล้ว', [MRBEAST])).toEqual([{ entry: MRBEAST, issue: 'missing' }]);
+  });
+
+  it('ignores terms that do not appear in the source', () => {
+    expect(findTermViolations('he said hello', 'เขาทักทาย', [APPLE, AI])).toEqual([]);
+  });
+});
+
+describe('fixUntranslatedTerms', () => {
+  it('replaces leftover source terms with the locked rendering', () => {
+    const violations = findTermViolations('Apple and AI', 'Apple กับ AI', [APPLE, AI]);
+    expect(fixUntranslatedTerms('Apple กับ AI', violations)).toBe('แอปเปิล กับ เอไอ');
+  });
+});
+
+describe('checkSegmentsGlossary', () => {
+  it('returns violations only for segments that have them', () => {
+    const segment = (id: string, originalText: string, targetText: string): TranslationSegment => ({
+      id, start: 0, end: 1, speaker: 'Speaker 1', originalText, targetText
+    });
+    const result = checkSegmentsGlossary([segment('ok', 'Apple', 'แอปเปิล'), segment('bad', 'Apple', 'Apple')], [APPLE]);
+    expect(Object.keys(result)).toEqual(['bad']);
+  });
+});
+
+describe('mergeGlossaries', () => {
+  it('prefers project terms and drops incomplete entries', () => {
+    const project = [entry('p', 'apple', 'แอปเปิ้ล')];
+    const merged = mergeGlossaries(project, [APPLE, AI, entry('empty', 'Empty', '')]);
+    expect(merged.map(e => e.id)).toEqual(['p', 'ai']);
+  });
+});
@@ -0,0 +1,94 @@
+import { GlossaryEntry, TranslationSegment } from "../types";
+
+const GLOSSARY_KEY = 'vocalbridge:glossary';
+// จำกัดจำนวนคำที่ใส่ในพรอมต์แปล ไม่ให้พรอมต์ยาวเกินไป
+const MAX_PROMPT_TERMS = 200;
+
+export const createGlossaryEntry = (source = '', target = '', keepAsIs = false): GlossaryEntry => ({
+  id: `term-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  target,
+  keepAsIs
+});
+
+export const loadGlobalGlossary = (): GlossaryEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARY_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlobalGlossary = (entries: GlossaryEntry[]) => {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(entries));
+};
+
+// คำที่ต้องปรากฏในผลลัพธ์
+export const requiredRendering = (entry: GlossaryEntry) => (entry.keepAsIs ? entry.source : entry.target).trim();
+
+const isComplete = (entry: GlossaryEntry) => !!entry.source.trim() && !!requiredRendering(entry);
+
+// รวมคำของโปรเจกต์กับคำกลาง ถ้าคำต้นฉบับซ้ำกัน ใช้ของโปรเจกต์
+export const mergeGlossaries = (project: GlossaryEntry[], global: GlossaryEntry[]): GlossaryEntry[] => {
+  const projectSources = new Set(project.map(e => e.source.trim().toLowerCase()));
+  return [...project, ...global.filter(e => !projectSources.has(e.source.trim().toLowerCase()))].filter(isComplete);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// ภาษาไทยไม่เว้นวรรคระหว่างคำ จึงกันขอบคำเฉพาะตัวอักษรละติน (ไม่ให้ "AI" ไปตรงกับ "said")
+export const termPattern = (term: string, flags: string) => {
+  const trimmed = term.trim();
+  const before = /[A-Za-z0-9]/.test(trimmed[0]) ? '(?<![A-Za-z0-9])' : '';
+  const after = /[A-Za-z0-9]/.test(trimmed[trimmed.length - 1]) ? '(?![A-Za-z0-9])' : '';
+  return new RegExp(before + escapeRegExp(trimmed).replace(/\s+/g, '\\s*') + after, flags);
+};
+
+export const containsTerm = (text: string, term: string): boolean =>
+  !!term.trim() && !!text && termPattern(term, 'i').test(text);
+
+// คำล็อกที่ปรากฏในข้อความ (ในรูปต้นฉบับหรือคำที่ล็อกไว้แล้ว)
+export const findRelevantTerms = (text: string, entries: GlossaryEntry[]) =>
+  entries.filter(e => containsTerm(text, e.source) || containsTerm(text, requiredRendering(e)));
+
+export const buildGlossaryInstruction = (entries: GlossaryEntry[]): string => {
+  if (entries.length === 0) return '';
+  const lines = entries.slice(0, MAX_PROMPT_TERMS).map(e => e.keepAsIs
+    ? `- "${e.source.trim()}" → keep exactly as "${e.source.trim()}" (do not translate or transliterate)`
+    : `- "${e.source.trim()}" → always write "${e.target.trim()}"`);
+  return `Locked glossary (mandatory): whenever one of these terms is spoken or appears in the text, write it exactly as shown. Never translate, transliterate, abbreviate or paraphrase a locked term:\n${lines.join('\n')}`;
+};
+
+// missing = คำล็อกหายไปหรือถูกเปลี่ยนเป็นคำอื่น, untranslated = ยังเป็นคำต้นฉบับทั้งที่ต้องใช้คำแปลที่กำหนด
+export type GlossaryIssue = 'missing' | 'untranslated';
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  issue: GlossaryIssue;
+}
+
+export const findTermViolations = (sourceText: string, resultText: string, entries: GlossaryEntry[]): GlossaryViolation[] =>
+  findRelevantTerms(sourceText, entries)
+    .filter(entry => !containsTerm(resultText, requiredRendering(entry)))
+    .map(entry => ({ entry, issue: !entry.keepAsIs && containsTerm(resultText, entry.source) ? 'untranslated' : 'missing' }));
+
+// แทนคำต้นฉบับที่หลงเหลือด้วยคำที่ล็อกไว้ (คำที่หายไปเลยต้องให้ผู้ใช้แก้เอง)
+export const fixUntranslatedTerms = (text: string, violations: GlossaryViolation[]): string =>
+  violations
+    .filter(v => v.issue === 'untranslated')
+    .reduce((result, v) => result.replace(termPattern(v.entry.source, 'gi'), requiredRendering(v.entry)), text);
+
+// ตรวจทุกประโยคเทียบกับต้นฉบับ คืนเฉพาะประโยคที่มีปัญหา
+export const checkSegmentsGlossary = (
+  segments: TranslationSegment[],
+  entries: GlossaryEntry[]
+): Record<string, GlossaryViolation[]> => {
+  if (entries.length === 0) return {};
+  const result: Record<string, GlossaryViolation[]> = {};
+  for (const segment of segments) {
+    const violations = findTermViolations(segment.originalText, segment.targetText, entries);
+    if (violations.length > 0) result[segment.id] = violations;
+  }
+  return result;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { TranslationSegment, TranslationVersion, VoiceSettings } from "../types";
+import { createVersion, diffVersions, getRedoTarget, getUndoTarget, isSameContent, MAX_VERSIONS, trimVersions } from "./historyService";
+
+const SETTINGS = {} as VoiceSettings;
+
+const segment = (id: string, targetText: string): TranslationSegment => ({
+  id, start: 0, end: 1, speaker: 'Speaker 1', originalText: '', targetText
+});
+
+const version = (lines: string[], parentId: string | null = null, id?: string): TranslationVersion => ({
+  ...createVersion('manual', lines.map((text, i) => segment(`seg-${i}`, text)), [], SETTINGS, parentId),
+  ...(id ? { id } : {})
+});
+
+describe('diffVersions', () => {
+  it('marks unchanged lines as equal', () => {
+    const rows = diffVersions(version(['a b', 'c d']), version(['a b', 'c d']));
+    expect(rows.map(r => r.changed)).toEqual([false, false]);
+  });
+
+  it('pairs an edited line with its old text and diffs it word by word', () => {
+    const [row] = diffVersions(version(['the red car']), version(['the blue car']));
+    expect(row.changed).toBe(true);
+    expect(row.left!.filter(t => t.type === 'removed').map(t => t.text)).toEqual(['red']);
+    expect(row.right!.filter(t => t.type === 'added').map(t => t.text)).toEqual(['blue']);
+    expect(row.right!.map(t => t.text).join('')).toBe('the blue car');
+  });
+
+  it('shows added and removed lines on one side only', () => {
+    const rows = diffVersions(version(['keep', 'gone']), version(['new', 'keep']));
+    expect(rows).toEqual([
+      { left: null, right: [{ text: 'new', type: 'added' }], changed: true },
+      { left: [{ text: 'keep', type: 'equal' }], right: [{ text: 'keep', type: 'equal' }], changed: false },
+      { left: [{ text: 'gone', type: 'removed' }], right: null, changed: true }
+    ]);
+  });
+
+  it('ignores empty lines', () => {
+    expect(diffVersions(version(['a', '  ']), version(['a']))).toHaveLength(1);
+  });
+});
+
+describe('trimVersions', () => {
+  const many = (count: number) => Array.from({ length: count }, (_, i) => version([String(i)], null, `v${i}`));
+
+  it('keeps everything up to the limit', () => {
+    const versions = many(MAX_VERSIONS);
+    expect(trimVersions(versions, null)).toBe(versions);
+  });
+
+  it('drops the oldest versions past the limit', () => {
+    const trimmed = trimVersions(many(MAX_VERSIONS + 2), null);
+    expect(trimmed).toHaveLength(MAX_VERSIONS);
+    expect(trimmed[0].id).toBe('v2');
+  });
+
+  it('never drops the current version', () => {
+    const trimmed = trimVersions(many(MAX_VERSIONS + 2), 'v0');
+    expect(trimmed).toHaveLength(MAX_VERSIONS);
+    expect(trimmed.map(v => v.id)).toContain('v0');
+    expect(trimmed.map(v => v.id)).not.toContain('v1');
+  });
+});
+
+describe('undo and redo', () => {
+  const root = version(['a'], null, 'root');
+  const first = version(['b'], 'root', 'first');
+  const second = version(['c'], 'root', 'second');
+  const versions = [root, first, second];
+
+  it('undoes to the parent version', () => {
+    expect(getUndoTarget(versions, 'first')).toBe(root);
+    expect(getUndoTarget(versions, 'root')).toBeUndefined();
+  });
+
+  it('redoes to the latest child', () => {
+    expect(getRedoTarget(versions, 'root')).toBe(second);
+    expect(getRedoTarget(versions, 'second')).toBeUndefined();
+    expect(getRedoTarget(versions, null)).toBeUndefined();
+  });
+});
+
+describe('isSameContent', () => {
+  it('compares segments and speakers', () => {
+    const current = version(['a']);
+    expect(isSameContent(current, current.segments.map(s => ({ ...s })), [])).toBe(true);
+    expect(isSameContent(current, [segment('seg-0', 'b')], [])).toBe(false);
+  });
+});
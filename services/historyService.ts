@@ -0,0 +1,143 @@
+import { SpeakerProfile, TranslationSegment, TranslationVersion, VersionSource, VoiceSettings } from "../types";
+import { splitWords } from "./captionService";
+
+export type DiffTokenType = 'equal' | 'removed' | 'added';
+
+export interface DiffToken {
+  text: string;
+  type: DiffTokenType;
+}
+
+// หนึ่งแถวของมุมมองเทียบข้างกัน: ซ้าย = เวอร์ชันเก่า, ขวา = เวอร์ชันใหม่ (null = ไม่มีบรรทัดนั้นในฝั่งนั้น)
+export interface DiffRow {
+  left: DiffToken[] | null;
+  right: DiffToken[] | null;
+  changed: boolean;
+}
+
+// เก็บไว้ไม่เกินจำนวนนี้ เวอร์ชันเก่าสุดจะถูกตัดทิ้ง (ยกเว้นเวอร์ชันปัจจุบัน)
+export const MAX_VERSIONS = 100;
+
+export const createVersion = (
+  source: VersionSource,
+  segments: TranslationSegment[],
+  speakers: SpeakerProfile[],
+  settings: VoiceSettings,
+  parentId: string | null
+): TranslationVersion => ({
+  id: `ver-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  parentId,
+  createdAt: Date.now(),
+  source,
+  segments,
+  speakers,
+  settings
+});
+
+export const trimVersions = (versions: TranslationVersion[], keepId: string | null): TranslationVersion[] => {
+  if (versions.length <= MAX_VERSIONS) return versions;
+  const excess = versions.length - MAX_VERSIONS;
+  const dropped = new Set(versions.filter(v => v.id !== keepId).slice(0, excess).map(v => v.id));
+  return versions.filter(v => !dropped.has(v.id));
+};
+
+export const findVersion = (versions: TranslationVersion[], id: string | null): TranslationVersion | undefined =>
+  id ? versions.find(v => v.id === id) : undefined;
+
+export const getUndoTarget = (versions: TranslationVersion[], currentId: string | null) =>
+  findVersion(versions, findVersion(versions, currentId)?.parentId || null);
+
+// redo ไปยังเวอร์ชันลูกล่าสุด (กรณีย้อนกลับแล้วแก้ใหม่ จะมีลูกได้หลายสาย)
+export const getRedoTarget = (versions: TranslationVersion[], currentId: string | null) => {
+  if (!currentId) return undefined;
+  const children = versions.filter(v => v.parentId === currentId);
+  return children[children.length - 1];
+};
+
+export const isSameContent = (version: TranslationVersion, segments: TranslationSegment[], speakers: SpeakerProfile[]) =>
+  JSON.stringify(version.segments) === JSON.stringify(segments) && JSON.stringify(version.speakers) === JSON.stringify(speakers);
+
+type Op<T> = { type: DiffTokenType; a?: T; b?: T };
+
+// LCS แบบตารางเต็ม ใช้กับรายการสั้นๆ (ประโยคในวิดีโอ / คำในหนึ่งประโยค)
+const lcsDiff = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Op<T>[] => {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = equals(a[i], b[j])
+        ? table[at(i + 1, j + 1)] + 1
+        : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const ops: Op<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equals(a[i], b[j])) {
+      ops.push({ type: 'equal', a: a[i++], b: b[j++] });
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      ops.push({ type: 'removed', a: a[i++] });
+    } else {
+      ops.push({ type: 'added', b: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', a: a[i++] });
+  while (j < m) ops.push({ type: 'added', b: b[j++] });
+  return ops;
+};
+
+const diffWords = (before: string, after: string): { left: DiffToken[]; right: DiffToken[] } => {
+  const ops = lcsDiff(splitWords(before), splitWords(after), (x, y) => x === y);
+  return {
+    left: ops.filter(op => op.type !== 'added').map(op => ({ text: op.a!, type: op.type })),
+    right: ops.filter(op => op.type !== 'removed').map(op => ({ text: op.b!, type: op.type }))
+  };
+};
+
+const lineText = (segment: TranslationSegment) => segment.targetText.trim();
+
+// เทียบทีละประโยคก่อน แล้วจับคู่ประโยคที่ถูกแก้ (ลบ+เพิ่มติดกัน) มาเทียบระดับคำ
+export const diffVersions = (before: TranslationVersion, after: TranslationVersion): DiffRow[] => {
+  const left = before.segments.map(lineText).filter(Boolean);
+  const right = after.segments.map(lineText).filter(Boolean);
+  const ops = lcsDiff(left, right, (x, y) => x === y);
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const oldLine = removed[k];
+      const newLine = added[k];
+      if (oldLine !== undefined && newLine !== undefined) {
+        rows.push({ ...diffWords(oldLine, newLine), changed: true });
+      } else if (oldLine !== undefined) {
+        rows.push({ left: [{ text: oldLine, type: 'removed' }], right: null, changed: true });
+      } else {
+        rows.push({ left: null, right: [{ text: newLine, type: 'added' }], changed: true });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      rows.push({ left: [{ text: op.a!, type: 'equal' }], right: [{ text: op.b!, type: 'equal' }], changed: false });
+    } else if (op.type === 'removed') {
+      removed.push(op.a!);
+    } else {
+      added.push(op.b!);
+    }
+  }
+  flush();
+  return rows;
+};
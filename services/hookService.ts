@@ -0,0 +1,100 @@
+import { CaptionStyle, GenerationContext, HookVariant, MixSettings, SpeakerProfile, TranslationSegment, VoiceSettings } from "../types";
+import { DubTrack, applyFittedText, assembleDubTrack, audioBufferToWav, synthesizeSegmentClips } from "./audioService";
+import { buildCaptionCues, createCaptionOverlay, ensureCaptionFont } from "./captionService";
+import { getLanguageProfile } from "./languageProfiles";
+import { renderMix } from "./mixService";
+import { isOfflineRenderSupported, renderDubbedVideo } from "./renderService";
+import { collapseSegments } from "./segmentService";
+import { ZipEntry, createZip } from "./zipService";
+
+export interface VoicedHook {
+  segments: TranslationSegment[];
+  track: DubTrack;
+}
+
+export interface HookExportItem {
+  label: string;
+  variant: HookVariant;
+  voiced: VoicedHook;
+}
+
+export interface HookExportOptions {
+  video: Blob | null;
+  original: AudioBuffer | null;
+  mix: MixSettings;
+  includeVideo: boolean;
+  captionStyle?: CaptionStyle;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const MAX_HOOK_VARIANTS = 5;
+
+// ประเมินความยาวเสียงจากจำนวนตัวอักษร (ไม่นับเครื่องหมาย สระบน/ล่าง และวรรณยุกต์) หารด้วยอัตราการพูดของภาษา
+export const estimateSpokenDuration = (text: string, settings: VoiceSettings): number => {
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const letters = text.replace(/[\s\p{P}\p{S}\p{M}]/gu, '').length;
+  const rate = settings.speed === 'sync' ? 1 : settings.speechRate || 1.0;
+  return letters / profile.charsPerSecond / rate;
+};
+
+// ป้ายชื่อ A, B, C, ... (ต่อด้วย AA, AB เมื่อเกิน 26 แบบ)
+export const variantLabel = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : variantLabel(Math.floor(index / 26) - 1) + variantLabel(index % 26);
+
+// พากย์ Hook หนึ่งแบบแยกจากคำแปลหลัก เพื่อฟังเทียบกันก่อนเลือกใช้
+export const voiceHookVariant = async (
+  variant: HookVariant,
+  segments: TranslationSegment[],
+  speakers: SpeakerProfile[],
+  settings: VoiceSettings,
+  context: GenerationContext,
+  duration: number,
+  ctx: AudioContext,
+  signal?: AbortSignal
+): Promise<VoicedHook> => {
+  const hookSegments = collapseSegments(segments, variant.text, duration);
+  // Hook ต้องจบภายในความยาวเป้าหมายเสมอ จึงเปิดการปรับความยาวด้วย customDuration
+  const hookSettings = { ...settings, dialect: variant.dialect, customDuration: duration };
+  const clips = await synthesizeSegmentClips(hookSegments, speakers, hookSettings, context, ctx, signal, undefined, duration);
+  return { segments: applyFittedText(hookSegments, clips), track: assembleDubTrack(ctx, clips, duration) };
+};
+
+// ส่งออก Hook ที่พากย์แล้วหลายแบบของคลิปเดียวกันเป็น ZIP (hook-A, hook-B, ...) สำหรับทดสอบ A/B
+export const exportHookVariants = async (items: HookExportItem[], options: HookExportOptions): Promise<Blob> => {
+  const { video, original, mix, includeVideo, captionStyle, signal, onProgress } = options;
+  if (items.length === 0) throw new Error('กรุณาเลือก Hook ที่พากย์เสียงแล้วอย่างน้อยหนึ่งแบบ');
+  if (includeVideo && (!video || !isOfflineRenderSupported())) {
+    throw new Error('เบราว์เซอร์นี้ไม่รองรับการเรนเดอร์วิดีโอแบบออฟไลน์ กรุณาส่งออกเฉพาะเสียง');
+  }
+  if (includeVideo && captionStyle?.enabled) await ensureCaptionFont(captionStyle);
+
+  const entries: ZipEntry[] = [];
+  const summary: string[] = [];
+  onProgress?.(0, items.length);
+
+  for (let i = 0; i < items.length; i++) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const { label, variant, voiced } = items[i];
+    const base = `hook-${label}`;
+
+    const mixed = await renderMix({ dub: voiced.track.buffer, original, placements: voiced.track.placements }, mix);
+    entries.push({ name: `${base}.wav`, data: audioBufferToWav(mixed) });
+
+    if (includeVideo && video) {
+      const cues = buildCaptionCues(voiced.segments, voiced.track.placements);
+      const mp4 = await renderDubbedVideo(video, mixed, {
+        signal,
+        drawOverlay: captionStyle?.enabled ? createCaptionOverlay(cues, captionStyle) : undefined
+      });
+      entries.push({ name: `${base}.mp4`, data: mp4 });
+    }
+
+    summary.push(`${base}${variant.angle ? ` (${variant.angle})` : ''}: ${variant.text}`);
+    onProgress?.(i + 1, items.length);
+  }
+
+  // ไฟล์ข้อความบอกว่าแต่ละไฟล์คือ Hook แบบไหน ไว้ใช้ตอนดูผลการทดสอบ
+  entries.push({ name: 'hooks.txt', data: new Blob([summary.join('\n\n')], { type: 'text/plain' }) });
+  return createZip(entries);
+};
@@ -0,0 +1,267 @@
+import { Gender, LanguageIntensity, SourceLanguage, TargetLanguage } from "../types";
+
+export interface DialectProfile {
+  id: string;
+  label: string;
+  // คำสั่งสำหรับขั้นตอนแปล (ภาษาอังกฤษ)
+  translateInstruction: string;
+  // สำเนียงที่ใช้บอก TTS เช่น "with a friendly Isan (Northeastern Thai) dialect and accent"
+  speechAccent?: string;
+}
+
+export interface RegisterProfile {
+  translate: string;
+  hook: string;
+  speech: string;
+}
+
+export interface HookPromptInput {
+  text: string;
+  dialect: DialectProfile;
+  intensity: LanguageIntensity;
+  duration?: number;
+}
+
+export interface LanguageProfile {
+  code: TargetLanguage;
+  // ชื่อภาษาที่แสดงใน UI (UI เป็นภาษาไทย)
+  label: string;
+  englishName: string;
+  dialects: DialectProfile[];
+  registers: Record<LanguageIntensity, RegisterProfile>;
+  defaultVoices: Record<Gender, string>;
+  // อัตราการพูดโดยประมาณ (ตัวอักษรต่อวินาที ไม่นับสระบน/ล่างและวรรณยุกต์) ใช้ประเมินความยาวเสียงก่อนสั่งพากย์จริง
+  charsPerSecond: number;
+  // ภาษาที่ใช้อะพอสทรอฟีในคำ (don't, Jum'at) ต้องเก็บไว้ตอนเตรียมข้อความพากย์
+  keepsApostrophes: boolean;
+  buildHookPrompt: (input: HookPromptInput) => string;
+}
+
+const englishHookPrompt = (languageName: string, registers: Record<LanguageIntensity, RegisterProfile>) =>
+  ({ text, dialect, intensity, duration }: HookPromptInput) => {
+    const speedInstruction = duration
+      ? `The video/target length is ${duration.toFixed(1)} seconds, so condense and rephrase so that, when spoken aloud, it lasts close to ${duration.toFixed(1)} seconds.`
+      : "Focus on making it intriguing and attention-grabbing.";
+    return `Rewrite the following text as a TikTok "hook" in ${languageName}. ${dialect.translateInstruction}
+    ${speedInstruction}
+    ${registers[intensity].hook}
+    Make it punchy, high-impact and engaging while still sounding natural when spoken.
+    Original text: "${text}"
+    Answer: (only the rewritten ${languageName} text, no explanations; do not make it too short unless a duration is given)`;
+  };
+
+const thaiRegisters: Record<LanguageIntensity, RegisterProfile> = {
+  polite: {
+    translate: "Use extremely polite and formal Thai (incl. krup/ka). NO PROFANITY.",
+    hook: "เน้นความสุภาพ อ่อนโยน และไม่ใช้คำหยาบ",
+    speech: "Speak politely and clearly. No rough words."
+  },
+  normal: {
+    translate: "Use natural, everyday Thai.",
+    hook: "เน้นความเป็นกันเองและดูเป็นธรรมชาติ",
+    speech: "Speak naturally."
+  },
+  rude: {
+    translate: "Use high-impact street slang, profanity (คำหยาบ/ภาษาพ่อขุน) and strong language to make it raw and authentic.",
+    hook: "ใช้คำที่ดุดัน มีพลัง (Impact) ใช้แสลงหรือคำหยาบ (Profanity) ได้เต็มที่เพื่อให้เป็นที่จดจำ",
+    speech: "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
+  }
+};
+
+const isanHookIntensity: Record<LanguageIntensity, string> = {
+  polite: "เน้นความสุภาพ อ่อนเย็น (มีคำว่า จ้า, น้อ) และไม่ใช้คำหยาบเลย",
+  normal: "เน้นภาษาอีสานที่เป็นกันเอง ดูเป็นธรรมชาติ เหมือนคนบ้านเดียวกันคุยกัน",
+  rude: "เน้นความม่วนซื่น ความดิบ และความเป็นกันเองแบบถึงพริกถึงขิง ใช้คำหยาบอีสานหรือคำแสลงบ้านๆ ได้เต็มที่เพื่อให้ดูสะใจ"
+};
+
+const buildThaiHookPrompt = ({ text, dialect, intensity, duration }: HookPromptInput) => {
+  if (dialect.id === 'isan') {
+    const speedInstruction = duration
+      ? `วิดีโอมีความยาว/เป้าหมายเวลาคือ ${duration.toFixed(1)} วินาที ดังนั้นต้องสรุปและเรียบเรียงภาษาอีสานให้มีความยาว "สัมพันธ์" กับเวลาดังกล่าว (เมื่อพูดออกมาแล้วควรมีระยะเวลาใกล้เคียง ${duration.toFixed(1)} วินาที)`
+      : "เน้นความม่วนซื่นและดึงดูดใจ";
+    return `สรุปและเรียบเรียงข้อความนี้ให้เป็น "คำโปรย (Hook)" สไตล์ภาษาอีสานที่ม่วนๆ และมีพลังสำหรับ TikTok
+    ${speedInstruction}
+    ${isanHookIntensity[intensity]}
+    ข้อความต้นฉบับ: "${text}"
+    คำตอบ: (เฉพาะข้อความภาษาอีสานที่เรียบเรียงแล้วเท่านั้น ไม่ต้องสั้นมากเกินไปเอาที่จ๊วดๆตามระดับความแรงที่กำหนด)`;
+  }
+
+  const dialectContext = dialect.id === 'standard' ? "ภาษาไทย" : `ภาษาไทยสำเนียง${dialect.label}`;
+  const speedInstruction = duration
+    ? `วิดีโอมีความยาว/เป้าหมายเวลาคือ ${duration.toFixed(1)} วินาที ดังนั้นต้องสรุปและเรียบเรียงให้ประโยคมีความยาว "สัมพันธ์" กับเวลาดังกล่าว (เมื่อพูดออกมาแล้วควรมีระยะเวลาใกล้เคียง ${duration.toFixed(1)} วินาที)`
+    : "เน้นความน่าสนใจและดึงดูดใจ";
+  return `สรุปและเรียบเรียงข้อความนี้ให้เป็น "คำโปรย (Hook)" สำหรับ TikTok ใน ${dialectContext}
+    ${speedInstruction}
+    ${thaiRegisters[intensity].hook}
+    เน้นความน่าสนใจ มีพลัง (Impact) และดึงดูดใจสูงสุด
+    ให้นำเสนอดูเป็นธรรมชาติ มีจังหวะที่น่าตื่นเต้น (Edgy and Engaging)
+    ข้อความต้นฉบับ: "${text}"
+    คำตอบ: (เฉพาะข้อความที่เรียบเรียงแล้วเท่านั้น ไม่ต้องสั้นมากเกินไปยกเว้นกรณีจำกัดเวลา)`;
+};
+
+const vietnameseRegisters: Record<LanguageIntensity, RegisterProfile> = {
+  polite: {
+    translate: "Use polite, respectful Vietnamese with appropriate honorifics (ạ, dạ, anh/chị). NO PROFANITY.",
+    hook: "Keep it polite and warm, no rude words.",
+    speech: "Speak politely and clearly. No rough words."
+  },
+  normal: {
+    translate: "Use natural, everyday Vietnamese.",
+    hook: "Keep it friendly and natural.",
+    speech: "Speak naturally."
+  },
+  rude: {
+    translate: "Use blunt street slang and strong language to make it raw and authentic.",
+    hook: "Use bold slang and strong language freely to make it memorable.",
+    speech: "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
+  }
+};
+
+const laoRegisters: Record<LanguageIntensity, RegisterProfile> = {
+  polite: {
+    translate: "Use polite, formal Lao with polite particles (ເຈົ້າ). NO PROFANITY.",
+    hook: "Keep it polite and gentle, no rude words.",
+    speech: "Speak politely and clearly. No rough words."
+  },
+  normal: {
+    translate: "Use natural, everyday Lao.",
+    hook: "Keep it friendly and natural.",
+    speech: "Speak naturally."
+  },
+  rude: {
+    translate: "Use blunt colloquial Lao and strong language to make it raw and authentic.",
+    hook: "Use bold slang and strong language freely to make it memorable.",
+    speech: "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
+  }
+};
+
+const indonesianRegisters: Record<LanguageIntensity, RegisterProfile> = {
+  polite: {
+    translate: "Use polite, formal Indonesian (bahasa baku, Anda/Bapak/Ibu). NO PROFANITY.",
+    hook: "Keep it polite and warm, no rude words.",
+    speech: "Speak politely and clearly. No rough words."
+  },
+  normal: {
+    translate: "Use natural, everyday Indonesian.",
+    hook: "Keep it friendly and natural.",
+    speech: "Speak naturally."
+  },
+  rude: {
+    translate: "Use blunt bahasa gaul slang and strong language to make it raw and authentic.",
+    hook: "Use bold slang and strong language freely to make it memorable.",
+    speech: "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
+  }
+};
+
+const englishRegisters: Record<LanguageIntensity, RegisterProfile> = {
+  polite: {
+    translate: "Use polite, formal English. NO PROFANITY.",
+    hook: "Keep it polite and warm, no rude words.",
+    speech: "Speak politely and clearly. No rough words."
+  },
+  normal: {
+    translate: "Use natural, conversational English.",
+    hook: "Keep it friendly and natural.",
+    speech: "Speak naturally."
+  },
+  rude: {
+    translate: "Use blunt street slang and profanity to make it raw and authentic.",
+    hook: "Use bold slang and profanity freely to make it memorable.",
+    speech: "Speak with high energy and raw emotion. Do not censor any words including slang or strong language."
+  }
+};
+
+export const LANGUAGE_PROFILES: Record<TargetLanguage, LanguageProfile> = {
+  th: {
+    code: 'th',
+    label: 'ไทย',
+    englishName: 'Thai',
+    dialects: [
+      { id: 'standard', label: 'กลาง', translateInstruction: "Use standard Thai." },
+      { id: 'isan', label: 'อิสาน', translateInstruction: "Use Isan dialect.", speechAccent: "with a friendly Isan (Northeastern Thai) dialect and accent" },
+      { id: 'northern', label: 'เหนือ', translateInstruction: "Use Northern Thai (Kham Mueang) dialect.", speechAccent: "with a gentle Northern Thai (Kham Mueang) accent" },
+      { id: 'southern', label: 'ใต้', translateInstruction: "Use Southern Thai (Pak Tai) dialect.", speechAccent: "with a fast Southern Thai (Pak Tai) accent" }
+    ],
+    registers: thaiRegisters,
+    defaultVoices: { male: 'Puck', female: 'Kore' },
+    charsPerSecond: 14,
+    keepsApostrophes: false,
+    buildHookPrompt: buildThaiHookPrompt
+  },
+  vi: {
+    code: 'vi',
+    label: 'เวียดนาม',
+    englishName: 'Vietnamese',
+    dialects: [
+      { id: 'standard', label: 'เหนือ (ฮานอย)', translateInstruction: "Use standard Northern (Hanoi) Vietnamese." },
+      { id: 'southern', label: 'ใต้ (ไซ่ง่อน)', translateInstruction: "Use Southern (Saigon) Vietnamese vocabulary.", speechAccent: "with a Southern (Saigon) Vietnamese accent" }
+    ],
+    registers: vietnameseRegisters,
+    defaultVoices: { male: 'Charon', female: 'Aoede' },
+    charsPerSecond: 14,
+    keepsApostrophes: true,
+    buildHookPrompt: englishHookPrompt('Vietnamese', vietnameseRegisters)
+  },
+  lo: {
+    code: 'lo',
+    label: 'ลาว',
+    englishName: 'Lao',
+    dialects: [
+      { id: 'standard', label: 'เวียงจันทน์', translateInstruction: "Use standard Vientiane Lao written in Lao script." }
+    ],
+    registers: laoRegisters,
+    defaultVoices: { male: 'Puck', female: 'Kore' },
+    charsPerSecond: 13,
+    keepsApostrophes: false,
+    buildHookPrompt: englishHookPrompt('Lao', laoRegisters)
+  },
+  id: {
+    code: 'id',
+    label: 'อินโดนีเซีย',
+    englishName: 'Indonesian',
+    dialects: [
+      { id: 'standard', label: 'มาตรฐาน', translateInstruction: "Use standard Indonesian." },
+      { id: 'jakarta', label: 'จาการ์ตา', translateInstruction: "Use casual Jakarta-style Indonesian (gue/lo).", speechAccent: "with a casual Jakarta accent" }
+    ],
+    registers: indonesianRegisters,
+    defaultVoices: { male: 'Fenrir', female: 'Leda' },
+    charsPerSecond: 15,
+    keepsApostrophes: true,
+    buildHookPrompt: englishHookPrompt('Indonesian', indonesianRegisters)
+  },
+  en: {
+    code: 'en',
+    label: 'อังกฤษ',
+    englishName: 'English',
+    dialects: [
+      { id: 'standard', label: 'อเมริกัน', translateInstruction: "Use American English." },
+      { id: 'british', label: 'บริติช', translateInstruction: "Use British English spelling and vocabulary.", speechAccent: "with a British accent" }
+    ],
+    registers: englishRegisters,
+    defaultVoices: { male: 'Orus', female: 'Zephyr' },
+    charsPerSecond: 15,
+    keepsApostrophes: true,
+    buildHookPrompt: englishHookPrompt('English', englishRegisters)
+  }
+};
+
+export const SOURCE_LANGUAGES: { code: SourceLanguage; label: string; englishName: string }[] = [
+  { code: 'auto', label: 'ตรวจจับอัตโนมัติ', englishName: '' },
+  { code: 'zh', label: 'จีน', englishName: 'Chinese' },
+  { code: 'en', label: 'อังกฤษ', englishName: 'English' },
+  { code: 'ja', label: 'ญี่ปุ่น', englishName: 'Japanese' },
+  { code: 'ko', label: 'เกาหลี', englishName: 'Korean' },
+  { code: 'th', label: 'ไทย', englishName: 'Thai' },
+  { code: 'vi', label: 'เวียดนาม', englishName: 'Vietnamese' },
+  { code: 'id', label: 'อินโดนีเซีย', englishName: 'Indonesian' },
+  { code: 'lo', label: 'ลาว', englishName: 'Lao' }
+];
+
+export const getLanguageProfile = (code?: TargetLanguage): LanguageProfile =>
+  LANGUAGE_PROFILES[code || 'th'] || LANGUAGE_PROFILES.th;
+
+export const getDialect = (profile: LanguageProfile, dialectId?: string): DialectProfile =>
+  profile.dialects.find(d => d.id === dialectId) || profile.dialects[0];
+
+export const getSourceLanguageName = (code?: SourceLanguage): string =>
+  SOURCE_LANGUAGES.find(l => l.code === code)?.englishName || '';
@@ -0,0 +1,165 @@
+import { ClipPlacement, MixSettings } from "../types";
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  keepBackground: true,
+  masterGain: 1.0,
+  dubGain: 1.0,
+  backgroundGain: 0.8,
+  duckLevel: 0.25,
+  duckAttack: 0.15,
+  duckRelease: 0.4
+};
+
+export interface MixSources {
+  dub: AudioBuffer;
+  original: AudioBuffer | null;
+  placements: ClipPlacement[];
+}
+
+export interface MixGraph {
+  master: GainNode;
+  dub: GainNode;
+  background: GainNode;
+  start: (offset?: number) => void;
+  stop: () => void;
+  // ตำแหน่งบนไทม์ไลน์ที่กำลังเล่นอยู่ (วินาที)
+  currentTime: () => number;
+  onended: (() => void) | null;
+}
+
+interface EnvelopePoint {
+  time: number;
+  value: number;
+}
+
+// แปลงช่วงที่มีเสียงพากย์เป็นจุดของ envelope สำหรับลดเสียงพื้นหลัง (ช่วงที่ชิดกันจะรวมเป็นช่วงเดียว)
+export const buildDuckingEnvelope = (placements: ClipPlacement[], mix: MixSettings): EnvelopePoint[] => {
+  const intervals = placements
+    .map(p => ({ start: p.offset, end: p.offset + p.duration }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start - mix.duckAttack <= last.end + mix.duckRelease) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  const points: EnvelopePoint[] = [{ time: 0, value: 1 }];
+  for (const { start, end } of merged) {
+    points.push({ time: Math.max(0, start - mix.duckAttack), value: 1 });
+    points.push({ time: start, value: mix.duckLevel });
+    points.push({ time: end, value: mix.duckLevel });
+    points.push({ time: end + mix.duckRelease, value: 1 });
+  }
+  return points;
+};
+
+const envelopeValueAt = (points: EnvelopePoint[], time: number): number => {
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].time <= time) {
+      const next = points[i + 1];
+      if (!next || next.time === points[i].time) return points[i].value;
+      const ratio = (time - points[i].time) / (next.time - points[i].time);
+      return points[i].value + (next.value - points[i].value) * ratio;
+    }
+  }
+  return 1;
+};
+
+const scheduleEnvelope = (param: AudioParam, points: EnvelopePoint[], contextStart: number, offset: number) => {
+  param.cancelScheduledValues(0);
+  param.setValueAtTime(envelopeValueAt(points, offset), contextStart);
+  for (const point of points) {
+    if (point.time <= offset) continue;
+    param.linearRampToValueAtTime(point.value, contextStart + point.time - offset);
+  }
+};
+
+// สร้างกราฟมิกซ์: เสียงต้นฉบับ -> background gain -> ducking -> master <- dub gain <- เสียงพากย์
+// ใช้ได้ทั้ง AudioContext (พรีวิวสด/อัดวิดีโอ) และ OfflineAudioContext (ส่งออก WAV)
+export const createMixGraph = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  sources: MixSources,
+  mix: MixSettings
+): MixGraph => {
+  const master = ctx.createGain();
+  master.gain.value = mix.masterGain;
+  master.connect(destination);
+
+  const dub = ctx.createGain();
+  dub.gain.value = mix.dubGain;
+  dub.connect(master);
+
+  const background = ctx.createGain();
+  background.gain.value = mix.backgroundGain;
+  const duck = ctx.createGain();
+  background.connect(duck);
+  duck.connect(master);
+
+  const dubSource = ctx.createBufferSource();
+  dubSource.buffer = sources.dub;
+  dubSource.connect(dub);
+
+  let originalSource: AudioBufferSourceNode | null = null;
+  if (mix.keepBackground && sources.original) {
+    originalSource = ctx.createBufferSource();
+    originalSource.buffer = sources.original;
+    originalSource.connect(background);
+  }
+
+  const envelope = buildDuckingEnvelope(sources.placements, mix);
+  let startedAt: number | null = null;
+
+  const graph: MixGraph = {
+    master,
+    dub,
+    background,
+    onended: null,
+    start: (offset = 0) => {
+      const now = ctx.currentTime;
+      startedAt = now - offset;
+      scheduleEnvelope(duck.gain, envelope, now, offset);
+      dubSource.start(now, Math.min(offset, sources.dub.duration));
+      if (originalSource && offset < originalSource.buffer!.duration) {
+        originalSource.start(now, offset);
+      }
+    },
+    currentTime: () => startedAt === null ? 0 : ctx.currentTime - startedAt,
+    stop: () => {
+      try { dubSource.stop(); } catch (e) { }
+      try { originalSource?.stop(); } catch (e) { }
+    }
+  };
+
+  // เสียงพากย์ถูกจัดให้ยาวอย่างน้อยเท่าวิดีโอแล้ว จึงใช้เป็นตัวบอกว่าจบการเล่น
+  dubSource.onended = () => graph.onended?.();
+  return graph;
+};
+
+export const renderMix = async (sources: MixSources, mix: MixSettings): Promise<AudioBuffer> => {
+  const withBackground = mix.keepBackground && sources.original;
+  const sampleRate = withBackground ? sources.original!.sampleRate : sources.dub.sampleRate;
+  const channels = withBackground ? Math.min(2, sources.original!.numberOfChannels) : 1;
+  const duration = Math.max(sources.dub.duration, withBackground ? sources.original!.duration : 0);
+
+  const offline = new OfflineAudioContext(channels, Math.ceil(duration * sampleRate), sampleRate);
+  const graph = createMixGraph(offline, offline.destination, sources, mix);
+  graph.start(0);
+  return offline.startRendering();
+};
+
+// ถอดเสียงต้นฉบับจากไฟล์วิดีโอ (คืนค่า null ถ้าวิดีโอไม่มีเสียงหรือเบราว์เซอร์ถอดไม่ได้)
+export const decodeOriginalAudio = async (videoUrl: string, ctx: BaseAudioContext): Promise<AudioBuffer | null> => {
+  try {
+    const data = await (await fetch(videoUrl)).arrayBuffer();
+    return await ctx.decodeAudioData(data);
+  } catch (e) {
+    console.warn('ไม่สามารถถอดเสียงต้นฉบับจากวิดีโอได้', e);
+    return null;
+  }
+};
@@ -0,0 +1,110 @@
+import { Schema, Type } from "@google/genai";
+import { TargetLanguage } from "../types";
+import { AIProvider } from "./aiProviderService";
+import { getLanguageProfile } from "./languageProfiles";
+
+// ผู้ให้บริการจำลองสำหรับทดสอบและเดโมแบบไม่ต่อเน็ต ผลลัพธ์เหมือนเดิมทุกครั้งสำหรับอินพุตเดียวกัน
+
+const SAMPLE_RATE = 24000;
+const SEGMENT_INTERVAL = 4;
+const SEGMENT_LENGTH = 3;
+const MOCK_ARRAY_LENGTH = 5;
+
+const CANNED_LINES: Record<TargetLanguage, string[]> = {
+  th: ['สวัสดีครับทุกคน วันนี้เรามีเรื่องสนุกมาเล่าให้ฟัง', 'ลองดูนี่สิ มันเจ๋งมากเลยนะ', 'ไม่น่าเชื่อเลยว่าจะออกมาเป็นแบบนี้', 'อย่าลืมกดติดตามด้วยนะครับ'],
+  vi: ['Xin chào mọi người, hôm nay có chuyện vui muốn kể', 'Nhìn này, hay lắm đấy', 'Không thể tin được kết quả lại như vậy', 'Đừng quên theo dõi nhé'],
+  lo: ['ສະບາຍດີທຸກຄົນ ມື້ນີ້ມີເລື່ອງມ່ວນມາເລົ່າ', 'ເບິ່ງນີ້ແມ ມັນງາມຫຼາຍ', 'ບໍ່ໜ້າເຊື່ອເລີຍ', 'ຢ່າລືມກົດຕິດຕາມເດີ້'],
+  id: ['Halo semuanya, hari ini ada cerita seru', 'Lihat ini, keren banget', 'Nggak nyangka hasilnya begini', 'Jangan lupa follow ya'],
+  en: ['Hey everyone, we have something fun to show you today', 'Check this out, it is really cool', 'I cannot believe how this turned out', 'Do not forget to follow for more']
+};
+
+// FNV-1a ใช้แทนการสุ่ม เพื่อให้ผลลัพธ์คงที่
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const cannedLine = (language: TargetLanguage, index: number) => {
+  const lines = CANNED_LINES[language] || CANNED_LINES.en;
+  return lines[index % lines.length];
+};
+
+// สร้างค่าตัวอย่างตาม schema ของ @google/genai (ใช้กับคำขอเขียนใหม่ที่ต้องการ JSON)
+const sampleFromSchema = (schema: Schema | undefined, language: TargetLanguage, index: number, key?: string): unknown => {
+  switch (schema?.type) {
+    case Type.ARRAY:
+      return Array.from({ length: MOCK_ARRAY_LENGTH }, (_, i) => sampleFromSchema(schema?.items, language, index + i));
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema?.properties || {}).map(([k, v]) => [k, sampleFromSchema(v, language, index, k)]));
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return index;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      if (schema?.enum) return schema.enum[0];
+      return !key || key === 'text' ? cannedLine(language, index) : `${key} ${index + 1}`;
+  }
+};
+
+// เสียงสังเคราะห์: โทนพื้นฐานตามเพศ + ฮาร์มอนิก มีจังหวะพยางค์ราว 4 ครั้งต่อวินาที
+const synthesizeTone = (seconds: number, pitch: number): Uint8Array => {
+  const frames = Math.round(seconds * SAMPLE_RATE);
+  const pcm = new Int16Array(frames);
+  const fade = Math.min(frames / 2, SAMPLE_RATE * 0.02);
+  for (let i = 0; i < frames; i++) {
+    const t = i / SAMPLE_RATE;
+    const syllable = Math.abs(Math.sin(Math.PI * 4 * t));
+    const tone = Math.sin(2 * Math.PI * pitch * t) + 0.5 * Math.sin(4 * Math.PI * pitch * t) + 0.25 * Math.sin(6 * Math.PI * pitch * t);
+    const edge = Math.min(1, i / fade, (frames - 1 - i) / fade);
+    pcm[i] = Math.round(tone * syllable * edge * 0.25 * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  label: 'Mock (ออฟไลน์)',
+  supportsVideoClips: true,
+  supportsVoiceCloning: false,
+
+  translateVideo: async ({ targetLanguage, clip, duration }) => {
+    const length = clip ? clip.end - clip.start : duration || 30;
+    const segments = [];
+    for (let start = 0.5, i = 0; start + 1 < length; start += SEGMENT_INTERVAL, i++) {
+      segments.push({
+        start,
+        end: Math.min(length, start + SEGMENT_LENGTH),
+        speaker: `Speaker ${(i % 2) + 1}`,
+        originalText: `Mock line ${i + 1}`,
+        targetText: cannedLine(targetLanguage, i)
+      });
+    }
+    return JSON.stringify({
+      speakers: [{ id: 'Speaker 1', gender: 'male' }, { id: 'Speaker 2', gender: 'female' }],
+      segments
+    });
+  },
+
+  rewrite: async ({ prompt, targetLanguage, schema }) => {
+    const index = hash(prompt) % (CANNED_LINES[targetLanguage] || CANNED_LINES.en).length;
+    return schema ? JSON.stringify(sampleFromSchema(schema, targetLanguage, index)) : cannedLine(targetLanguage, index);
+  },
+
+  synthesize: async ({ text, voiceName, gender, targetLanguage }) => {
+    const letters = text.replace(/[\s\p{P}\p{S}\p{M}]/gu, '').length;
+    const seconds = Math.min(20, Math.max(0.4, letters / getLanguageProfile(targetLanguage).charsPerSecond));
+    // แต่ละเสียงมีระดับเสียงต่างกันเล็กน้อย เพื่อให้แยกผู้พูดได้ตอนฟัง
+    const pitch = (gender === 'male' ? 120 : 220) * (0.9 + (hash(voiceName) % 21) / 100);
+    return { pcm: synthesizeTone(seconds, pitch), sampleRate: SAMPLE_RATE };
+  },
+
+  uploadVideo: async (blob, mimeType, displayName, onProgress) => {
+    onProgress?.(1);
+    return { kind: 'file', uri: `mock://${encodeURIComponent(displayName)}`, mimeType, name: `mock/${hash(displayName + blob.size)}` };
+  }
+});
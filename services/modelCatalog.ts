@@ -0,0 +1,60 @@
+import { ModelTask, TaskModelConfig } from "../types";
+
+export type Modality = 'text' | 'video' | 'audio';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  input: Modality[];
+  output: Modality[];
+  // ช่วงของ thinking budget ที่โมเดลรับได้ (ไม่มี = โมเดลไม่รองรับการคิด)
+  thinking?: { min: number; max: number; canDisable: boolean };
+}
+
+// โมเดลของ Gemini ที่ใช้กับแอปนี้ได้ พร้อมชนิดข้อมูลเข้า/ออก
+export const GEMINI_MODELS: ModelInfo[] = [
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', input: ['text', 'video', 'audio'], output: ['text'], thinking: { min: 0, max: 24576, canDisable: true } },
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', input: ['text', 'video', 'audio'], output: ['text'], thinking: { min: 128, max: 32768, canDisable: false } },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', input: ['text', 'video', 'audio'], output: ['text'], thinking: { min: 0, max: 24576, canDisable: true } },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', input: ['text', 'video', 'audio'], output: ['text'], thinking: { min: 512, max: 24576, canDisable: true } },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', input: ['text', 'video', 'audio'], output: ['text'], thinking: { min: 128, max: 32768, canDisable: false } },
+  { id: 'gemini-2.5-flash-preview-tts', label: 'Gemini 2.5 Flash TTS', input: ['text'], output: ['audio'] },
+  { id: 'gemini-2.5-pro-preview-tts', label: 'Gemini 2.5 Pro TTS', input: ['text'], output: ['audio'] }
+];
+
+// ชนิดข้อมูลที่แต่ละงานต้องส่งเข้าและรับออกจากโมเดล
+export const TASK_MODALITIES: Record<ModelTask, { input: Modality; output: Modality }> = {
+  translation: { input: 'video', output: 'text' },
+  hook: { input: 'text', output: 'text' },
+  speech: { input: 'text', output: 'audio' }
+};
+
+const modalityLabels: Record<Modality, string> = { text: 'ข้อความ', video: 'วิดีโอ', audio: 'เสียง' };
+
+export const getModelInfo = (id: string): ModelInfo | undefined =>
+  GEMINI_MODELS.find(m => m.id === id);
+
+export const getModelsForTask = (task: ModelTask): ModelInfo[] =>
+  GEMINI_MODELS.filter(m => m.input.includes(TASK_MODALITIES[task].input) && m.output.includes(TASK_MODALITIES[task].output));
+
+// คืนข้อความข้อผิดพลาดถ้าโมเดลทำงานนี้ไม่ได้ (null = ใช้ได้)
+export const validateTaskModel = (task: ModelTask, config: TaskModelConfig): string | null => {
+  const info = getModelInfo(config.model);
+  if (!info) return `ไม่รู้จักโมเดล ${config.model}`;
+
+  const { input, output } = TASK_MODALITIES[task];
+  if (!info.input.includes(input)) return `${info.label} รับข้อมูลแบบ${modalityLabels[input]}ไม่ได้`;
+  if (!info.output.includes(output)) return `${info.label} สร้างผลลัพธ์แบบ${modalityLabels[output]}ไม่ได้`;
+
+  if (config.temperature < 0 || config.temperature > 2) return 'Temperature ต้องอยู่ระหว่าง 0 ถึง 2';
+
+  const budget = config.thinkingBudget;
+  if (budget === null || budget === -1) return null;
+  if (!Number.isInteger(budget)) return 'Thinking budget ต้องเป็นจำนวนเต็ม';
+  if (!info.thinking) return `${info.label} ไม่รองรับ thinking budget`;
+  if (budget === 0) return info.thinking.canDisable ? null : `${info.label} ปิดการคิดไม่ได้`;
+  if (budget < info.thinking.min || budget > info.thinking.max) {
+    return `Thinking budget ของ ${info.label} ต้องอยู่ระหว่าง ${info.thinking.min} ถึง ${info.thinking.max}`;
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+import { Gender, ModelSettings, ModelTask } from "../types";
+import { LanguageProfile } from "./languageProfiles";
+import { validateTaskModel } from "./modelCatalog";
+import { isPrebuiltVoice } from "./voiceCatalog";
+
+const MODEL_SETTINGS_KEY = 'vocalbridge:modelSettings';
+
+export const MODEL_TASKS: ModelTask[] = ['translation', 'hook', 'speech'];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  translation: { model: 'gemini-3-flash-preview', temperature: 0.8, thinkingBudget: null },
+  hook: { model: 'gemini-3-flash-preview', temperature: 0.9, thinkingBudget: null },
+  speech: { model: 'gemini-2.5-flash-preview-tts', temperature: 1.0, thinkingBudget: null },
+  voices: { male: null, female: null }
+};
+
+// เติมค่าที่ขาดจากค่าเริ่มต้น (เผื่อการตั้งค่าที่บันทึกไว้จากเวอร์ชันก่อนมีฟิลด์ไม่ครบ)
+export const normalizeModelSettings = (stored: Partial<ModelSettings> | null | undefined): ModelSettings => ({
+  translation: { ...DEFAULT_MODEL_SETTINGS.translation, ...stored?.translation },
+  hook: { ...DEFAULT_MODEL_SETTINGS.hook, ...stored?.hook },
+  speech: { ...DEFAULT_MODEL_SETTINGS.speech, ...stored?.speech },
+  voices: { ...DEFAULT_MODEL_SETTINGS.voices, ...stored?.voices }
+});
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    return normalizeModelSettings(JSON.parse(localStorage.getItem(MODEL_SETTINGS_KEY) || 'null'));
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(MODEL_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const validateModelSettings = (settings: ModelSettings): Partial<Record<ModelTask | 'voices', string>> => {
+  const errors: Partial<Record<ModelTask | 'voices', string>> = {};
+  for (const task of MODEL_TASKS) {
+    const error = validateTaskModel(task, settings[task]);
+    if (error) errors[task] = error;
+  }
+  const unknownVoice = Object.values(settings.voices).find(name => name && !isPrebuiltVoice(name));
+  if (unknownVoice) errors.voices = `ไม่พบเสียง ${unknownVoice}`;
+  return errors;
+};
+
+export const resolveDefaultVoice = (profile: LanguageProfile, gender: Gender, settings: ModelSettings): string =>
+  settings.voices[gender] || profile.defaultVoices[gender];
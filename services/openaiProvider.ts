@@ -0,0 +1,88 @@
+import { OpenAICompatibleConfig } from "../types";
+import { AIProvider } from "./aiProviderService";
+
+// OpenAI /audio/speech ส่ง PCM 16-bit mono ที่ 24kHz เมื่อขอ response_format = pcm
+const TTS_SAMPLE_RATE = 24000;
+
+// แปลง schema ของ @google/genai (type: 'OBJECT', propertyOrdering) เป็น JSON Schema มาตรฐาน
+const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'propertyOrdering') continue;
+    if (key === 'type' && typeof value === 'string') result.type = value.toLowerCase();
+    else if (key === 'properties') result.properties = Object.fromEntries(Object.entries(value && typeof value === 'object' ? value : {}).map(([k, v]) => [k, toJsonSchema(v)]));
+    else result[key] = toJsonSchema(value);
+  }
+  return result;
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const label = `OpenAI-compatible (${baseUrl.replace(/^https?:\/\//, '')})`;
+
+  const post = async (path: string, body: object) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      let message = detail;
+      try {
+        message = JSON.parse(detail)?.error?.message || detail;
+      } catch {}
+      throw new Error(`${label} ตอบกลับ ${response.status}: ${message.slice(0, 300)}`);
+    }
+    return response;
+  };
+
+  const chat = async (content: unknown, temperature: number, schema?: object) => {
+    const response = await post('/chat/completions', {
+      model: config.model,
+      temperature,
+      messages: [{ role: 'user', content }],
+      ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'result', schema: toJsonSchema(schema) } } } : {})
+    });
+    const data = await response.json();
+    return String(data?.choices?.[0]?.message?.content || '');
+  };
+
+  return {
+    id: 'openai',
+    label,
+    supportsVideoClips: false,
+    // OpenAI เองโคลนเสียงไม่ได้ แต่เซิร์ฟเวอร์ TTS ที่เลียนแบบ API นี้หลายตัวรับเสียงอ้างอิงในฟิลด์เพิ่มเติม
+    supportsVoiceCloning: !!config.referenceAudioField,
+
+    // วิดีโอแนบเป็น data URL (รองรับเฉพาะเซิร์ฟเวอร์/โมเดลที่รับ video_url เช่น vLLM กับโมเดลที่ดูวิดีโอได้)
+    translateVideo: async ({ video, prompt, schema, generation }) => {
+      if (video.kind !== 'inline') {
+        throw new Error(`${label} รองรับเฉพาะวิดีโอขนาดเล็กที่ส่งแบบ inline`);
+      }
+      return chat([
+        { type: 'video_url', video_url: { url: `data:${video.mimeType};base64,${video.data}` } },
+        { type: 'text', text: prompt }
+      ], generation.temperature, schema);
+    },
+
+    rewrite: ({ prompt, generation, schema }) => chat(prompt, generation.temperature, schema),
+
+    synthesize: async ({ text, instructions, gender, referenceAudio }) => {
+      const response = await post('/audio/speech', {
+        model: config.ttsModel,
+        input: text,
+        voice: gender === 'male' ? config.maleVoice : config.femaleVoice,
+        instructions,
+        response_format: 'pcm',
+        ...(referenceAudio && config.referenceAudioField ? { [config.referenceAudioField]: referenceAudio } : {})
+      });
+      return { pcm: new Uint8Array(await response.arrayBuffer()), sampleRate: TTS_SAMPLE_RATE };
+    }
+  };
+};
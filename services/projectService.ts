@@ -0,0 +1,176 @@
+import { ProjectRecord } from "../types";
+
+// AudioBuffer เก็บลง IndexedDB ตรงๆ ไม่ได้ จึงเก็บเป็นข้อมูล PCM แยกช่อง
+export interface StoredAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface LoadedProject {
+  record: ProjectRecord;
+  video: Blob | null;
+  dub: StoredAudio | null;
+  voices: Record<string, string>;
+}
+
+export interface ProjectAssets {
+  video?: Blob;
+  // undefined = ไม่เปลี่ยน, null = ลบเสียงพากย์ที่เก็บไว้
+  dub?: AudioBuffer | null;
+  // คลิปเสียงอ้างอิงตาม id ผู้พูด เก็บแยกจาก record เพื่อไม่ให้ถูกเขียนซ้ำไปพร้อมประวัติทุกเวอร์ชัน
+  voices?: Record<string, string>;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'vocalbridge';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const ASSET_STORE = 'assets';
+const LAST_PROJECT_KEY = 'vocalbridge:lastProjectId';
+
+export const STORAGE_FULL_MESSAGE = 'พื้นที่จัดเก็บในเบราว์เซอร์เต็ม กรุณาลบโปรเจกต์เก่าก่อนบันทึกต่อ';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('เบราว์เซอร์นี้ไม่รองรับการบันทึกโปรเจกต์ (IndexedDB)'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(ASSET_STORE)) db.createObjectStore(ASSET_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// รันหลายคำสั่งใน transaction เดียว แล้วรอจน commit จริง (ข้อผิดพลาดเรื่องพื้นที่เต็มมักมาตอน commit)
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }).catch(error => {
+    if (isQuotaError(error)) {
+      const quotaError = new Error(STORAGE_FULL_MESSAGE);
+      quotaError.name = 'QuotaExceededError';
+      throw quotaError;
+    }
+    throw error;
+  });
+};
+
+const videoKey = (id: string) => `${id}:video`;
+const dubKey = (id: string) => `${id}:dub`;
+const voicesKey = (id: string) => `${id}:voices`;
+
+export const createProjectId = () =>
+  `prj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const records = await runTransaction<ProjectRecord[]>([PROJECT_STORE], 'readonly', tx =>
+    tx.objectStore(PROJECT_STORE).getAll() as IDBRequest<ProjectRecord[]>
+  );
+  return (records || []).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const toStoredAudio = (buffer: AudioBuffer): StoredAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => new Float32Array(buffer.getChannelData(i)))
+});
+
+export const restoreAudioBuffer = (stored: StoredAudio, ctx: BaseAudioContext): AudioBuffer => {
+  const buffer = ctx.createBuffer(stored.channels.length, stored.channels[0].length, stored.sampleRate);
+  stored.channels.forEach((data, i) => buffer.copyToChannel(data, i));
+  return buffer;
+};
+
+export const saveProject = async (record: ProjectRecord, assets: ProjectAssets = {}) => {
+  await runTransaction([PROJECT_STORE, ASSET_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).put(record);
+    const assetStore = tx.objectStore(ASSET_STORE);
+    if (assets.video) assetStore.put(assets.video, videoKey(record.id));
+    if (assets.dub) assetStore.put(toStoredAudio(assets.dub), dubKey(record.id));
+    if (assets.dub === null) assetStore.delete(dubKey(record.id));
+    if (assets.voices) assetStore.put(assets.voices, voicesKey(record.id));
+  });
+  localStorage.setItem(LAST_PROJECT_KEY, record.id);
+};
+
+export const loadProject = async (id: string): Promise<LoadedProject | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([PROJECT_STORE, ASSET_STORE], 'readonly');
+    const recordRequest = tx.objectStore(PROJECT_STORE).get(id);
+    const videoRequest = tx.objectStore(ASSET_STORE).get(videoKey(id));
+    const dubRequest = tx.objectStore(ASSET_STORE).get(dubKey(id));
+    const voicesRequest = tx.objectStore(ASSET_STORE).get(voicesKey(id));
+    tx.oncomplete = () => resolve(recordRequest.result
+      ? { record: recordRequest.result, video: videoRequest.result || null, dub: dubRequest.result || null, voices: voicesRequest.result || {} }
+      : null);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteProject = async (id: string) => {
+  await runTransaction([PROJECT_STORE, ASSET_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).delete(id);
+    tx.objectStore(ASSET_STORE).delete(videoKey(id));
+    tx.objectStore(ASSET_STORE).delete(dubKey(id));
+    tx.objectStore(ASSET_STORE).delete(voicesKey(id));
+  });
+  if (localStorage.getItem(LAST_PROJECT_KEY) === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+// ลบโปรเจกต์ที่ไม่ได้แก้ไขนานกว่าที่กำหนด (ยกเว้นโปรเจกต์ที่เปิดอยู่) คืนค่าจำนวนที่ลบ
+export const purgeProjects = async (olderThanMs: number, keepId?: string | null): Promise<number> => {
+  const cutoff = Date.now() - olderThanMs;
+  const stale = (await listProjects()).filter(p => p.updatedAt < cutoff && p.id !== keepId);
+  for (const project of stale) await deleteProject(project.id);
+  return stale.length;
+};
+
+export const getLastProjectId = () => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const clearLastProjectId = () => localStorage.removeItem(LAST_PROJECT_KEY);
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// ขอให้เบราว์เซอร์ไม่ลบข้อมูลโปรเจกต์ทิ้งเองเมื่อพื้นที่เหลือน้อย
+export const requestPersistentStorage = async () => {
+  try {
+    if (navigator.storage?.persisted && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (e) {
+    console.warn('Persistent storage request failed', e);
+  }
+};
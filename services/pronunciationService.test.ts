@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { normalizeForSpeech, readThaiInteger, readThaiNumber } from "./pronunciationService";
+
+describe('readThaiInteger', () => {
+  it.each([
+    ['0', 'ศูนย์'],
+    ['1', 'หนึ่ง'],
+    ['11', 'สิบเอ็ด'],
+    ['21', 'ยี่สิบเอ็ด'],
+    ['101', 'หนึ่งร้อยเอ็ด'],
+    ['1000000', 'หนึ่งล้าน'],
+    ['1000001', 'หนึ่งล้านเอ็ด'],
+    ['2000011', 'สองล้านสิบเอ็ด'],
+    ['11000000', 'สิบเอ็ดล้าน'],
+    ['1000000000000', 'หนึ่งล้านล้าน'],
+    ['1,250,000', 'หนึ่งล้านสองแสนห้าหมื่น']
+  ])('reads %s', (value, expected) => {
+    expect(readThaiInteger(value)).toBe(expected);
+  });
+});
+
+describe('readThaiNumber', () => {
+  it('reads decimals digit by digit', () => {
+    expect(readThaiNumber('3.05')).toBe('สามจุดศูนย์ห้า');
+  });
+});
+
+describe('normalizeForSpeech', () => {
+  it('reads numbers in Thai text', () => {
+    expect(normalizeForSpeech('มีคนดู 1000001 ครั้ง', 'th', [])).toContain('หนึ่งล้านเอ็ด');
+  });
+
+  it('joins a brand name and the model number after it', () => {
+    expect(normalizeForSpeech('iPhone 16', 'th', [])).toBe('ไอโฟนสิบหก');
+    expect(normalizeForSpeech('ซื้อ iPhone 16 มาใหม่', 'th', [])).toBe('ซื้อ ไอโฟนสิบหก มาใหม่');
+  });
+
+  it.each([
+    ['เวอร์ชัน 1.2.3', 'เวอร์ชัน หนึ่งจุดสองจุดสาม'],
+    ['ไอพี 192.168.0.1', 'ไอพี หนึ่งร้อยเก้าสิบสองจุดหนึ่งร้อยหกสิบแปดจุดศูนย์จุดหนึ่ง'],
+    ['ข้อ 1. และ 2.', 'ข้อ หนึ่ง และ สอง'],
+    ['ค่า 3.05 ครับ', 'ค่า สามจุดศูนย์ห้า ครับ']
+  ])('reads dotted numbers in %s', (text, expected) => {
+    expect(normalizeForSpeech(text, 'th', [])).toBe(expected);
+  });
+
+  it('leaves other languages apart from the lexicon', () => {
+    expect(normalizeForSpeech('1000001 views', 'en', [])).toBe('1000001 views');
+  });
+});
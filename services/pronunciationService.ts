@@ -0,0 +1,200 @@
+import { PronunciationEntry, TargetLanguage, TranslationSegment } from "../types";
+import { termPattern } from "./glossaryService";
+
+// แปลงข้อความที่แปลแล้วเป็น "คำอ่าน" ก่อนส่งให้ TTS: พจนานุกรมคำอ่านของผู้ใช้ใช้ได้ทุกภาษา
+// ส่วนคำทับศัพท์ในตัว ตัวย่อ ตัวเลข วันที่ เวลา และสกุลเงิน แปลงเฉพาะภาษาไทย
+
+const LEXICON_KEY = 'vocalbridge:lexicon';
+
+export const createPronunciationEntry = (written = '', spoken = ''): PronunciationEntry => ({
+  id: `say-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  written,
+  spoken
+});
+
+export const loadLexicon = (): PronunciationEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEXICON_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+let lexicon: PronunciationEntry[] | null = null;
+
+export const saveLexicon = (entries: PronunciationEntry[]) => {
+  localStorage.setItem(LEXICON_KEY, JSON.stringify(entries));
+  lexicon = entries;
+};
+
+const getLexicon = () => {
+  if (!lexicon) lexicon = loadLexicon();
+  return lexicon;
+};
+
+// คำทับศัพท์และตัวย่อที่ TTS มักอ่านผิดเมื่ออยู่กลางประโยคภาษาไทย (ผู้ใช้เขียนทับได้ด้วยพจนานุกรมของตัวเอง)
+const BUILT_IN_THAI: [string, string][] = [
+  ['5G', 'ไฟว์จี'], ['4G', 'โฟร์จี'], ['3G', 'ทรีจี'], ['Wi-Fi', 'ไวไฟ'], ['WiFi', 'ไวไฟ'],
+  ['AI', 'เอไอ'], ['OK', 'โอเค'], ['VIP', 'วีไอพี'], ['CEO', 'ซีอีโอ'], ['DIY', 'ดีไอวาย'], ['vs', 'เวอร์ซัส'],
+  ['iPhone', 'ไอโฟน'], ['iPad', 'ไอแพด'], ['MacBook', 'แมคบุ๊ก'], ['Android', 'แอนดรอยด์'], ['Samsung', 'ซัมซุง'],
+  ['YouTube', 'ยูทูบ'], ['TikTok', 'ติ๊กต็อก'], ['Facebook', 'เฟซบุ๊ก'], ['Instagram', 'อินสตาแกรม'], ['Google', 'กูเกิล'],
+  ['Shopee', 'ช้อปปี้'], ['Lazada', 'ลาซาด้า'], ['Live', 'ไลฟ์'], ['app', 'แอป'], ['online', 'ออนไลน์'],
+  ['กม.', 'กิโลเมตร'], ['กก.', 'กิโลกรัม'], ['ซม.', 'เซนติเมตร'], ['มม.', 'มิลลิเมตร'],
+  ['พ.ศ.', 'พุทธศักราช'], ['ค.ศ.', 'คริสต์ศักราช'], ['รพ.', 'โรงพยาบาล'], ['ฯลฯ', 'และอื่นๆ']
+];
+
+// หน่วยที่มักเขียนติดตัวเลข (128GB) จึงตรวจขอบคำแยกจากพจนานุกรม
+const UNITS: Record<string, string> = {
+  GB: 'กิกะไบต์', MB: 'เมกะไบต์', TB: 'เทระไบต์', mAh: 'มิลลิแอมป์ชั่วโมง', Hz: 'เฮิรตซ์', W: 'วัตต์',
+  km: 'กิโลเมตร', kg: 'กิโลกรัม', cm: 'เซนติเมตร', mm: 'มิลลิเมตร', ml: 'มิลลิลิตร', g: 'กรัม', m: 'เมตร'
+};
+
+const THAI_MONTHS = ['มกราคม', 'กุมภาพันธ์', 'มีนาคม', 'เมษายน', 'พฤษภาคม', 'มิถุนายน', 'กรกฎาคม', 'สิงหาคม', 'กันยายน', 'ตุลาคม', 'พฤศจิกายน', 'ธันวาคม'];
+const THAI_MONTH_ABBREVIATIONS = ['ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'];
+
+const LETTER_NAMES: Record<string, string> = {
+  A: 'เอ', B: 'บี', C: 'ซี', D: 'ดี', E: 'อี', F: 'เอฟ', G: 'จี', H: 'เอช', I: 'ไอ', J: 'เจ', K: 'เค', L: 'แอล', M: 'เอ็ม',
+  N: 'เอ็น', O: 'โอ', P: 'พี', Q: 'คิว', R: 'อาร์', S: 'เอส', T: 'ที', U: 'ยู', V: 'วี', W: 'ดับเบิลยู', X: 'เอ็กซ์', Y: 'วาย', Z: 'แซด'
+};
+
+const DIGIT_WORDS = ['ศูนย์', 'หนึ่ง', 'สอง', 'สาม', 'สี่', 'ห้า', 'หก', 'เจ็ด', 'แปด', 'เก้า'];
+const PLACE_WORDS = ['', 'สิบ', 'ร้อย', 'พัน', 'หมื่น', 'แสน'];
+
+// หน่วยสกุลเงิน และหน่วยย่อยสำหรับทศนิยม (ไม่มี = อ่านทศนิยมแบบ "จุด")
+const CURRENCIES: Record<string, { name: string; subunit?: string }> = {
+  '฿': { name: 'บาท', subunit: 'สตางค์' }, 'บาท': { name: 'บาท', subunit: 'สตางค์' }, 'THB': { name: 'บาท', subunit: 'สตางค์' },
+  '$': { name: 'ดอลลาร์', subunit: 'เซนต์' }, 'ดอลลาร์': { name: 'ดอลลาร์', subunit: 'เซนต์' }, 'USD': { name: 'ดอลลาร์', subunit: 'เซนต์' },
+  '€': { name: 'ยูโร', subunit: 'เซนต์' }, 'ยูโร': { name: 'ยูโร', subunit: 'เซนต์' }, 'EUR': { name: 'ยูโร', subunit: 'เซนต์' },
+  '£': { name: 'ปอนด์', subunit: 'เพนนี' }, 'ปอนด์': { name: 'ปอนด์', subunit: 'เพนนี' }, 'GBP': { name: 'ปอนด์', subunit: 'เพนนี' },
+  '¥': { name: 'เยน' }, 'เยน': { name: 'เยน' }, 'JPY': { name: 'เยน' },
+  'หยวน': { name: 'หยวน' }, 'CNY': { name: 'หยวน' }, 'RMB': { name: 'หยวน' },
+  '₩': { name: 'วอน' }, 'วอน': { name: 'วอน' }, 'KRW': { name: 'วอน' }
+};
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// อ่านจำนวนไม่เกินหกหลัก ("เอ็ด" ใช้เฉพาะหลักหน่วยที่มีหลักอื่นนำหน้า รวมถึงกลุ่มล้านที่สูงกว่า เช่น 1000001)
+const readGroup = (digits: string, hasHigherDigits = false): string => {
+  let words = '';
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[i]);
+    const place = digits.length - 1 - i;
+    if (digit === 0) continue;
+    if (place === 1 && digit === 1) words += 'สิบ';
+    else if (place === 1 && digit === 2) words += 'ยี่สิบ';
+    else if (place === 0 && digit === 1 && (hasHigherDigits || Number(digits.slice(0, -1)) > 0)) words += 'เอ็ด';
+    else words += DIGIT_WORDS[digit] + PLACE_WORDS[place];
+  }
+  return words;
+};
+
+// จำนวนเต็มทุกขนาด แบ่งกลุ่มละหกหลักต่อด้วย "ล้าน"
+export const readThaiInteger = (value: string): string => {
+  const digits = value.replace(/\D/g, '').replace(/^0+(?=\d)/, '');
+  if (!digits || /^0+$/.test(digits)) return DIGIT_WORDS[0];
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= 6) groups.unshift(digits.slice(Math.max(0, end - 6), end));
+  return groups.map((group, i) => {
+    const isLowest = i === groups.length - 1;
+    const words = readGroup(group, isLowest && groups.slice(0, -1).some(g => Number(g) > 0));
+    const millions = 'ล้าน'.repeat(groups.length - 1 - i);
+    return words ? words + millions : '';
+  }).join('') || DIGIT_WORDS[0];
+};
+
+const readDigits = (value: string) => value.replace(/\D/g, '').split('').map(d => DIGIT_WORDS[Number(d)]).join('');
+
+// ตัวเลขทั่วไป ทศนิยมอ่านทีละหลักหลัง "จุด"
+export const readThaiNumber = (value: string): string => {
+  const [integer, fraction] = value.replace(/,/g, '').split('.');
+  return readThaiInteger(integer) + (fraction ? 'จุด' + readDigits(fraction) : '');
+};
+
+const readMoney = (amount: string, currency: { name: string; subunit?: string }) => {
+  const [integer, fraction] = amount.replace(/,/g, '').split('.');
+  if (!fraction || !currency.subunit) return readThaiNumber(amount) + currency.name;
+  const cents = Number(fraction.padEnd(2, '0').slice(0, 2));
+  return readThaiInteger(integer) + currency.name + (cents > 0 ? readThaiInteger(String(cents)) + currency.subunit : '');
+};
+
+const readDate = (day: number, month: number, year?: string) =>
+  day >= 1 && day <= 31 && month >= 1 && month <= 12
+    ? `${readThaiInteger(String(day))} ${THAI_MONTHS[month - 1]}${year ? ' ' + readThaiInteger(year) : ''}`
+    : null;
+
+const readTime = (hours: string, minutes: string) => {
+  const h = Number(hours);
+  const m = Number(minutes);
+  if (h > 24 || m > 59) return null;
+  return `${readThaiInteger(hours)}นาฬิกา${m > 0 ? readThaiInteger(minutes) + 'นาที' : ''}`;
+};
+
+const lexiconKey = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// แทนคำทั้งหมดในรอบเดียว คำอ่านที่แทนไปแล้วจึงไม่ถูกแทนซ้ำ และคำที่ยาวกว่าได้ก่อน
+// ชื่อภาษาอังกฤษที่ตามด้วยตัวเลข (iPhone 16) เป็นชื่อรุ่น จึงตัดช่องว่างออกให้ TTS อ่านต่อกันไม่เว้นจังหวะ (ไอโฟนสิบหก)
+const applyLexicon = (text: string, entries: { written: string; spoken: string }[]) => {
+  const usable = entries.filter(e => e.written.trim() && e.spoken.trim());
+  if (usable.length === 0) return text;
+  const spokenByKey = new Map<string, string>();
+  for (const entry of usable) {
+    const key = lexiconKey(entry.written);
+    if (!spokenByKey.has(key)) spokenByKey.set(key, entry.spoken.trim());
+  }
+  const pattern = [...usable]
+    .sort((a, b) => b.written.trim().length - a.written.trim().length)
+    .map(e => `(?:${termPattern(e.written, '').source}${/[A-Za-z]$/.test(e.written.trim()) ? '(?:[ \\t]+(?=\\d))?' : ''})`)
+    .join('|');
+  return text.replace(new RegExp(pattern, 'gi'), match => spokenByKey.get(lexiconKey(match)) ?? match);
+};
+
+const verbalizeThai = (text: string) => {
+  const currencyWords = Object.keys(CURRENCIES).filter(k => k.length > 1).map(escapeRegExp).join('|');
+  const currencySymbols = Object.keys(CURRENCIES).filter(k => k.length === 1).map(escapeRegExp).join('');
+  const unitNames = Object.keys(UNITS).join('|');
+  const wordUnitNames = Object.keys(UNITS).filter(u => u.length > 1).join('|');
+
+  return text
+    // ชื่อเดือนย่อ
+    .replace(new RegExp(THAI_MONTH_ABBREVIATIONS.map(escapeRegExp).join('|'), 'g'), m => THAI_MONTHS[THAI_MONTH_ABBREVIATIONS.indexOf(m)])
+    // วันที่ 2024-10-12 และ 12/10/2567
+    .replace(/(?<!\d)(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/g, (m, y, mo, d) => readDate(Number(d), Number(mo), y) ?? m)
+    .replace(/(?<![\d/])(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?![\d/])/g, (m, d, mo, y) => readDate(Number(d), Number(mo), y) ?? m)
+    // เวลา 14:30 หรือ 14.30 น.
+    .replace(/(?<![\d:])(\d{1,2}):(\d{2})(?::\d{2})?(?!\d)(?:\s*(?:น\.|นาฬิกา))?/g, (m, h, mi) => readTime(h, mi) ?? m)
+    .replace(/(?<![\d.])(\d{1,2})\.(\d{2})\s*น\./g, (m, h, mi) => readTime(h, mi) ?? m)
+    // เลขเวอร์ชันและ IP (1.2.3, 192.168.0.1) อ่านทีละกลุ่มคั่นด้วย "จุด" ก่อนถูกอ่านเป็นทศนิยม
+    .replace(/(?<![\d.,])\d+(?:\.\d+){2,}(?:\.(?!\d))?(?!\d)/g, m => m.split('.').filter(Boolean).map(readThaiInteger).join('จุด'))
+    // สกุลเงิน ทั้งแบบสัญลักษณ์นำหน้า (฿1,500) และหน่วยตามหลัง (1,500 บาท, 20 USD)
+    .replace(new RegExp(`([${currencySymbols}])\\s?(${NUMBER})`, 'g'), (_m, symbol, amount) => readMoney(amount, CURRENCIES[symbol]))
+    .replace(new RegExp(`(?<![\\d.,])(${NUMBER})\\s?(${currencyWords})(?![A-Za-z])`, 'g'), (_m, amount, unit) => readMoney(amount, CURRENCIES[unit]))
+    .replace(new RegExp(`(?<![\\d.,])(${NUMBER})\\s?%`, 'g'), (_m, value) => readThaiNumber(value) + 'เปอร์เซ็นต์')
+    // หน่วยตามหลังตัวเลข (หน่วยตัวอักษรเดียวต้องมีตัวเลขนำหน้าเสมอ)
+    .replace(new RegExp(`(?<=\\d\\s?)(?:${unitNames})(?![A-Za-z0-9])|(?<![A-Za-z0-9])(?:${wordUnitNames})(?![A-Za-z0-9])`, 'g'), m => UNITS[m])
+    // เบอร์โทร รหัส และตัวเลขที่ขึ้นต้นด้วยศูนย์หรือยาวมาก อ่านทีละหลัก
+    .replace(/(?<![\d.,])0\d{1,2}(?:-\d{3,4}){2}(?!\d)/g, m => readDigits(m))
+    .replace(/(?<![\d.,])(?:0\d+|\d{10,})(?![\d.,]\d|\d)/g, m => readDigits(m))
+    // จุดท้ายตัวเลขที่ไม่มีทศนิยมตามมา (ข้อ 1. และ 2.) เป็นเครื่องหมายลำดับ ไม่ต้องเหลือไว้ให้ TTS
+    .replace(new RegExp(`(?<![\\d.,])(${NUMBER})(?:\\.(?!\\d))?(?![\\d])`, 'g'), (_m, value) => readThaiNumber(value))
+    // ตัวย่อภาษาอังกฤษพิมพ์ใหญ่ที่ไม่มีในพจนานุกรม สะกดทีละตัว (BTS → บีทีเอส) ยกเว้นคำที่อ่านเป็นคำได้ เช่น FREE
+    .replace(/(?<![A-Za-z])[A-Z]{2,6}(?![A-Za-z])/g, m =>
+      m.length <= 3 || !/[AEIOUY]/.test(m) ? m.split('').map(c => LETTER_NAMES[c]).join('') : m);
+};
+
+const toArabicDigits = (text: string) => text.replace(/[๐-๙]/g, d => String(d.charCodeAt(0) - 0x0e50));
+
+export const normalizeForSpeech = (text: string, language: TargetLanguage, entries: PronunciationEntry[] = getLexicon()): string => {
+  if (!text) return '';
+  if (language !== 'th') return applyLexicon(text, entries);
+  const userKeys = new Set(entries.map(e => lexiconKey(e.written)));
+  const builtIn = BUILT_IN_THAI
+    .filter(([written]) => !userKeys.has(lexiconKey(written)))
+    .map(([written, spoken]) => ({ written, spoken }));
+  return verbalizeThai(applyLexicon(toArabicDigits(text), [...entries, ...builtIn])).replace(/[ \t]{2,}/g, ' ');
+};
+
+// คำอ่านที่จะส่งให้ TTS: ถ้าผู้ใช้แก้คำอ่านของประโยคนี้ไว้และข้อความยังเป็นข้อความเดิม ใช้ของผู้ใช้
+export const resolveSpokenText = (segment: TranslationSegment, text: string, language: TargetLanguage): string =>
+  segment.spokenText?.trim() && text === segment.targetText ? segment.spokenText : normalizeForSpeech(text, language);
@@ -0,0 +1,103 @@
+import { ProxyConfig, VideoInput } from "../types";
+import { AIProvider } from "./aiProviderService";
+import { CHUNK_SIZE, FILES_API_MAX_BYTES } from "./fileUploadService";
+
+// เรียก Gemini ผ่านเซิร์ฟเวอร์กลาง (server/) เบราว์เซอร์ไม่ต้องมี API key
+// เซิร์ฟเวอร์ตรวจโมเดล จำกัดขนาดคำขอ และจำกัดจำนวนครั้งต่อผู้ใช้
+
+const MAX_CHUNK_RETRIES = 3;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createProxyProvider = (config: ProxyConfig): AIProvider => {
+  const baseUrl = config.url.replace(/\/+$/, '');
+
+  const request = async (path: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (config.token) headers.set('Authorization', `Bearer ${config.token}`);
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers, signal });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      // ใส่รหัสสถานะไว้ในข้อความ เพื่อให้การลองใหม่เมื่อเจอ 429 ทำงานเหมือนเรียก Gemini ตรง
+      throw new Error(`${data?.error || 'เซิร์ฟเวอร์กลางตอบกลับผิดพลาด'} (${response.status})`);
+    }
+    return response;
+  };
+
+  const postJson = (path: string, body: unknown, signal?: AbortSignal) =>
+    request(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }, signal);
+
+  return {
+    id: 'proxy',
+    label: 'Gemini ผ่านเซิร์ฟเวอร์',
+    supportsVideoClips: true,
+    supportsVoiceCloning: false,
+
+    translateVideo: async translation => (await (await postJson('/translate', translation)).json()).text,
+
+    rewrite: async rewrite => (await (await postJson('/hook', rewrite)).json()).text,
+
+    synthesize: async speech => {
+      const response = await postJson('/tts', speech);
+      return {
+        pcm: new Uint8Array(await response.arrayBuffer()),
+        sampleRate: parseInt(response.headers.get('X-Sample-Rate') || '24000', 10)
+      };
+    },
+
+    // ส่งไฟล์ทีละ chunk ให้เซิร์ฟเวอร์ส่งต่อไปยัง Files API (URL อัปโหลดของ Google อยู่ที่เซิร์ฟเวอร์เท่านั้น)
+    uploadVideo: async (blob, mimeType, displayName, onProgress, signal) => {
+      if (blob.size > FILES_API_MAX_BYTES) {
+        throw new Error('ไฟล์มีขนาดใหญ่เกินไป (จำกัด 2GB)');
+      }
+
+      const { id } = await (await postJson('/upload', { size: blob.size, mimeType, displayName }, signal)).json();
+      let offset = 0;
+      let file: VideoInput | null = null;
+      onProgress?.(0);
+
+      while (offset < blob.size) {
+        const end = Math.min(offset + CHUNK_SIZE, blob.size);
+        let attempt = 0;
+
+        for (;;) {
+          try {
+            const response = await request(`/upload/${id}?offset=${offset}`, { method: 'PUT', body: blob.slice(offset, end) }, signal);
+            file = (await response.json()).file || null;
+            offset = end;
+            break;
+          } catch (e: any) {
+            if (e.name === 'AbortError' || attempt >= MAX_CHUNK_RETRIES) throw e;
+            attempt++;
+            await delay(Math.pow(2, attempt) * 1000);
+            const status = await request(`/upload/${id}`, {}, signal).then(r => r.json()).catch(() => null);
+            if (status?.file) file = status.file;
+            if (typeof status?.received === 'number' && status.received > offset) {
+              offset = status.received;
+              break;
+            }
+          }
+        }
+
+        onProgress?.(offset / blob.size);
+      }
+
+      // ไบต์สุดท้ายถึงแล้วแต่ยังไม่ได้ข้อมูลไฟล์: ส่ง chunk ว่างให้เซิร์ฟเวอร์ finalize อีกครั้ง
+      if (!file) {
+        const response = await request(`/upload/${id}?offset=${blob.size}`, { method: 'PUT', body: new Blob([]) }, signal);
+        file = (await response.json()).file || null;
+      }
+      if (!file) throw new Error('อัปโหลดไฟล์ไม่สำเร็จ');
+      return file;
+    },
+
+    deleteVideo: async input => {
+      if (input.kind !== 'file') return;
+      try {
+        await request(`/${input.name}`, { method: 'DELETE' });
+      } catch (e) {
+        console.warn(`Failed to delete uploaded file ${input.name}`, e);
+      }
+    }
+  };
+};
@@ -0,0 +1,122 @@
+import {
+  ALL_FORMATS,
+  AudioBufferSource,
+  BlobSource,
+  BufferTarget,
+  CanvasSink,
+  CanvasSource,
+  Input,
+  Mp4OutputFormat,
+  Output,
+  QUALITY_HIGH,
+  canEncodeAudio,
+  canEncodeVideo
+} from "mediabunny";
+
+export type FrameOverlay = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  time: number,
+  width: number,
+  height: number
+) => void;
+
+export interface RenderOptions {
+  signal?: AbortSignal;
+  onProgress?: (ratio: number) => void;
+  // วาดทับเฟรมก่อนเข้ารหัส (เช่น ซับไตเติลแบบฝัง)
+  drawOverlay?: FrameOverlay;
+}
+
+// เฟรมเรตที่ใช้ค้างภาพสุดท้ายไว้ เมื่อเสียงพากย์ยาวกว่าวิดีโอ
+const HOLD_FRAME_RATE = 30;
+
+export const isOfflineRenderSupported = () =>
+  typeof VideoEncoder !== 'undefined' && typeof VideoDecoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+// ถอดรหัสวิดีโอต้นฉบับด้วย WebCodecs แล้วเข้ารหัสใหม่เป็น H.264/AAC MP4 เร็วกว่าเวลาจริง
+// (ไม่ต้องเล่นวิดีโอจริง จึงไม่ตกเฟรมแม้แท็บถูกย่อ)
+export const renderDubbedVideo = async (
+  video: Blob,
+  audio: AudioBuffer,
+  options: RenderOptions = {}
+): Promise<Blob> => {
+  const { signal, onProgress, drawOverlay } = options;
+
+  const input = new Input({ source: new BlobSource(video), formats: ALL_FORMATS });
+  const track = await input.getPrimaryVideoTrack();
+  if (!track || !(await track.canDecode())) {
+    throw new Error('เบราว์เซอร์นี้ไม่สามารถถอดรหัสวิดีโอต้นฉบับได้');
+  }
+
+  // H.264 ต้องการความกว้าง/สูงเป็นเลขคู่
+  const width = Math.floor(track.displayWidth / 2) * 2;
+  const height = Math.floor(track.displayHeight / 2) * 2;
+  if (!(await canEncodeVideo('avc', { width, height }))) {
+    throw new Error('เบราว์เซอร์นี้ไม่รองรับการเข้ารหัส H.264');
+  }
+  if (!(await canEncodeAudio('aac', { numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate }))) {
+    throw new Error('เบราว์เซอร์นี้ไม่รองรับการเข้ารหัส AAC');
+  }
+
+  const videoDuration = await track.computeDuration();
+  const totalDuration = Math.max(videoDuration, audio.duration);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+
+  const output = new Output({
+    format: new Mp4OutputFormat({ fastStart: 'in-memory' }),
+    target: new BufferTarget()
+  });
+  const videoSource = new CanvasSource(canvas, { codec: 'avc', quality: QUALITY_HIGH });
+  const audioSource = new AudioBufferSource({ codec: 'aac', quality: QUALITY_HIGH });
+  output.addVideoTrack(videoSource);
+  output.addAudioTrack(audioSource);
+
+  try {
+    await output.start();
+    await audioSource.add(audio);
+    audioSource.close();
+
+    const sink = new CanvasSink(track, { width, height, fit: 'fill', poolSize: 2 });
+    let lastTime = 0;
+
+    for await (const frame of sink.canvases()) {
+      throwIfAborted(signal);
+      ctx.drawImage(frame.canvas, 0, 0, width, height);
+      drawOverlay?.(ctx, frame.timestamp, width, height);
+      await videoSource.add(frame.timestamp, frame.duration);
+      lastTime = frame.timestamp + frame.duration;
+      onProgress?.(Math.min(0.99, lastTime / totalDuration));
+    }
+
+    // เสียงพากย์ยาวเกินวิดีโอ: ค้างภาพสุดท้ายไว้จนเสียงจบ (ภาพล่าสุดยังอยู่บน canvas)
+    const frameDuration = 1 / HOLD_FRAME_RATE;
+    while (lastTime < totalDuration) {
+      throwIfAborted(signal);
+      if (drawOverlay) {
+        const last = await sink.getCanvas(videoDuration);
+        if (last) ctx.drawImage(last.canvas, 0, 0, width, height);
+        drawOverlay(ctx, lastTime, width, height);
+      }
+      await videoSource.add(lastTime, frameDuration);
+      lastTime += frameDuration;
+      onProgress?.(Math.min(0.99, lastTime / totalDuration));
+    }
+
+    videoSource.close();
+    await output.finalize();
+  } catch (e) {
+    if (output.state !== 'finalized' && output.state !== 'canceled') await output.cancel();
+    throw e;
+  } finally {
+    input.dispose();
+  }
+
+  onProgress?.(1);
+  return new Blob([(output.target as BufferTarget).buffer!], { type: 'video/mp4' });
+};
@@ -0,0 +1,99 @@
+import { Gender, TranslationSegment } from "../types";
+
+export const createSegmentId = () =>
+  `seg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toSeconds = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+const toText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+export interface ParsedTranslation {
+  segments: TranslationSegment[];
+  speakerGenders: Record<string, Gender>;
+}
+
+// ตรวจสอบผลลัพธ์ JSON จากโมเดล ก่อนนำไปใช้ต่อ (โมเดลอาจส่งเวลาซ้อนกัน/เกินความยาววิดีโอมาได้)
+// allowEmpty ใช้กับการแปลทีละช่วงของวิดีโอยาว ซึ่งบางช่วงอาจไม่มีคนพูดเลย
+export const parseTranslationResponse = (raw: string, duration?: number, allowEmpty = false): ParsedTranslation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('ผลลัพธ์การแปลไม่อยู่ในรูปแบบ JSON ที่ถูกต้อง');
+  }
+
+  const items = Array.isArray(data) ? data : (data as any)?.segments;
+  if (!Array.isArray(items)) {
+    throw new Error('ผลลัพธ์การแปลไม่มีรายการช่วงเวลา (segments)');
+  }
+
+  const maxTime = duration && duration > 0 ? duration : Infinity;
+
+  const segments = items
+    .map((item: any): TranslationSegment | null => {
+      const start = toSeconds(item?.start);
+      const end = toSeconds(item?.end);
+      const targetText = toText(item?.targetText);
+      if (start === null || end === null || !targetText) return null;
+
+      const clampedStart = Math.min(Math.max(0, start), maxTime);
+      const clampedEnd = Math.min(Math.max(clampedStart, end), maxTime);
+
+      return {
+        id: createSegmentId(),
+        start: clampedStart,
+        end: clampedEnd,
+        speaker: toText(item?.speaker) || 'Speaker 1',
+        originalText: toText(item?.originalText),
+        targetText
+      };
+    })
+    .filter((segment): segment is TranslationSegment => segment !== null)
+    .sort((a, b) => a.start - b.start);
+
+  if (segments.length === 0 && !allowEmpty) {
+    throw new Error('ไม่พบข้อความที่แปลได้ในวิดีโอนี้');
+  }
+
+  const speakerGenders: Record<string, Gender> = {};
+  const speakerItems = Array.isArray((data as any)?.speakers) ? (data as any).speakers : [];
+  for (const item of speakerItems) {
+    const id = toText(item?.id);
+    if (id && (item?.gender === 'male' || item?.gender === 'female')) {
+      speakerGenders[id] = item.gender;
+    }
+  }
+
+  return { segments, speakerGenders };
+};
+
+export const segmentsToText = (segments: TranslationSegment[]): string =>
+  segments.map(s => s.targetText.trim()).filter(Boolean).join(' ');
+
+export const segmentsToOriginalText = (segments: TranslationSegment[]): string =>
+  segments.map(s => s.originalText.trim()).filter(Boolean).join(' ');
+
+// ใช้เมื่อ Hook เขียนข้อความใหม่ทั้งก้อน ทำให้ไม่มีเวลาแยกรายประโยคอีกต่อไป
+export const collapseSegments = (
+  segments: TranslationSegment[],
+  targetText: string,
+  duration: number
+): TranslationSegment[] => [{
+  id: createSegmentId(),
+  start: 0,
+  end: duration || segments[segments.length - 1]?.end || 0,
+  speaker: segments[0]?.speaker || 'Speaker 1',
+  originalText: segmentsToOriginalText(segments),
+  targetText
+}];
+
+export const formatTimestamp = (seconds: number): string => {
+  const safe = Math.max(0, seconds);
+  const m = Math.floor(safe / 60);
+  const s = safe - m * 60;
+  return `${m.toString().padStart(2, '0')}:${s.toFixed(1).padStart(4, '0')}`;
+};
@@ -0,0 +1,36 @@
+import { Gender, ModelSettings, SpeakerProfile, TranslationSegment, VoiceSettings } from "../types";
+import { getLanguageProfile } from "./languageProfiles";
+import { getVoicesByGender } from "./voiceCatalog";
+import { resolveDefaultVoice } from "./modelSettingsService";
+
+// เลือกเสียงที่ยังไม่ถูกใช้ โดยให้ผู้พูดคนแรกของแต่ละเพศได้เสียงหลักของภาษานั้นก่อน
+const pickVoice = (gender: Gender, preferred: string, taken: Set<string>): string => {
+  if (!taken.has(preferred)) return preferred;
+  const free = getVoicesByGender(gender).find(v => !taken.has(v.name));
+  return free?.name || preferred;
+};
+
+export const buildSpeakerProfiles = (
+  segments: TranslationSegment[],
+  settings: VoiceSettings,
+  models: ModelSettings,
+  speakerGenders: Record<string, Gender> = {},
+  existing: SpeakerProfile[] = []
+): SpeakerProfile[] => {
+  const profile = getLanguageProfile(settings.targetLanguage);
+  const ids = Array.from(new Set(segments.map(s => s.speaker)));
+  const taken = new Set(existing.filter(s => ids.includes(s.id)).map(s => s.voiceName));
+
+  return ids.map(id => {
+    const current = existing.find(s => s.id === id);
+    if (current) return current;
+
+    const gender = speakerGenders[id] || settings.gender;
+    const voiceName = pickVoice(gender, resolveDefaultVoice(profile, gender, models), taken);
+    taken.add(voiceName);
+    return { id, name: id, gender, mood: settings.mood, voiceName };
+  });
+};
+
+export const findSpeaker = (speakers: SpeakerProfile[], id: string): SpeakerProfile | undefined =>
+  speakers.find(s => s.id === id);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { TranslationSegment } from "../types";
+import { formatSubtitleTime, parseSubtitles, parseSubtitleTime, serializeSubtitles, SubtitleFormat } from "./subtitleService";
+
+const segment = (start: number, end: number, targetText: string, originalText = '', speaker = 'Speaker 1'): TranslationSegment => ({
+  id: `seg-${start}`,
+  start,
+  end,
+  speaker,
+  originalText,
+  targetText
+});
+
+const SEGMENTS = [
+  segment(0, 2.5, 'สวัสดีครับ', 'Hello'),
+  segment(2.5, 61.04, 'วันนี้เรามาดูกัน', 'Today we look at it', 'Host'),
+  segment(3725.3, 3727, 'ราคา 5 < 10 & ลด --> 20%', 'Price 5 < 10 & down --> 20%')
+];
+
+const roundTrip = (format: SubtitleFormat, includeOriginal: boolean) =>
+  parseSubtitles(serializeSubtitles(SEGMENTS, format, { includeOriginal }));
+
+describe('subtitle time', () => {
+  it('formats and parses both separators', () => {
+    expect(formatSubtitleTime(3725.3, 'srt')).toBe('01:02:05,300');
+    expect(formatSubtitleTime(3725.3, 'vtt')).toBe('01:02:05.300');
+    expect(parseSubtitleTime('01:02:05,300')).toBeCloseTo(3725.3);
+    expect(parseSubtitleTime('02:05.3')).toBeCloseTo(125.3);
+    expect(parseSubtitleTime('abc')).toBeNull();
+  });
+});
+
+describe.each<SubtitleFormat>(['srt', 'vtt'])('%s round trip', format => {
+  it('keeps timing and translated text', () => {
+    const parsed = roundTrip(format, false);
+    expect(parsed.map(s => s.targetText)).toEqual(SEGMENTS.map(s => s.targetText));
+    parsed.forEach((s, i) => {
+      expect(s.start).toBeCloseTo(SEGMENTS[i].start, 3);
+      expect(s.end).toBeCloseTo(SEGMENTS[i].end, 3);
+      expect(s.originalText).toBe('');
+    });
+  });
+
+  it('splits the original line back out of the translation', () => {
+    const parsed = roundTrip(format, true);
+    expect(parsed.map(s => s.targetText)).toEqual(SEGMENTS.map(s => s.targetText));
+    expect(parsed.map(s => s.originalText)).toEqual(SEGMENTS.map(s => s.originalText));
+  });
+
+  it('joins line breaks inside a text so the cue stays intact', () => {
+    const parsed = parseSubtitles(serializeSubtitles([segment(0, 1, 'บรรทัดแรก\n\nบรรทัดสอง')], format));
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].targetText).toBe('บรรทัดแรก บรรทัดสอง');
+  });
+});
+
+describe('vtt', () => {
+  it('escapes markup characters in cue text', () => {
+    const vtt = serializeSubtitles(SEGMENTS, 'vtt');
+    expect(vtt).toContain('ราคา 5 &lt; 10 &amp; ลด --&gt; 20%');
+    const cueTextLines = vtt.split('\n').filter(line => line && !/^\d\d:/.test(line) && line !== 'WEBVTT');
+    cueTextLines.forEach(line => expect(line.replace(/^<v [^>]+>/, '')).not.toMatch(/<|-->/));
+  });
+
+  it('keeps speakers from voice tags', () => {
+    expect(roundTrip('vtt', false).map(s => s.speaker)).toEqual(['Speaker 1', 'Host', 'Speaker 1']);
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('keeps multi-line cues from other tools as one translation', () => {
+    const parsed = parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\nบรรทัดหนึ่ง\nบรรทัดสอง\n');
+    expect(parsed[0].targetText).toBe('บรรทัดหนึ่ง บรรทัดสอง');
+    expect(parsed[0].originalText).toBe('');
+  });
+
+  it('keeps fully italic cues as translation', () => {
+    expect(parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\n<i>เสียงบรรยาย</i>\n')[0].targetText).toBe('เสียงบรรยาย');
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here\n')).toThrow();
+  });
+});
@@ -0,0 +1,156 @@
+import { TranslationSegment } from "../types";
+import { createSegmentId } from "./segmentService";
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleExportOptions {
+  includeOriginal?: boolean;
+}
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+export const formatSubtitleTime = (seconds: number, format: SubtitleFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+// รองรับทั้ง 00:01:02,500 / 00:01:02.500 / 01:02.500 (VTT อนุญาตให้ไม่มีชั่วโมง)
+export const parseSubtitleTime = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return (parseInt(h || '0') * 3600)
+    + (parseInt(m) * 60)
+    + parseInt(s)
+    + (ms ? parseInt(ms.padEnd(3, '0')) / 1000 : 0);
+};
+
+// บรรทัดต้นฉบับที่ส่งออกพร้อมคำแปลถูกครอบด้วยแท็กนี้ ตอนนำเข้าจึงแยกกลับเป็น originalText ได้
+// (SRT ไม่มี class จึงใช้ตัวเอียง ซึ่งเป็นวิธีที่ซับสองภาษาทั่วไปใช้)
+const ORIGINAL_TAGS: Record<SubtitleFormat, [string, string]> = {
+  srt: ['<i>', '</i>'],
+  vtt: ['<c.original>', '</c>']
+};
+
+// บรรทัดว่างในข้อความจะทำให้ cue ขาด จึงรวมเป็นบรรทัดเดียว
+const singleLine = (text: string) => text.trim().replace(/\s*\n\s*/g, ' ');
+
+// ข้อความใน WebVTT ห้ามมี < & และ --> ตรงๆ
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const unescapeVtt = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lrm;|&rlm;/g, '')
+  .replace(/&amp;/g, '&');
+
+const cueLines = (segment: TranslationSegment, format: SubtitleFormat, options: SubtitleExportOptions): string[] => {
+  const escape = format === 'vtt' ? escapeVtt : (text: string) => text;
+  const lines = [escape(singleLine(segment.targetText))];
+  if (options.includeOriginal && segment.originalText.trim()) {
+    const [open, close] = ORIGINAL_TAGS[format];
+    lines.push(`${open}${escape(singleLine(segment.originalText))}${close}`);
+  }
+  return lines;
+};
+
+export const serializeSrt = (segments: TranslationSegment[], options: SubtitleExportOptions = {}): string =>
+  segments
+    .filter(s => s.targetText.trim())
+    .map((segment, index) => [
+      `${index + 1}`,
+      `${formatSubtitleTime(segment.start, 'srt')} --> ${formatSubtitleTime(segment.end, 'srt')}`,
+      ...cueLines(segment, 'srt', options)
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const serializeVtt = (segments: TranslationSegment[], options: SubtitleExportOptions = {}): string => {
+  const cues = segments
+    .filter(s => s.targetText.trim())
+    .map(segment => {
+      const [translated, ...rest] = cueLines(segment, 'vtt', options);
+      const speaker = segment.speaker ? `<v ${escapeVtt(singleLine(segment.speaker))}>` : '';
+      return [
+        `${formatSubtitleTime(segment.start, 'vtt')} --> ${formatSubtitleTime(segment.end, 'vtt')}`,
+        `${speaker}${translated}`,
+        ...rest
+      ].join('\n');
+    });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const serializeSubtitles = (
+  segments: TranslationSegment[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions = {}
+): string => format === 'srt' ? serializeSrt(segments, options) : serializeVtt(segments, options);
+
+const TIMING_LINE = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+// SRT ไม่มีการ escape จึงลบเฉพาะแท็กจัดรูปแบบที่รู้จัก ไม่ให้ข้อความอย่าง "5 < 10" หายไป
+const stripTags = (text: string, format: SubtitleFormat) => {
+  const plain = text
+    .replace(format === 'vtt' ? /<[^>]+>/g : /<\/?(?:i|b|u|font)\b[^>]*>/gi, '')
+    .replace(/\{\\[^}]*\}/g, '');
+  return (format === 'vtt' ? unescapeVtt(plain) : plain).replace(/\s+/g, ' ').trim();
+};
+
+// แปลงไฟล์ SRT หรือ WebVTT เป็น segments (ข้อความในซับถือว่าเป็นคำแปลไทยที่เชื่อถือได้แล้ว)
+// บรรทัดต้นฉบับที่ส่งออกไว้ด้วย includeOriginal ถูกแยกไปเป็น originalText
+export const parseSubtitles = (content: string): TranslationSegment[] => {
+  const normalized = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n');
+  const format: SubtitleFormat = /^WEBVTT/.test(normalized) ? 'vtt' : 'srt';
+  const [originalOpen, originalClose] = ORIGINAL_TAGS[format];
+  const blocks = normalized.split(/\n{2,}/);
+
+  const segments: TranslationSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE หรือบล็อกที่เสีย
+
+    const [, startRaw, endRaw] = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseSubtitleTime(startRaw);
+    const end = parseSubtitleTime(endRaw);
+    if (start === null || end === null) continue;
+
+    const textLines = lines.slice(timingIndex + 1);
+    let speaker = 'Speaker 1';
+    const voiceMatch = textLines[0]?.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    if (voiceMatch) speaker = format === 'vtt' ? unescapeVtt(voiceMatch[1].trim()) : voiceMatch[1].trim();
+
+    let originalText = '';
+    const last = textLines[textLines.length - 1]?.trim();
+    if (textLines.length > 1 && last.startsWith(originalOpen) && last.endsWith(originalClose)) {
+      originalText = stripTags(last, format);
+      textLines.pop();
+    }
+
+    const targetText = stripTags(textLines.join(' '), format);
+    if (!targetText) continue;
+
+    segments.push({
+      id: createSegmentId(),
+      start,
+      end: Math.max(start, end),
+      speaker,
+      originalText,
+      targetText
+    });
+  }
+
+  if (segments.length === 0) {
+    throw new Error('ไม่พบคำบรรยายในไฟล์ (รองรับเฉพาะ SRT และ WebVTT)');
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+};
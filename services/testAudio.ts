@@ -0,0 +1,49 @@
+// AudioBuffer/AudioContext ไม่มีใน Node เทสต์ของบริการเสียงใช้ตัวจำลองนี้ เท่าที่บริการเรียกใช้จริง
+
+class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(public numberOfChannels: number, public length: number, public sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset = 0) {
+    this.channels[channel].set(source, offset);
+  }
+}
+
+export const fakeAudioContext = {
+  createBuffer: (channels: number, length: number, sampleRate: number) => new FakeAudioBuffer(channels, length, sampleRate)
+} as unknown as BaseAudioContext;
+
+// คลื่น sine (ความยาวเป็นวินาที) ใช้แทนเสียงพูดที่มีระดับเสียงคงที่
+export const sine = (seconds: number, sampleRate: number, frequency = 440, amplitude = 0.5, channels = 1) => {
+  const buffer = fakeAudioContext.createBuffer(channels, Math.round(seconds * sampleRate), sampleRate);
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return buffer;
+};
+
+// ต่อช่วงเสียงและช่วงเงียบตามลำดับ: ค่าบวก = เสียงพูด (วินาที), ค่าลบ = ความเงียบ (วินาที)
+export const speechPattern = (parts: number[], sampleRate = 8000) => {
+  const total = parts.reduce((sum, part) => sum + Math.abs(part), 0);
+  const buffer = fakeAudioContext.createBuffer(1, Math.round(total * sampleRate), sampleRate);
+  const data = buffer.getChannelData(0);
+  let offset = 0;
+  for (const part of parts) {
+    const length = Math.round(Math.abs(part) * sampleRate);
+    if (part > 0) for (let i = 0; i < length; i++) data[offset + i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / sampleRate);
+    offset += length;
+  }
+  return buffer;
+};
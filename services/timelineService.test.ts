@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { TranslationSegment, WordTiming } from "../types";
+import { fakeAudioContext } from "./testAudio";
+import { computePeaks, mergeWithNext, MIN_SEGMENT_SECONDS, moveSegment, PEAKS_PER_SECOND, splitSegment, trimSegment } from "./timelineService";
+
+const segment = (id: string, start: number, end: number, targetText = 'หนึ่ง สอง', originalText = 'one two'): TranslationSegment => ({
+  id, start, end, speaker: 'Speaker 1', originalText, targetText
+});
+
+const SEGMENTS = [segment('a', 0, 2), segment('b', 3, 5), segment('c', 6, 8)];
+const byId = (segments: TranslationSegment[], id: string) => segments.find(s => s.id === id)!;
+
+describe('moveSegment', () => {
+  it('moves a segment and keeps its length', () => {
+    const moved = byId(moveSegment(SEGMENTS, 'b', 3.5, 10), 'b');
+    expect(moved).toMatchObject({ start: 3.5, end: 5.5 });
+  });
+
+  it('stops at the neighbouring segments', () => {
+    expect(byId(moveSegment(SEGMENTS, 'b', 1, 10), 'b')).toMatchObject({ start: 2, end: 4 });
+    expect(byId(moveSegment(SEGMENTS, 'b', 5.5, 10), 'b')).toMatchObject({ start: 4, end: 6 });
+  });
+
+  it('stops at the start and end of the video', () => {
+    expect(byId(moveSegment(SEGMENTS, 'a', -1, 10), 'a').start).toBe(0);
+    expect(byId(moveSegment(SEGMENTS, 'c', 9, 10), 'c')).toMatchObject({ start: 8, end: 10 });
+  });
+});
+
+describe('trimSegment', () => {
+  it('moves one edge up to the neighbour', () => {
+    expect(byId(trimSegment(SEGMENTS, 'b', 'start', 1, 10), 'b')).toMatchObject({ start: 2, end: 5 });
+    expect(byId(trimSegment(SEGMENTS, 'b', 'end', 7, 10), 'b')).toMatchObject({ start: 3, end: 6 });
+  });
+
+  it('keeps the minimum segment length', () => {
+    expect(byId(trimSegment(SEGMENTS, 'b', 'start', 5, 10), 'b').start).toBeCloseTo(5 - MIN_SEGMENT_SECONDS);
+    expect(byId(trimSegment(SEGMENTS, 'b', 'end', 3, 10), 'b').end).toBeCloseTo(3 + MIN_SEGMENT_SECONDS);
+  });
+});
+
+describe('splitSegment', () => {
+  it('splits the text in proportion to the time without word timings', () => {
+    const result = splitSegment([segment('a', 0, 4, 'one two three four', 'uno dos tres cuatro')], 'a', 2)!;
+    expect(result.first).toMatchObject({ id: 'a', start: 0, end: 2, targetText: 'one two' });
+    expect(result.second).toMatchObject({ start: 2, end: 4, targetText: 'three four' });
+    expect(result.second.id).not.toBe('a');
+    expect(result.segments).toHaveLength(2);
+    expect(result.audioCut).toBeNull();
+  });
+
+  it('splits at the word being spoken and cuts the audio in the gap before it', () => {
+    const words: WordTiming[] = [
+      { text: 'one', start: 0.1, end: 0.5 }, { text: ' ', start: 0.5, end: 0.5 },
+      { text: 'two', start: 0.7, end: 1.1 }, { text: ' ', start: 1.1, end: 1.1 },
+      { text: 'three', start: 1.5, end: 2 }
+    ];
+    const result = splitSegment([segment('a', 10, 13, 'one two three')], 'a', 11.3, { offset: 10, words })!;
+    expect(result.first.targetText).toBe('one two');
+    expect(result.second.targetText).toBe('three');
+    expect(result.audioCut).toBeCloseTo((1.1 + 1.5) / 2);
+  });
+
+  it('refuses to leave a part shorter than the minimum', () => {
+    expect(splitSegment(SEGMENTS, 'a', 0.1)).toBeNull();
+    expect(splitSegment(SEGMENTS, 'a', 1.9)).toBeNull();
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins a segment with the next one in time', () => {
+    const result = mergeWithNext([segment('b', 3, 5, 'สาม'), segment('a', 0, 2, 'หนึ่ง')], 'a')!;
+    expect(result.removedId).toBe('b');
+    expect(result.merged).toMatchObject({ id: 'a', start: 0, end: 5, targetText: 'หนึ่ง สาม' });
+    expect(result.segments.map(s => s.id)).toEqual(['a']);
+  });
+
+  it('has nothing to merge after the last segment', () => {
+    expect(mergeWithNext(SEGMENTS, 'c')).toBeNull();
+  });
+});
+
+describe('computePeaks', () => {
+  it('keeps the loudest sample of each bucket across channels', () => {
+    const buffer = fakeAudioContext.createBuffer(2, 8000, 8000);
+    buffer.getChannelData(0)[10] = 0.4;
+    buffer.getChannelData(1)[20] = -0.9;
+    const peaks = computePeaks(buffer);
+    expect(peaks).toHaveLength(PEAKS_PER_SECOND);
+    expect(peaks[0]).toBeCloseTo(0.9);
+    expect(peaks[1]).toBe(0);
+  });
+});
@@ -0,0 +1,172 @@
+import { TranslationSegment, WordTiming } from "../types";
+import { createSegmentId } from "./segmentService";
+import { splitWords } from "./captionService";
+
+// การแก้เวลาของประโยคบนไทม์ไลน์ (ลาก ตัดขอบ แยก รวม) ทำกับ segments ล้วนๆ
+// ส่วนเสียงพากย์ของแต่ละประโยคจัดการใน audioService เพื่อไม่ต้องสร้างเสียงใหม่ทั้งแทร็ก
+
+export const MIN_SEGMENT_SECONDS = 0.3;
+// ความละเอียดของรูปคลื่นที่เก็บไว้วาด (ค่าต่อวินาที)
+export const PEAKS_PER_SECOND = 100;
+// canvas กว้างเกินนี้เบราว์เซอร์บางตัววาดไม่ได้ วิดีโอยาวจึงซูมได้น้อยลง
+export const MAX_TIMELINE_PIXELS = 16000;
+
+// ค่าสูงสุดของแต่ละช่วงเวลา (รวมทุกช่อง) ใช้วาดรูปคลื่นได้ทุกระดับซูมโดยไม่ต้องอ่านเสียงใหม่
+export const computePeaks = (buffer: AudioBuffer): Float32Array => {
+  const size = Math.max(1, Math.floor(buffer.sampleRate / PEAKS_PER_SECOND));
+  const peaks = new Float32Array(Math.ceil(buffer.length / size));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      const bucket = Math.floor(i / size);
+      if (value > peaks[bucket]) peaks[bucket] = value;
+    }
+  }
+  return peaks;
+};
+
+export const drawWaveform = (
+  canvas: HTMLCanvasElement,
+  peaks: Float32Array | null,
+  pixelsPerSecond: number,
+  width: number,
+  color: string
+) => {
+  const height = canvas.clientHeight || 40;
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, height);
+  if (!peaks) return;
+
+  const perPixel = PEAKS_PER_SECOND / pixelsPerSecond;
+  ctx.fillStyle = color;
+  for (let x = 0; x < canvas.width; x++) {
+    const from = Math.floor(x * perPixel);
+    const to = Math.min(peaks.length, Math.max(from + 1, Math.floor((x + 1) * perPixel)));
+    let peak = 0;
+    for (let i = from; i < to; i++) peak = Math.max(peak, peaks[i]);
+    const bar = Math.max(1, Math.min(1, peak) * height);
+    ctx.fillRect(x, (height - bar) / 2, 1, bar);
+  }
+};
+
+const sortByStart = (segments: TranslationSegment[]) => [...segments].sort((a, b) => a.start - b.start);
+
+// ขอบที่ประโยคขยับได้โดยไม่ทับประโยคข้างเคียง
+const neighbourBounds = (segments: TranslationSegment[], id: string, duration: number) => {
+  const ordered = sortByStart(segments);
+  const index = ordered.findIndex(s => s.id === id);
+  return {
+    segment: ordered[index],
+    min: index > 0 ? ordered[index - 1].end : 0,
+    max: index < ordered.length - 1 ? ordered[index + 1].start : Math.max(duration, ordered[index]?.end ?? 0)
+  };
+};
+
+export const moveSegment = (segments: TranslationSegment[], id: string, start: number, duration: number): TranslationSegment[] => {
+  const { segment, min, max } = neighbourBounds(segments, id, duration);
+  if (!segment) return segments;
+  const length = segment.end - segment.start;
+  const clamped = Math.min(Math.max(min, start), Math.max(min, max - length));
+  return segments.map(s => s.id === id ? { ...s, start: clamped, end: clamped + length } : s);
+};
+
+export const trimSegment = (
+  segments: TranslationSegment[],
+  id: string,
+  edge: 'start' | 'end',
+  time: number,
+  duration: number
+): TranslationSegment[] => {
+  const { segment, min, max } = neighbourBounds(segments, id, duration);
+  if (!segment) return segments;
+  const patch = edge === 'start'
+    ? { start: Math.min(Math.max(min, time), segment.end - MIN_SEGMENT_SECONDS) }
+    : { end: Math.max(Math.min(max, time), segment.start + MIN_SEGMENT_SECONDS) };
+  return segments.map(s => s.id === id ? { ...s, ...patch } : s);
+};
+
+// ตำแหน่งตัดข้อความที่ขอบคำ ใกล้สัดส่วนที่ต้องการที่สุด
+const splitTextAt = (text: string, ratio: number): [string, string] => {
+  const words = splitWords(text);
+  const target = text.length * ratio;
+  let position = 0;
+  let best = 0;
+  for (const word of words) {
+    position += word.length;
+    if (Math.abs(position - target) < Math.abs(best - target)) best = position;
+  }
+  return [text.slice(0, best).trim(), text.slice(best).trim()];
+};
+
+export interface SplitResult {
+  segments: TranslationSegment[];
+  first: TranslationSegment;
+  second: TranslationSegment;
+  // ตำแหน่งตัดในเสียงพากย์ของประโยคเดิม (วินาทีนับจากต้นคลิป) ถ้ามีเวลาของคำ
+  audioCut: number | null;
+}
+
+// แยกประโยคที่เวลา time (บนไทม์ไลน์) ถ้ามีเวลาของคำจากเสียงพากย์ ตัดข้อความตรงคำที่พูดอยู่ ณ จุดนั้น
+// ไม่เช่นนั้นตัดตามสัดส่วนของเวลา
+export const splitSegment = (
+  segments: TranslationSegment[],
+  id: string,
+  time: number,
+  timing?: { offset: number; words: WordTiming[] }
+): SplitResult | null => {
+  const segment = segments.find(s => s.id === id);
+  if (!segment || time - segment.start < MIN_SEGMENT_SECONDS || segment.end - time < MIN_SEGMENT_SECONDS) return null;
+
+  const ratio = (time - segment.start) / (segment.end - segment.start);
+  let target = splitTextAt(segment.targetText, ratio);
+  let audioCut: number | null = null;
+
+  if (timing) {
+    const local = time - timing.offset;
+    const index = timing.words.findIndex(w => /[\p{L}\p{N}]/u.test(w.text) && w.start >= local);
+    if (index > 0) {
+      target = [timing.words.slice(0, index).map(w => w.text).join('').trim(), timing.words.slice(index).map(w => w.text).join('').trim()];
+      // ตัดในช่วงเงียบระหว่างคำ ไม่ใช่กลางคำ
+      audioCut = (timing.words[index - 1].end + timing.words[index].start) / 2;
+    }
+  }
+
+  const original = splitTextAt(segment.originalText, target[0].length / Math.max(1, segment.targetText.trim().length));
+  const first: TranslationSegment = { ...segment, end: time, originalText: original[0], targetText: target[0], spokenText: undefined };
+  const second: TranslationSegment = { ...segment, id: createSegmentId(), start: time, originalText: original[1], targetText: target[1], spokenText: undefined };
+  return {
+    segments: segments.flatMap(s => s.id === id ? [first, second] : [s]),
+    first,
+    second,
+    audioCut
+  };
+};
+
+// รวมประโยคกับประโยคถัดไปตามเวลา (ใช้ผู้พูดของประโยคแรก)
+export const mergeWithNext = (
+  segments: TranslationSegment[],
+  id: string
+): { segments: TranslationSegment[]; merged: TranslationSegment; removedId: string } | null => {
+  const ordered = sortByStart(segments);
+  const index = ordered.findIndex(s => s.id === id);
+  const next = ordered[index + 1];
+  if (index < 0 || !next) return null;
+  const current = ordered[index];
+  const join = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join(' ');
+  const merged: TranslationSegment = {
+    ...current,
+    end: Math.max(current.end, next.end),
+    originalText: join(current.originalText, next.originalText),
+    targetText: join(current.targetText, next.targetText),
+    spokenText: undefined
+  };
+  return {
+    segments: segments.filter(s => s.id !== next.id).map(s => s.id === id ? merged : s),
+    merged,
+    removedId: next.id
+  };
+};
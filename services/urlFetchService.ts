@@ -0,0 +1,84 @@
+import { FILES_API_MAX_BYTES } from "./fileUploadService";
+import { loadProviderConfig } from "./aiProviderService";
+
+export interface FetchedVideo {
+  blob: Blob;
+  mimeType: string;
+  name: string;
+  // ความยาวที่เซิร์ฟเวอร์รู้ก่อนดาวน์โหลด (null = ไม่ทราบ)
+  duration: number | null;
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// ไบต์ที่ได้รับแล้ว และขนาดทั้งหมด (null = เซิร์ฟเวอร์ไม่ทราบขนาดล่วงหน้า)
+export type FetchProgress = (received: number, total: number | null) => void;
+
+// ดึงวิดีโอผ่านเซิร์ฟเวอร์ของเราเอง (server/) ซึ่งแปลงลิงก์ด้วยตัวแปลงที่ตั้งค่าไว้ (ลิงก์ไฟล์ตรง, yt-dlp, Cobalt)
+// ตรวจขนาด/ความยาวก่อนดาวน์โหลด แล้วส่งไฟล์กลับมาแบบสตรีม ลิงก์ของผู้ใช้จึงไม่ถูกส่งไปบริการภายนอกจากเบราว์เซอร์
+export const fetchVideoFromUrl = async (url: string, signal?: AbortSignal, onProgress?: FetchProgress): Promise<FetchedVideo> => {
+  try {
+    new URL(url);
+  } catch {
+    throw new Error("ลิงก์ไม่ถูกต้อง กรุณาใส่ลิงก์แบบเต็ม (ขึ้นต้นด้วย https://)");
+  }
+
+  const { proxy } = loadProviderConfig();
+  let response: Response;
+  try {
+    response = await fetch(`${proxy.url.replace(/\/+$/, '')}/media/fetch`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(proxy.token ? { 'Authorization': `Bearer ${proxy.token}` } : {})
+      },
+      body: JSON.stringify({ url })
+    });
+  } catch (e: any) {
+    if (e.name === 'AbortError') throw e;
+    throw new Error("เชื่อมต่อบริการดึงวิดีโอไม่ได้ (ต้องเปิดเซิร์ฟเวอร์ด้วย npm run server)");
+  }
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `ไม่สามารถดาวน์โหลดวิดีโอจากลิงก์นี้ได้ (${response.status})`);
+  }
+
+  const total = Number(response.headers.get('Content-Length') || response.headers.get('X-Media-Size') || 0) || null;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let reportedAt = 0;
+  onProgress?.(0, total);
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    // ตรวจสอบขนาดไฟล์ (Files API ของ Gemini รับได้สูงสุด 2GB)
+    if (received > FILES_API_MAX_BYTES) {
+      await reader.cancel();
+      throw new Error("วิดีโอจากลิงก์มีขนาดใหญ่เกินไป (จำกัด 2GB)");
+    }
+    // อัปเดตไม่บ่อยเกินไป ไฟล์ใหญ่มีหลายหมื่น chunk
+    if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      reportedAt = Date.now();
+      onProgress?.(received, total);
+    }
+  }
+
+  if (total !== null && received < total) {
+    throw new Error("การดาวน์โหลดถูกตัดกลางทาง กรุณาลองใหม่");
+  }
+
+  const mimeType = response.headers.get('Content-Type') || "video/mp4";
+  const duration = Number(response.headers.get('X-Media-Duration'));
+  return {
+    blob: new Blob(chunks as BlobPart[], { type: mimeType }),
+    mimeType,
+    name: decodeURIComponent(response.headers.get('X-Media-Name') || '') || `URL: ${new URL(url).hostname}`,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : null
+  };
+};
@@ -0,0 +1,47 @@
+import { Gender } from "../types";
+
+export interface PrebuiltVoice {
+  name: string;
+  gender: Gender;
+  style: string;
+}
+
+// รายชื่อเสียงสำเร็จรูปของ Gemini TTS (เพศเป็นการจัดกลุ่มโดยประมาณเพื่อใช้เลือกเสียงอัตโนมัติ)
+export const PREBUILT_VOICES: PrebuiltVoice[] = [
+  { name: 'Puck', gender: 'male', style: 'Upbeat' },
+  { name: 'Charon', gender: 'male', style: 'Informative' },
+  { name: 'Fenrir', gender: 'male', style: 'Excitable' },
+  { name: 'Orus', gender: 'male', style: 'Firm' },
+  { name: 'Enceladus', gender: 'male', style: 'Breathy' },
+  { name: 'Iapetus', gender: 'male', style: 'Clear' },
+  { name: 'Umbriel', gender: 'male', style: 'Easy-going' },
+  { name: 'Algieba', gender: 'male', style: 'Smooth' },
+  { name: 'Algenib', gender: 'male', style: 'Gravelly' },
+  { name: 'Rasalgethi', gender: 'male', style: 'Informative' },
+  { name: 'Alnilam', gender: 'male', style: 'Firm' },
+  { name: 'Schedar', gender: 'male', style: 'Even' },
+  { name: 'Achird', gender: 'male', style: 'Friendly' },
+  { name: 'Zubenelgenubi', gender: 'male', style: 'Casual' },
+  { name: 'Sadachbia', gender: 'male', style: 'Lively' },
+  { name: 'Sadaltager', gender: 'male', style: 'Knowledgeable' },
+  { name: 'Kore', gender: 'female', style: 'Firm' },
+  { name: 'Zephyr', gender: 'female', style: 'Bright' },
+  { name: 'Aoede', gender: 'female', style: 'Breezy' },
+  { name: 'Leda', gender: 'female', style: 'Youthful' },
+  { name: 'Callirrhoe', gender: 'female', style: 'Easy-going' },
+  { name: 'Autonoe', gender: 'female', style: 'Bright' },
+  { name: 'Despina', gender: 'female', style: 'Smooth' },
+  { name: 'Erinome', gender: 'female', style: 'Clear' },
+  { name: 'Laomedeia', gender: 'female', style: 'Upbeat' },
+  { name: 'Achernar', gender: 'female', style: 'Soft' },
+  { name: 'Gacrux', gender: 'female', style: 'Mature' },
+  { name: 'Pulcherrima', gender: 'female', style: 'Forward' },
+  { name: 'Vindemiatrix', gender: 'female', style: 'Gentle' },
+  { name: 'Sulafat', gender: 'female', style: 'Warm' }
+];
+
+export const getVoicesByGender = (gender: Gender): PrebuiltVoice[] =>
+  PREBUILT_VOICES.filter(v => v.gender === gender);
+
+export const isPrebuiltVoice = (name: string): boolean =>
+  PREBUILT_VOICES.some(v => v.name === name);
@@ -0,0 +1,273 @@
+import { Gender, TranslationSegment, VoiceReference } from "../types";
+import { PREBUILT_VOICES, PrebuiltVoice } from "./voiceCatalog";
+import { applyFilters, measureLoudness, normalizeLoudness, pitchShift } from "./dspService";
+
+// จับคู่เสียงพากย์กับเสียงของผู้พูดต้นฉบับจากคลิปอ้างอิงสั้นๆ
+// ผู้ให้บริการที่โคลนเสียงได้รับคลิปไปใช้ตรงๆ ส่วนเสียงสำเร็จรูปจะเลือกเสียงที่ใกล้ที่สุด บอกลักษณะเสียงในพรอมต์
+// แล้วปรับระดับเสียง โทนเสียง และความดังหลังสังเคราะห์ให้ใกล้กับต้นฉบับ
+
+// วิเคราะห์ที่ 16kHz ทั้งเสียงอ้างอิงและเสียงพากย์ ค่าที่วัดได้จึงเทียบกันได้
+const ANALYSIS_RATE = 16000;
+export const REFERENCE_MAX_SECONDS = 8;
+// เสียงพูดที่วัดระดับเสียงได้ต้องมีอย่างน้อยเท่านี้ ผลจึงเชื่อถือได้
+const MIN_VOICED_SECONDS = 0.5;
+const FRAME = 640;
+const HOP = 320;
+const MIN_PITCH = 60;
+const MAX_PITCH = 400;
+// ค่าความคล้ายของคลื่นกับตัวเองที่นับว่าเป็นเสียงก้อง (สระ) ไม่ใช่เสียงลมหรือดนตรีประกอบ
+const VOICING_THRESHOLD = 0.6;
+// เฟรมที่เบากว่าเฟรมที่ดังที่สุดมากๆ ไม่นำมาวัด
+const SILENCE_RATIO = 0.1;
+// ระดับเสียงพูดทั่วไปของผู้ชาย/ผู้หญิง (Hz) ใช้แบ่งเพศและบอกว่าเสียงทุ้มหรือแหลม
+const GENDER_PITCH_SPLIT = 165;
+const TYPICAL_PITCH: Record<Gender, number> = { male: 120, female: 210 };
+// ปรับเสียงสำเร็จรูปได้ไม่เกินเท่านี้ ไม่เช่นนั้นเสียงจะเพี้ยนจนฟังไม่เป็นธรรมชาติ
+const MAX_MATCH_SEMITONES = 4;
+const MAX_SHELF_DB = 4;
+const SHELF_FREQUENCY = 2500;
+// เสียงต้นฉบับมักมีดนตรีปน จึงจำกัดความดังเป้าหมายไว้ในช่วงที่ฟังรู้เรื่อง
+const LOUDNESS_RANGE: [number, number] = [-28, -14];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const semitones = (from: number, to: number) => 12 * Math.log2(to / from);
+
+const percentile = (values: number[], ratio: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(ratio * sorted.length))];
+};
+
+// รวมทุกช่องเป็น mono แล้วลดอัตราสุ่มด้วยการเฉลี่ยแต่ละช่วง (กันเสียงแหลมพับกลับมาเป็นเสียงรบกวน)
+const resampleMono = (buffer: AudioBuffer, from = 0, to = buffer.length): Float32Array => {
+  const ratio = buffer.sampleRate / ANALYSIS_RATE;
+  const output = new Float32Array(Math.max(0, Math.floor((to - from) / ratio)));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = 0; i < output.length; i++) {
+    const start = from + Math.floor(i * ratio);
+    const end = Math.min(to, Math.max(start + 1, from + Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (const data of channels) {
+      for (let j = start; j < end; j++) sum += data[j];
+    }
+    output[i] = sum / ((end - start) * channels.length);
+  }
+  return output;
+};
+
+interface VoiceMeasurement {
+  pitches: number[];
+  brightness: number;
+}
+
+// ระดับเสียงต่อเฟรมด้วย normalized autocorrelation และความถี่เฉลี่ยแบบ RMS (sqrt(พลังงานของผลต่าง/พลังงาน))
+// จากเฉพาะเฟรมที่มีเสียงพูด
+const measureVoice = (data: Float32Array): VoiceMeasurement => {
+  const minLag = Math.floor(ANALYSIS_RATE / MAX_PITCH);
+  const maxLag = Math.ceil(ANALYSIS_RATE / MIN_PITCH);
+  const starts: number[] = [];
+  for (let s = 0; s + FRAME + maxLag + 1 <= data.length; s += HOP) starts.push(s);
+  const levels = starts.map(s => {
+    let sum = 0;
+    for (let i = s; i < s + FRAME; i++) sum += data[i] * data[i];
+    return Math.sqrt(sum / FRAME);
+  });
+  const peak = levels.reduce((max, level) => Math.max(max, level), 0);
+
+  const pitches: number[] = [];
+  let signal = 0;
+  let slope = 0;
+  starts.forEach((s, f) => {
+    if (peak === 0 || levels[f] < peak * SILENCE_RATIO) return;
+    for (let i = s + 1; i < s + FRAME; i++) {
+      signal += data[i] * data[i];
+      slope += (data[i] - data[i - 1]) ** 2;
+    }
+
+    const scores = new Float32Array(maxLag + 2);
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag + 1; lag++) {
+      let cross = 0, a = 0, b = 0;
+      for (let i = s; i < s + FRAME; i++) {
+        cross += data[i] * data[i + lag];
+        a += data[i] * data[i];
+        b += data[i + lag] * data[i + lag];
+      }
+      scores[lag] = a > 0 && b > 0 ? cross / Math.sqrt(a * b) : 0;
+      if (lag <= maxLag) best = Math.max(best, scores[lag]);
+    }
+    if (best < VOICING_THRESHOLD) return;
+    // ยอดแรกที่สูงใกล้เคียงยอดสูงสุด กันการอ่านได้ต่ำไปหนึ่งช่วงคู่แปด
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (scores[lag] >= best * 0.9 && scores[lag] >= scores[lag - 1] && scores[lag] >= scores[lag + 1]) {
+        pitches.push(ANALYSIS_RATE / lag);
+        return;
+      }
+    }
+  });
+
+  return { pitches, brightness: signal > 0 ? (ANALYSIS_RATE / (2 * Math.PI)) * Math.sqrt(slope / signal) : 0 };
+};
+
+// ช่วงเวลาที่ผู้พูดคนนี้พูดคนเดียว (ไม่ทับกับผู้พูดคนอื่น) เรียงจากยาวไปสั้นจนได้ความยาวพอ แล้วเรียงตามเวลา
+export const findReferenceRanges = (
+  segments: TranslationSegment[],
+  speakerId: string,
+  maxSeconds = REFERENCE_MAX_SECONDS
+): { start: number; end: number }[] => {
+  const others = segments.filter(s => s.speaker !== speakerId);
+  const own = segments
+    .filter(s => s.speaker === speakerId && !others.some(o => o.start < s.end && o.end > s.start))
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  const ranges: { start: number; end: number }[] = [];
+  let total = 0;
+  for (const segment of own) {
+    if (total >= maxSeconds) break;
+    const end = Math.min(segment.end, segment.start + maxSeconds - total);
+    ranges.push({ start: segment.start, end });
+    total += end - segment.start;
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+// คลิปอ้างอิง mono 16kHz ยาวไม่เกิน REFERENCE_MAX_SECONDS (ไม่ระบุช่วง = ใช้ตั้งแต่ต้นไฟล์)
+export const createReferenceClip = (
+  buffer: AudioBuffer,
+  ctx: BaseAudioContext,
+  ranges: { start: number; end: number }[] = [{ start: 0, end: buffer.duration }]
+): AudioBuffer => {
+  const parts: Float32Array[] = [];
+  let length = 0;
+  for (const range of ranges) {
+    const remaining = REFERENCE_MAX_SECONDS * ANALYSIS_RATE - length;
+    if (remaining <= 0) break;
+    const from = Math.max(0, Math.floor(range.start * buffer.sampleRate));
+    const to = Math.min(buffer.length, Math.ceil(range.end * buffer.sampleRate));
+    if (to <= from) continue;
+    const part = resampleMono(buffer, from, to).subarray(0, remaining);
+    parts.push(part);
+    length += part.length;
+  }
+  const clip = ctx.createBuffer(1, Math.max(1, length), ANALYSIS_RATE);
+  let offset = 0;
+  for (const part of parts) {
+    clip.copyToChannel(part, 0, offset);
+    offset += part.length;
+  }
+  return clip;
+};
+
+// คืน null เมื่อคลิปมีเสียงพูดชัดๆ น้อยเกินไปที่จะวัดได้
+export const analyzeVoice = (clip: AudioBuffer, source: VoiceReference['source']): VoiceReference | null => {
+  const { pitches, brightness } = measureVoice(resampleMono(clip));
+  if (pitches.length * HOP < MIN_VOICED_SECONDS * ANALYSIS_RATE) return null;
+  const pitchMedian = percentile(pitches, 0.5);
+  const loudness = measureLoudness(clip);
+  return {
+    source,
+    pitchMedian,
+    pitchLow: percentile(pitches, 0.1),
+    pitchHigh: percentile(pitches, 0.9),
+    loudness: isFinite(loudness) ? loudness : LOUDNESS_RANGE[0],
+    brightness,
+    gender: pitchMedian < GENDER_PITCH_SPLIT ? 'male' : 'female'
+  };
+};
+
+interface VoiceTraits {
+  // -1..1: เบา/นุ่ม → ดัง/มีพลัง, ราบเรียบ → ขึ้นลงมาก, ทุ้ม → แหลม
+  energy: number;
+  expressive: number;
+  pitch: number;
+}
+
+// ลักษณะของเสียงสำเร็จรูป ประเมินจากคำอธิบายสไตล์ของ Gemini (ไม่มีค่าที่วัดจริงให้)
+const STYLE_TRAITS: Record<string, VoiceTraits> = {
+  'Upbeat': { energy: 0.7, expressive: 0.6, pitch: 0.3 },
+  'Informative': { energy: 0, expressive: -0.3, pitch: 0 },
+  'Excitable': { energy: 1, expressive: 1, pitch: 0.5 },
+  'Firm': { energy: 0.4, expressive: -0.5, pitch: -0.3 },
+  'Breathy': { energy: -0.7, expressive: -0.2, pitch: 0 },
+  'Clear': { energy: 0.2, expressive: 0, pitch: 0.2 },
+  'Easy-going': { energy: -0.3, expressive: 0, pitch: -0.1 },
+  'Smooth': { energy: -0.2, expressive: -0.3, pitch: -0.2 },
+  'Gravelly': { energy: 0.1, expressive: -0.2, pitch: -1 },
+  'Even': { energy: 0, expressive: -0.8, pitch: 0 },
+  'Friendly': { energy: 0.3, expressive: 0.3, pitch: 0.1 },
+  'Casual': { energy: -0.1, expressive: 0.2, pitch: 0 },
+  'Lively': { energy: 0.8, expressive: 0.8, pitch: 0.4 },
+  'Knowledgeable': { energy: 0, expressive: -0.4, pitch: -0.3 },
+  'Bright': { energy: 0.5, expressive: 0.4, pitch: 0.8 },
+  'Breezy': { energy: 0.2, expressive: 0.3, pitch: 0.4 },
+  'Youthful': { energy: 0.5, expressive: 0.5, pitch: 1 },
+  'Soft': { energy: -1, expressive: -0.3, pitch: 0.2 },
+  'Mature': { energy: 0, expressive: -0.3, pitch: -0.8 },
+  'Forward': { energy: 0.8, expressive: 0, pitch: 0 },
+  'Gentle': { energy: -0.8, expressive: -0.2, pitch: 0.1 },
+  'Warm': { energy: -0.2, expressive: 0.1, pitch: -0.4 }
+};
+
+const referenceTraits = (reference: VoiceReference): VoiceTraits => ({
+  energy: clamp((reference.loudness + 22) / 6, -1, 1),
+  expressive: clamp((semitones(reference.pitchLow, reference.pitchHigh) - 6) / 4, -1, 1),
+  pitch: clamp(semitones(TYPICAL_PITCH[reference.gender], reference.pitchMedian) / 4, -1, 1)
+});
+
+// เสียงสำเร็จรูปเพศเดียวกันที่ลักษณะใกล้ที่สุด เลี่ยงเสียงที่ผู้พูดคนอื่นใช้อยู่ถ้าใกล้เคียงพอกัน
+export const pickClosestVoice = (reference: VoiceReference, taken: Set<string> = new Set()): PrebuiltVoice => {
+  const target = referenceTraits(reference);
+  const distance = (voice: PrebuiltVoice) => {
+    const traits = STYLE_TRAITS[voice.style] || { energy: 0, expressive: 0, pitch: 0 };
+    return (traits.energy - target.energy) ** 2
+      + (traits.expressive - target.expressive) ** 2
+      + 2 * (traits.pitch - target.pitch) ** 2
+      + (taken.has(voice.name) ? 0.5 : 0);
+  };
+  const candidates = PREBUILT_VOICES.filter(v => v.gender === reference.gender);
+  return candidates.reduce((best, voice) => distance(voice) < distance(best) ? voice : best, candidates[0]);
+};
+
+// คำอธิบายลักษณะเสียงสำหรับพรอมต์ TTS (ภาษาอังกฤษตามพรอมต์ส่วนอื่น)
+export const describeVoice = (reference: VoiceReference): string => {
+  const traits = referenceTraits(reference);
+  const parts = [
+    traits.pitch < -0.5 ? 'deep, low-pitched voice' : traits.pitch > 0.5 ? 'high-pitched voice' : 'mid-pitched voice',
+    traits.expressive < -0.5 ? 'steady, narrow intonation' : traits.expressive > 0.5 ? 'very expressive intonation with a wide pitch range' : 'natural intonation',
+    traits.energy < -0.5 ? 'soft, relaxed delivery' : traits.energy > 0.5 ? 'energetic, projected delivery' : 'moderate energy'
+  ];
+  return `Match the original speaker: ${parts.join(', ')}.`;
+};
+
+// ระดับเสียงและโทนเสียงปกติของแต่ละเสียงสำเร็จรูป วัดจากคลิปแรกที่สร้างด้วยเสียงนั้นแล้วใช้ค่าเดิมทุกประโยค
+// (วัดทีละประโยคจะทำให้ทำนองขึ้นลงของประโยคถูกปรับจนแบน)
+const voiceMeasurements = new Map<string, { pitch: number; brightness: number }>();
+
+// ปรับเสียงที่สังเคราะห์แล้วให้ใกล้เสียงอ้างอิง เสียงที่โคลนแล้วปรับเฉพาะความดัง
+export const matchToReference = (
+  buffer: AudioBuffer,
+  reference: VoiceReference,
+  voiceKey: string,
+  cloned: boolean,
+  ctx: BaseAudioContext
+): AudioBuffer => {
+  let processed = buffer;
+  if (!cloned) {
+    if (!voiceMeasurements.has(voiceKey)) {
+      const { pitches, brightness } = measureVoice(resampleMono(buffer));
+      if (pitches.length * HOP >= MIN_VOICED_SECONDS * ANALYSIS_RATE) {
+        voiceMeasurements.set(voiceKey, { pitch: percentile(pitches, 0.5), brightness });
+      }
+    }
+    const voice = voiceMeasurements.get(voiceKey);
+    if (voice) {
+      const shift = clamp(semitones(voice.pitch, reference.pitchMedian), -MAX_MATCH_SEMITONES, MAX_MATCH_SEMITONES);
+      if (Math.abs(shift) >= 0.5) processed = pitchShift(processed, shift, ctx);
+      // pitchShift แบบ resample เลื่อนโทนเสียงไปพร้อมกัน จึงคิดความสว่างหลังเลื่อนแล้ว
+      const brightness = voice.brightness * Math.pow(2, (Math.abs(shift) >= 0.5 ? shift : 0) / 12);
+      const gain = reference.brightness > 0 && brightness > 0
+        ? clamp(6 * Math.log2(reference.brightness / brightness), -MAX_SHELF_DB, MAX_SHELF_DB)
+        : 0;
+      if (Math.abs(gain) >= 0.5) processed = applyFilters(processed, [{ type: 'highshelf', frequency: SHELF_FREQUENCY, q: 0.7, gain }], ctx);
+    }
+  }
+  return normalizeLoudness(processed, clamp(reference.loudness, ...LOUDNESS_RANGE), ctx);
+};
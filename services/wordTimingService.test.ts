@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { ClipPlacement, WordTiming } from "../types";
+import { speechPattern } from "./testAudio";
+import { estimateWordTimings, findActiveWord, timingsMatchText } from "./wordTimingService";
+
+const spoken = (words: WordTiming[]) => words.filter(w => w.text.trim());
+
+describe('estimateWordTimings', () => {
+  it('returns nothing for empty text', () => {
+    expect(estimateWordTimings(speechPattern([1]), '  ', 'en')).toEqual([]);
+  });
+
+  it('keeps every token so the words join back to the text', () => {
+    const words = estimateWordTimings(speechPattern([2]), ' hello big world, again ', 'en');
+    expect(words.map(w => w.text).join('')).toBe('hello big world, again');
+    expect(timingsMatchText(words, ' hello big world, again ')).toBe(true);
+  });
+
+  it('orders words in time inside the clip', () => {
+    const buffer = speechPattern([2]);
+    const words = estimateWordTimings(buffer, 'one two three four', 'en');
+    words.forEach((word, i) => {
+      expect(word.start).toBeLessThanOrEqual(word.end);
+      expect(word.end).toBeLessThanOrEqual(buffer.duration);
+      if (i > 0) expect(word.start).toBeGreaterThanOrEqual(words[i - 1].end);
+    });
+  });
+
+  it('skips leading silence and ends the last word with the speech', () => {
+    const words = spoken(estimateWordTimings(speechPattern([-0.3, 1, -0.5]), 'hello world', 'en'));
+    expect(words[0].start).toBeCloseTo(0.3, 1);
+    expect(words[words.length - 1].end).toBeCloseTo(1.3, 1);
+  });
+
+  it('places the boundary between two phrases in the pause', () => {
+    const words = spoken(estimateWordTimings(speechPattern([0.6, -0.4, 0.6]), 'hello, world', 'en'));
+    const [first, , second] = words;
+    expect(first.text).toBe('hello');
+    expect(first.end).toBeCloseTo(0.6, 1);
+    expect(second.text).toBe('world');
+    expect(second.start).toBeCloseTo(1, 1);
+  });
+
+  it('gives longer words more time', () => {
+    const [short, long] = spoken(estimateWordTimings(speechPattern([2]), 'hi extraordinary', 'en'));
+    expect(long.end - long.start).toBeGreaterThan(3 * (short.end - short.start));
+  });
+});
+
+describe('timingsMatchText', () => {
+  it('rejects timings made for different text', () => {
+    const words = estimateWordTimings(speechPattern([1]), 'hello world', 'en');
+    expect(timingsMatchText(words, 'hello there')).toBe(false);
+    expect(timingsMatchText(undefined, 'hello world')).toBe(false);
+  });
+});
+
+describe('findActiveWord', () => {
+  const words: WordTiming[] = [
+    { text: 'hello', start: 0.1, end: 0.5 },
+    { text: ' ', start: 0.5, end: 0.5 },
+    { text: 'world', start: 0.8, end: 1.2 }
+  ];
+  const placements: ClipPlacement[] = [{ segmentId: 'a', offset: 10, duration: 1.5, overrun: 0, words }];
+
+  it('finds the word being spoken on the timeline', () => {
+    expect(findActiveWord(placements, 10.2)).toEqual({ segmentId: 'a', index: 0 });
+    expect(findActiveWord(placements, 10.9)).toEqual({ segmentId: 'a', index: 2 });
+  });
+
+  it('stays on the last word during a gap between words', () => {
+    expect(findActiveWord(placements, 10.65)).toEqual({ segmentId: 'a', index: 0 });
+  });
+
+  it('returns null before the first word and outside any clip', () => {
+    expect(findActiveWord(placements, 10.05)).toBeNull();
+    expect(findActiveWord(placements, 5)).toBeNull();
+    expect(findActiveWord(placements, 11.6)).toBeNull();
+  });
+});
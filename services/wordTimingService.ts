@@ -0,0 +1,132 @@
+import { ClipPlacement, TargetLanguage, WordTiming } from "../types";
+import { splitWords } from "./captionService";
+import { normalizeForSpeech } from "./pronunciationService";
+
+// ประมาณเวลาของแต่ละคำจากเสียงที่สังเคราะห์แล้ว (TTS ไม่ส่งเวลาต่อคำมาให้)
+// กระจายคำตามสัดส่วนความยาวคำอ่านไปบนช่วงที่มีเสียงพูดจริง ช่วงเงียบจึงไม่กินเวลาของคำ
+// แล้วขยับรอยต่อไปยังจุดที่เสียงเบาที่สุดใกล้ๆ ซึ่งมักเป็นรอยต่อพยางค์
+
+const FRAME_SECONDS = 0.01;
+// ระดับเสียง (เทียบกับจุดที่ดังที่สุด) ที่นับว่ากำลังพูด
+const VOICED_RATIO = 0.1;
+const SNAP_SECONDS = 0.06;
+// รอยต่อที่ตรงกับช่องว่างหรือเครื่องหมายมักเป็นจุดหยุดหายใจ จึงหาช่วงเงียบได้ไกลกว่า
+const PAUSE_SNAP_SECONDS = 0.35;
+
+// สระบน/ล่างและวรรณยุกต์ไม่ได้ทำให้อ่านนานขึ้น
+const THAI_MARKS = /[ัิ-ฺ็-๎]/g;
+
+const isSpoken = (token: string) => /[\p{L}\p{N}]/u.test(token);
+
+const spokenWeight = (token: string, language: TargetLanguage) =>
+  isSpoken(token) ? Math.max(1, normalizeForSpeech(token, language).replace(THAI_MARKS, '').replace(/\s/g, '').length) : 0;
+
+const frameLevels = (buffer: AudioBuffer): Float32Array => {
+  const size = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const levels = new Float32Array(Math.ceil(buffer.length / size));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let f = 0; f < levels.length; f++) {
+    let sum = 0;
+    const end = Math.min(buffer.length, (f + 1) * size);
+    for (const data of channels) {
+      for (let i = f * size; i < end; i++) sum += data[i] * data[i];
+    }
+    levels[f] = Math.sqrt(sum / ((end - f * size) * channels.length));
+  }
+  return levels;
+};
+
+// คำ (รวมช่องว่างและเครื่องหมาย ซึ่งมีเวลาเป็นศูนย์) ต่อกันแล้วได้ข้อความเดิมที่ตัดช่องว่างหัวท้ายแล้ว
+export const estimateWordTimings = (buffer: AudioBuffer, text: string, language: TargetLanguage): WordTiming[] => {
+  const tokens = splitWords(text.trim()).filter(token => token);
+  const weights = tokens.map(token => spokenWeight(token, language));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (tokens.length === 0) return [];
+
+  const levels = frameLevels(buffer);
+  const peak = levels.reduce((max, level) => Math.max(max, level), 0);
+  const voiced = Array.from(levels, level => peak > 0 && level >= peak * VOICED_RATIO);
+  // จำนวนเฟรมที่มีเสียงสะสม ใช้แปลงสัดส่วนของข้อความเป็นตำแหน่งบนเสียง
+  const cumulative = new Int32Array(levels.length + 1);
+  voiced.forEach((v, f) => { cumulative[f + 1] = cumulative[f] + (v ? 1 : 0); });
+  const totalVoiced = cumulative[levels.length];
+
+  const frameAt = (fraction: number) => {
+    if (totalVoiced === 0) return Math.round(fraction * levels.length);
+    const target = fraction * totalVoiced;
+    let f = 0;
+    while (f < levels.length && cumulative[f + 1] < target) f++;
+    return f;
+  };
+
+  const snap = (frame: number, min: number, atPause: boolean) => {
+    const lo = (radius: number) => Math.max(min, frame - Math.round(radius / FRAME_SECONDS));
+    const hi = (radius: number) => Math.min(levels.length - 1, frame + Math.round(radius / FRAME_SECONDS));
+    if (atPause && totalVoiced) {
+      // ช่วงเงียบที่ใกล้ที่สุด แล้วถอยไปที่ต้นช่วงเงียบนั้น (คำก่อนหน้าจบตรงนั้น)
+      // แต่ไม่ให้คำก่อนหน้าสั้นกว่าหนึ่งในสี่ของความยาวตามสัดส่วน
+      const floor = min + Math.ceil((frame - min) / 4);
+      let silent = -1;
+      for (let d = 0; silent < 0 && (frame - d >= floor || frame + d <= hi(PAUSE_SNAP_SECONDS)); d++) {
+        if (frame - d >= Math.max(floor, lo(PAUSE_SNAP_SECONDS)) && !voiced[frame - d]) silent = frame - d;
+        else if (frame + d <= hi(PAUSE_SNAP_SECONDS) && !voiced[frame + d]) silent = frame + d;
+      }
+      if (silent >= 0) {
+        while (silent > floor && !voiced[silent - 1]) silent--;
+        return silent;
+      }
+    }
+    let best = Math.max(min, Math.min(frame, levels.length - 1));
+    for (let f = lo(SNAP_SECONDS); f <= hi(SNAP_SECONDS); f++) {
+      if (levels[f] < levels[best]) best = f;
+    }
+    return Math.max(min, best);
+  };
+
+  const first = totalVoiced ? voiced.indexOf(true) : 0;
+  const last = totalVoiced ? voiced.lastIndexOf(true) + 1 : levels.length;
+  const boundaries = [first];
+  let weightSoFar = 0;
+  weights.forEach((weight, i) => {
+    weightSoFar += weight;
+    const previous = boundaries[boundaries.length - 1];
+    if (i === weights.length - 1) boundaries.push(Math.max(previous, last));
+    else if (weight === 0 || totalWeight === 0) boundaries.push(previous);
+    else boundaries.push(snap(frameAt(weightSoFar / totalWeight), previous, !isSpoken(tokens[i + 1])));
+  });
+
+  // คำเริ่มที่เฟรมแรกที่มีเสียงหลังรอยต่อ เพื่อไม่ให้ช่วงเงียบระหว่างวลีนับเป็นเวลาของคำถัดไป
+  const nextVoiced = (from: number, limit: number) => {
+    let f = from;
+    while (f < limit && !voiced[f]) f++;
+    return f;
+  };
+
+  const seconds = (frame: number) => Math.min(buffer.duration, frame * FRAME_SECONDS);
+  return tokens.map((token, i) => {
+    const end = boundaries[i + 1];
+    const start = weights[i] > 0 && totalVoiced ? nextVoiced(boundaries[i], end) : boundaries[i];
+    return { text: token, start: seconds(start), end: seconds(end) };
+  });
+};
+
+// เวลาต่อคำยังใช้ได้ก็ต่อเมื่อข้อความไม่ถูกแก้หลังสร้างเสียง
+export const timingsMatchText = (words: WordTiming[] | undefined, text: string): words is WordTiming[] =>
+  !!words?.length && words.map(w => w.text).join('') === text.trim();
+
+export const isSpokenWord = (word: WordTiming) => isSpoken(word.text);
+
+// คำที่กำลังพูดอยู่ ณ เวลาบนไทม์ไลน์ (ระหว่างคำต่อกัน ถือว่ายังอยู่ที่คำล่าสุด)
+export const findActiveWord = (
+  placements: ClipPlacement[],
+  time: number
+): { segmentId: string; index: number } | null => {
+  const placement = placements.find(p => time >= p.offset && time < p.offset + p.duration);
+  if (!placement?.words?.length) return null;
+  const local = time - placement.offset;
+  let index = -1;
+  placement.words.forEach((word, i) => {
+    if (isSpokenWord(word) && word.start <= local) index = i;
+  });
+  return index >= 0 ? { segmentId: placement.segmentId, index } : null;
+};
@@ -11,21 +11,242 @@ export enum ProcessingStep {
 
 export type SettingsMode = 'auto' | 'manual';
 export type Gender = 'male' | 'female';
-export type Mood = 'natural' | 'cheerful' | 'excited' | 'soft' | 'serious' | 'isan';
+export type Mood = 'natural' | 'cheerful' | 'excited' | 'soft' | 'serious';
 export type SpeechSpeed = 'normal' | 'sync';
 export type LanguageIntensity = 'polite' | 'normal' | 'rude';
+export type TargetLanguage = 'th' | 'vi' | 'lo' | 'id' | 'en';
+export type SourceLanguage = 'auto' | 'zh' | 'en' | 'ja' | 'ko' | 'th' | 'vi' | 'id' | 'lo';
 
 export interface VoiceSettings {
   mode: SettingsMode;
+  targetLanguage: TargetLanguage;
+  sourceLanguage: SourceLanguage;
+  dialect: string;
   gender: Gender;
   mood: Mood;
   speed: SpeechSpeed;
   intensity: LanguageIntensity;
   customDuration?: number | null;
   speechRate?: number;
+  // ปรับเสียงหลังสังเคราะห์ (ทำในเบราว์เซอร์ ไม่ได้ส่งเป็นคำสั่งให้ TTS)
+  pitchShift?: number;
+  effectPreset?: VoiceEffectPreset;
+  loudnessTarget?: number | null;
 }
 
+export type VoiceEffectPreset = 'none' | 'broadcast' | 'podcast' | 'warm' | 'bright';
+
 export interface TranslationResult {
   originalText: string;
   thaiTranslation: string;
 }
+
+export interface TranslationSegment {
+  id: string;
+  start: number;
+  end: number;
+  speaker: string;
+  originalText: string;
+  targetText: string;
+  // คำอ่านที่ผู้ใช้แก้เอง ใช้แทนการแปลงอัตโนมัติตราบที่ targetText ยังไม่เปลี่ยน
+  spokenText?: string;
+}
+
+// ลักษณะเสียงของผู้พูดต้นฉบับ วัดจากคลิปอ้างอิงสั้นๆ (อัปโหลดเองหรือตัดจากวิดีโอ)
+export interface VoiceReference {
+  source: 'upload' | 'extract';
+  // ความถี่มูลฐาน (Hz): ค่ากลาง และเปอร์เซ็นไทล์ที่ 10/90 (ช่วงเสียงสูงต่ำ)
+  pitchMedian: number;
+  pitchLow: number;
+  pitchHigh: number;
+  // ความดัง (LUFS) และความถี่เฉลี่ยแบบ RMS ของสเปกตรัม (Hz) ใช้แทนความสว่างของน้ำเสียง
+  loudness: number;
+  brightness: number;
+  gender: Gender;
+}
+
+export interface SpeakerProfile {
+  id: string;
+  name: string;
+  gender: Gender;
+  mood: Mood;
+  voiceName: string;
+  // มีค่า = ปรับเสียงพากย์ให้ใกล้กับเสียงต้นฉบับของผู้พูดคนนี้
+  reference?: VoiceReference;
+}
+
+export interface VideoTranslation {
+  segments: TranslationSegment[];
+  speakers: SpeakerProfile[];
+}
+
+export interface MixSettings {
+  keepBackground: boolean;
+  masterGain: number;
+  dubGain: number;
+  backgroundGain: number;
+  // ระดับเสียงพื้นหลังขณะมีเสียงพากย์ (คูณกับ backgroundGain)
+  duckLevel: number;
+  duckAttack: number;
+  duckRelease: number;
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+export type SafeAreaPreset = 'none' | 'tiktok' | 'reels' | 'shorts';
+
+export interface CaptionStyle {
+  enabled: boolean;
+  fontFamily: string;
+  fontWeight: number;
+  // ขนาดตัวอักษรเป็นเปอร์เซ็นต์ของความสูงเฟรม เพื่อให้ได้ผลเหมือนกันทุกความละเอียด
+  fontSize: number;
+  color: string;
+  outlineColor: string;
+  // ความหนาขอบเป็นเปอร์เซ็นต์ของขนาดตัวอักษร
+  outlineWidth: number;
+  backgroundColor: string | null;
+  position: CaptionPosition;
+  safeArea: SafeAreaPreset;
+  maxLines: number;
+  // ระบายสีคำตามเสียงพากย์ที่กำลังพูด
+  karaoke?: boolean;
+  highlightColor?: string;
+}
+
+export type VideoInput =
+  | { kind: 'inline'; data: string; mimeType: string }
+  | { kind: 'file'; uri: string; mimeType: string; name: string };
+
+// ตำแหน่งจริงของเสียงพากย์แต่ละช่วงบนไทม์ไลน์ (อาจถูกเลื่อนเมื่อประโยคก่อนหน้ายาวเกิน)
+export interface ClipPlacement {
+  segmentId: string;
+  offset: number;
+  duration: number;
+  overrun: number;
+  // เวลาของแต่ละคำนับจากต้นคลิป (ประมาณจากเสียงที่สังเคราะห์) ใช้ไฮไลต์คำและซับแบบคาราโอเกะ
+  words?: WordTiming[];
+}
+
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface HookVariant {
+  id: string;
+  createdAt: number;
+  text: string;
+  dialect: string;
+  // มุมการเล่า (เช่น curiosity gap) เมื่อสร้างหลายแบบพร้อมกัน
+  angle?: string;
+}
+
+export type VersionSource = 'translation' | 'subtitle-import' | 'manual' | 'hook' | 'dialect-hook';
+
+// สำเนาของคำแปลทุกครั้งที่มีการเปลี่ยนข้อความ parentId ใช้ย้อนกลับ (undo) ไปยังเวอร์ชันก่อนหน้าของสายการแก้ไขนั้น
+export interface TranslationVersion {
+  id: string;
+  parentId: string | null;
+  createdAt: number;
+  source: VersionSource;
+  segments: TranslationSegment[];
+  speakers: SpeakerProfile[];
+  settings: VoiceSettings;
+}
+
+// ข้อมูลโปรเจกต์ที่บันทึกใน IndexedDB (ไม่รวมไฟล์วิดีโอและเสียงพากย์ ซึ่งเก็บแยกเพื่อให้โหลดรายการได้เร็ว)
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mimeType: string;
+  duration: number;
+  videoSize: number;
+  settings: VoiceSettings;
+  segments: TranslationSegment[];
+  speakers: SpeakerProfile[];
+  placements: ClipPlacement[];
+  mixSettings: MixSettings;
+  captionStyle: CaptionStyle;
+  hookVariants: HookVariant[];
+  versions?: TranslationVersion[];
+  currentVersionId?: string | null;
+  // การตั้งค่าโมเดลเฉพาะโปรเจกต์นี้ (ไม่มี = ใช้การตั้งค่าหลัก)
+  modelSettings?: ModelSettings | null;
+  glossary?: GlossaryEntry[];
+}
+
+// คำที่ต้องแปลแบบเดิมทุกครั้ง (ชื่อแบรนด์, ชื่อสินค้า, คำติดปากของครีเอเตอร์)
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  // คำที่ต้องใช้ในภาษาเป้าหมาย (ไม่ใช้เมื่อ keepAsIs)
+  target: string;
+  // ใช้คำต้นฉบับตามเดิม ไม่แปลและไม่ถอดเสียง
+  keepAsIs: boolean;
+}
+
+// ข้อมูลที่ส่งไปกับคำขอ AI ทุกครั้ง (แปล เขียน Hook พากย์) เก็บไว้ตั้งแต่เริ่มงาน
+// งานที่ยังทำอยู่ตอนเปลี่ยนโปรเจกต์หรืองานในคิวจึงไม่ไปใช้ค่าของโปรเจกต์อื่น
+export interface GenerationContext {
+  // คำล็อกของโปรเจกต์รวมกับคำกลางแล้ว
+  glossary: GlossaryEntry[];
+  // การตั้งค่าโมเดลของโปรเจกต์ (หรือการตั้งค่าหลักถ้าโปรเจกต์ไม่ได้กำหนด)
+  models: ModelSettings;
+  // คลิปอ้างอิง WAV mono 16kHz (base64) ตาม id ผู้พูด ส่งให้ผู้ให้บริการที่โคลนเสียงได้
+  // เก็บแยกจาก SpeakerProfile เพราะผู้พูดถูกคัดลอกเข้าทุกเวอร์ชันในประวัติและทุกครั้งที่บันทึกอัตโนมัติ
+  referenceClips?: Record<string, string>;
+}
+
+// คำอ่านสำหรับ TTS: รูปที่เขียน → รูปที่ให้อ่านออกเสียง (เช่น "5G" → "ไฟว์จี")
+export interface PronunciationEntry {
+  id: string;
+  written: string;
+  spoken: string;
+}
+
+export type AIProviderId = 'gemini' | 'proxy' | 'openai' | 'mock';
+
+// เซิร์ฟเวอร์ที่รองรับ API แบบ OpenAI (เช่น OpenAI, vLLM, LM Studio, LiteLLM)
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  ttsModel: string;
+  maleVoice: string;
+  femaleVoice: string;
+  // ชื่อฟิลด์ที่เซิร์ฟเวอร์ TTS ใช้รับเสียงอ้างอิงสำหรับโคลนเสียง (ว่าง = ไม่รองรับ)
+  referenceAudioField: string;
+}
+
+// เซิร์ฟเวอร์กลาง (server/) ที่ถือ API key ของ Gemini ไว้แทนเบราว์เซอร์
+export interface ProxyConfig {
+  url: string;
+  // โทเค็นผู้ใช้ (ถ้าเซิร์ฟเวอร์ตั้ง PROXY_TOKENS ไว้)
+  token: string;
+}
+
+export interface ProviderConfig {
+  provider: AIProviderId;
+  proxy: ProxyConfig;
+  openai: OpenAICompatibleConfig;
+}
+
+export type ModelTask = 'translation' | 'hook' | 'speech';
+
+export interface TaskModelConfig {
+  model: string;
+  temperature: number;
+  // null = ใช้ค่าเริ่มต้นของโมเดล, 0 = ปิดการคิด, -1 = ให้โมเดลกำหนดเอง
+  thinkingBudget: number | null;
+}
+
+export interface ModelSettings {
+  translation: TaskModelConfig;
+  hook: TaskModelConfig;
+  speech: TaskModelConfig;
+  // เสียงเริ่มต้นของแต่ละเพศ (null = ใช้เสียงหลักของภาษาเป้าหมาย)
+  voices: Record<Gender, string | null>;
+}
@@ -2,17 +2,24 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // ตั้ง API_PROXY_URL แล้วหน้าเว็บจะเรียก Gemini ผ่านเซิร์ฟเวอร์กลาง (server/) และไม่ฝัง API key ลงในไฟล์ที่บิลด์
+    const apiKey = env.API_PROXY_URL ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // บิลด์ของเซิร์ฟเวอร์อ่าน key จากตัวแปรแวดล้อมตอนรัน ไม่ฝังค่าไว้
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || '')
       },
       resolve: {
         alias: {